@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadAddressResolver } from '@/lib/repository'
+import { normaliseAddress } from '@/lib/addresses'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Assign a free-text address (as it appears in the ledger or bank feed) to a property.
+// An address that already resolves can only be moved by someone who can see where it
+// points now, or a restricted editor could pull another property's rows into theirs.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const alias = typeof body?.alias === 'string' ? body.alias.trim() : ''
+  const propertyId = typeof body?.property_id === 'string' ? body.property_id : ''
+  const aliasKey = normaliseAddress(alias)
+  if (!aliasKey || !propertyId) {
+    return NextResponse.json({ error: 'alias and property_id are required' }, { status: 400 })
+  }
+  if (!canSeeProperty(viewer, propertyId)) {
+    return NextResponse.json({ error: 'You do not have access to that property' }, { status: 403 })
+  }
+
+  const { data: property } = await supabaseAdmin
+    .from('properties_master').select('property_id').eq('property_id', propertyId).maybeSingle()
+  if (!property) return NextResponse.json({ error: 'Unknown property' }, { status: 404 })
+
+  const current = (await loadAddressResolver())(alias)
+  if (current && !canSeeProperty(viewer, current)) {
+    return NextResponse.json({ error: 'That address belongs to a property you do not have access to' }, { status: 403 })
+  }
+
+  const { error } = await supabaseAdmin
+    .from('property_address_aliases')
+    .upsert({ alias, alias_key: aliasKey, property_id: propertyId, created_by: viewer.id }, { onConflict: 'alias_key' })
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true }, { status: 201 })
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import readXlsxFile from 'read-excel-file/node'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadAddressResolver, loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseCsv } from '@/lib/csv'
+import { AGENT_COLUMNS, diffAgentStatement, parseAgentStatement } from '@/lib/agent-import'
+
+const MAX_FILE_BYTES = 5_000_000
+
+// Read either format into a grid of strings; spreadsheet dates become ISO dates
+async function readStatement(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readXlsxFile(Buffer.from(await file.arrayBuffer()))
+    return rows.map(cells => cells.map(c => {
+      if (c === null || c === undefined) return ''
+      if ((c as unknown) instanceof Date) return (c as unknown as Date).toISOString().slice(0, 10)
+      return String(c)
+    }))
+  }
+  return parseCsv(await file.text())
+}
+
+// Import a letting-agent statement (multipart: file, dryRun). A dry run returns
+// the diff without writing anything.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const form = await request.formData().catch(() => null)
+  const file = form?.get('file')
+  if (!(file instanceof File)) return NextResponse.json({ error: 'file is required' }, { status: 400 })
+  if (file.size > MAX_FILE_BYTES) return NextResponse.json({ error: 'The file is too large' }, { status: 413 })
+  if (!/\.(csv|xlsx)$/i.test(file.name)) {
+    return NextResponse.json({ error: 'Upload a .csv or .xlsx statement' }, { status: 400 })
+  }
+  const dryRun = form?.get('dryRun') !== 'false'
+
+  const table = await readStatement(file).catch(() => null)
+  if (!table) return NextResponse.json({ error: 'The spreadsheet could not be read' }, { status: 422 })
+
+  const { rows, errors } = parseAgentStatement(table)
+  const [{ ledger }, resolve] = await Promise.all([loadPortfolio(), loadAddressResolver()])
+  const { fresh, duplicates } = diffAgentStatement(rows, ledger)
+
+  // Unmatched addresses are still imported and then show under Unmatched Addresses,
+  // but a restricted editor may only add rows for their own properties
+  const resolved = fresh.map(r => ({ ...r, property_id: resolve(r.property_address) }))
+  for (const r of resolved) {
+    if (!canSeeProperty(viewer, r.property_id)) {
+      errors.push(`Row ${r.line}: "${r.property_address}" is not one of your properties`)
+    }
+  }
+  const unmatched = resolved.filter(r => !r.property_id).length
+
+  if (dryRun) return NextResponse.json({ fresh: resolved, duplicates, unmatched, errors })
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Fix the rows that could not be imported first' }, { status: 422 })
+  }
+  if (resolved.length > 0) {
+    const { error } = await supabaseAdmin.from('transactions').insert(resolved.map(r => ({
+      [AGENT_COLUMNS.date]:             r.date,
+      [AGENT_COLUMNS.property_address]: r.property_address,
+      [AGENT_COLUMNS.description]:      r.description,
+      [AGENT_COLUMNS.type]:             r.type,
+      [AGENT_COLUMNS.amount]:           r.amount,
+    })))
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, added: resolved.length, skipped: duplicates.length, unmatched }, { status: 201 })
+}
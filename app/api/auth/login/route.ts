@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { attemptLogin } from '@/lib/auth'
+import { SESSION_COOKIE, createSessionToken, sessionCookieOptions } from '@/lib/session'
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email : ''
+  const password = typeof body?.password === 'string' ? body.password : ''
+  if (!email || !password) {
+    return NextResponse.json({ error: 'Email and password are required' }, { status: 400 })
+  }
+
+  const result = await attemptLogin(email, password)
+
+  if (!result.ok) {
+    if (result.reason === 'locked') {
+      const minutes = Math.max(1, Math.ceil((new Date(result.lockedUntil).getTime() - Date.now()) / 60000))
+      return NextResponse.json(
+        { error: `Too many failed attempts — try again in ${minutes} minute${minutes === 1 ? '' : 's'}` },
+        { status: 429 },
+      )
+    }
+    return NextResponse.json({ error: 'Incorrect email or password' }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ ok: true })
+  response.cookies.set(SESSION_COOKIE, createSessionToken(result.user), sessionCookieOptions)
+  return response
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { SESSION_COOKIE } from '@/lib/session'
+
+// Plain form POST from the dashboard header — redirect back to the login screen
+export async function POST(request: Request) {
+  const response = NextResponse.redirect(new URL('/login', request.url), 303)
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
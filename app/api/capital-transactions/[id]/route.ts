@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseCapitalInput } from '@/lib/capital'
+import type { CapitalTransaction } from '@/lib/models'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function transactionFor(viewer: Viewer, id: string): Promise<CapitalTransaction | NextResponse> {
+  const { capitalTransactions } = await loadPortfolio()
+  const txn = capitalTransactions.find(t => t.transaction_id === id)
+  if (!txn || !canSeeProperty(viewer, txn.property_id)) {
+    return NextResponse.json({ error: 'Capital transaction not found' }, { status: 404 })
+  }
+  return txn
+}
+
+// Edit a capital transaction; it stays on the same property
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const { id } = await params
+  const txn = await transactionFor(viewer, id)
+  if (txn instanceof NextResponse) return txn
+
+  const parsed = parseCapitalInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('capital_transactions').update(parsed.input).eq('transaction_id', txn.transaction_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+// Rows posted from the bank feed are removed by un-posting the Starling row instead,
+// so its posted state stays in step
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const { id } = await params
+  const txn = await transactionFor(viewer, id)
+  if (txn instanceof NextResponse) return txn
+  if (txn.source_starling_id) {
+    return NextResponse.json({ error: 'Posted from Starling — un-post it from the Starling table instead' }, { status: 409 })
+  }
+
+  const { error } = await supabaseAdmin.from('capital_transactions').delete().eq('transaction_id', txn.transaction_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
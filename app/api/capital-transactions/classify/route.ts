@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { SUBCATEGORY_INFO, isCapitalSubcategory } from '@/lib/capital'
+import type { CapitalSubcategory } from '@/lib/models'
+
+// Set subcategories from the review screen: { assignments: { id, subcategory }[] }.
+// The type is brought in line with the subcategory, as the form does.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const assignments: unknown = body?.assignments
+  if (!Array.isArray(assignments) || assignments.length === 0) {
+    return NextResponse.json({ error: 'assignments must be a non-empty array' }, { status: 400 })
+  }
+
+  const { capitalTransactions } = await loadPortfolio()
+  const valid: { id: string; subcategory: CapitalSubcategory }[] = []
+  for (const a of assignments) {
+    if (typeof a?.id !== 'string' || !isCapitalSubcategory(a?.subcategory)) {
+      return NextResponse.json({ error: 'Each assignment needs an id and a valid subcategory' }, { status: 400 })
+    }
+    const txn = capitalTransactions.find(t => t.transaction_id === a.id)
+    if (!txn || !canSeeProperty(viewer, txn.property_id)) {
+      return NextResponse.json({ error: `Capital transaction ${a.id} not found` }, { status: 404 })
+    }
+    valid.push({ id: a.id, subcategory: a.subcategory })
+  }
+
+  for (const a of valid) {
+    const { error } = await supabaseAdmin
+      .from('capital_transactions')
+      .update({ subcategory: a.subcategory, type: SUBCATEGORY_INFO[a.subcategory].type })
+      .eq('transaction_id', a.id)
+    if (error) return NextResponse.json({ error: error.message, classified: valid.indexOf(a) }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, classified: valid.length })
+}
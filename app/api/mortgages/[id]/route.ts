@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { Mortgage } from '@/lib/models'
+import { parseMortgageInput } from '@/lib/mortgages'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function mortgageFor(viewer: Viewer, id: string): Promise<Mortgage | NextResponse> {
+  const { mortgages } = await loadPortfolio()
+  const mortgage = mortgages.find(m => m.id === id)
+  if (!mortgage || !canSeeProperty(viewer, mortgage.property_id)) {
+    return NextResponse.json({ error: 'Mortgage not found' }, { status: 404 })
+  }
+  return mortgage
+}
+
+// Edit a mortgage; it stays on the same property
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const mortgage = await mortgageFor(viewer, (await params).id)
+  if (mortgage instanceof NextResponse) return mortgage
+
+  const parsed = parseMortgageInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('mortgages').update(parsed.mortgage).eq('id', mortgage.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const mortgage = await mortgageFor(viewer, (await params).id)
+  if (mortgage instanceof NextResponse) return mortgage
+
+  const { error } = await supabaseAdmin.from('mortgages').delete().eq('id', mortgage.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseMortgageInput } from '@/lib/mortgages'
+
+// Record a mortgage against a property
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const propertyId = body?.property_id
+  const { properties } = await loadPortfolio()
+  if (typeof propertyId !== 'string' || !properties.some(p => p.property_id === propertyId) || !canSeeProperty(viewer, propertyId)) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const parsed = parseMortgageInput(body)
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('mortgages').insert({ property_id: propertyId, ...parsed.mortgage })
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true }, { status: 201 })
+}
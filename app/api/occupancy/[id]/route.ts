@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { OccupancyPeriod } from '@/lib/models'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function periodFor(viewer: Viewer, id: string): Promise<OccupancyPeriod | NextResponse> {
+  const { occupancyPeriods } = await loadPortfolio()
+  const period = occupancyPeriods.find(o => o.id === id)
+  if (!period || !canSeeProperty(viewer, period.property_id)) {
+    return NextResponse.json({ error: 'Occupancy entry not found' }, { status: 404 })
+  }
+  return period
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const period = await periodFor(viewer, (await params).id)
+  if (period instanceof NextResponse) return period
+
+  const { error } = await supabaseAdmin.from('occupancy_periods').delete().eq('id', period.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
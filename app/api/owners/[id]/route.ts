@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import type { Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { Owner } from '@/lib/models'
+import { parseOwnerInput } from '@/lib/tax'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function ownerFor(viewer: Viewer, id: string): Promise<Owner | NextResponse> {
+  if (viewer.propertyIds !== null) {
+    return NextResponse.json({ error: 'Only users with access to all properties can manage owners' }, { status: 403 })
+  }
+  const { owners } = await loadPortfolio()
+  const owner = owners.find(o => o.id === id)
+  if (!owner) return NextResponse.json({ error: 'Owner not found' }, { status: 404 })
+  return owner
+}
+
+// Rename an owner or update their other income
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const owner = await ownerFor(viewer, (await params).id)
+  if (owner instanceof NextResponse) return owner
+
+  const parsed = parseOwnerInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('owners').update(parsed.owner).eq('id', owner.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+// Their shares go with them
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const owner = await ownerFor(viewer, (await params).id)
+  if (owner instanceof NextResponse) return owner
+
+  const { error } = await supabaseAdmin.from('owners').delete().eq('id', owner.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
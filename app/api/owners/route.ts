@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseOwnerInput } from '@/lib/tax'
+
+// Add an owner. Restricted editors cannot, as an owner's tax covers every property they hold.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  if (viewer.propertyIds !== null) {
+    return NextResponse.json({ error: 'Only users with access to all properties can manage owners' }, { status: 403 })
+  }
+
+  const parsed = parseOwnerInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { data, error } = await supabaseAdmin.from('owners').insert(parsed.owner).select('id').single()
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true, id: String(data.id) }, { status: 201 })
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function setArchived(id: string, archived: boolean) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const { properties } = await loadPortfolio()
+  if (!properties.some(p => p.property_id === id) || !canSeeProperty(viewer, id)) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const { error } = await supabaseAdmin
+    .from('properties_master')
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq('property_id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+// Archive a property (hides it from the dashboard, keeps its history)
+export async function POST(_request: Request, { params }: Params) {
+  return setArchived((await params).id, true)
+}
+
+// Restore an archived property
+export async function DELETE(_request: Request, { params }: Params) {
+  return setArchived((await params).id, false)
+}
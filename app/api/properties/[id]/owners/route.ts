@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseSharesInput } from '@/lib/tax'
+
+type Params = { params: Promise<{ id: string }> }
+
+// Replace a property's owners and their shares
+export async function PUT(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  if (viewer.propertyIds !== null) {
+    return NextResponse.json({ error: 'Only users with access to all properties can manage owners' }, { status: 403 })
+  }
+
+  const id = (await params).id
+  const { properties, owners, propertyOwners } = await loadPortfolio()
+  if (!properties.some(p => p.property_id === id)) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const parsed = parseSharesInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+  if (!parsed.shares.every(s => owners.some(o => o.id === s.owner_id))) {
+    return NextResponse.json({ error: 'Unknown owner' }, { status: 404 })
+  }
+
+  const { error: clearError } = await supabaseAdmin.from('property_owners').delete().eq('property_id', id)
+  if (clearError) return NextResponse.json({ error: clearError.message }, { status: 500 })
+  if (parsed.shares.length > 0) {
+    const { error } = await supabaseAdmin.from('property_owners').insert(parsed.shares.map(s => ({ property_id: id, ...s })))
+    if (error) {
+      // Put the previous owners back rather than leave the property with none
+      const previous = propertyOwners.filter(o => o.property_id === id)
+      if (previous.length > 0) await supabaseAdmin.from('property_owners').insert(previous)
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parsePropertyInput } from '@/lib/property-form'
+
+type Params = { params: Promise<{ id: string }> }
+
+// Update a property's details. The property_id is fixed: other tables key on it.
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const { id } = await params
+
+  const { properties } = await loadPortfolio()
+  if (!properties.some(p => p.property_id === id) || !canSeeProperty(viewer, id)) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const parsed = parsePropertyInput({ ...body, property_id: id })
+  if ('errors' in parsed) return NextResponse.json({ error: 'Some fields are invalid', fields: parsed.errors }, { status: 400 })
+  const { property_id, ...columns } = parsed.property
+
+  const { error } = await supabaseAdmin.from('properties_master').update(columns).eq('property_id', property_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
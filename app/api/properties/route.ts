@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parsePropertyInput } from '@/lib/property-form'
+
+// Create a property. Restricted editors cannot, as they would not be able to see it.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  if (viewer.propertyIds !== null) {
+    return NextResponse.json({ error: 'Only users with access to all properties can add one' }, { status: 403 })
+  }
+
+  const parsed = parsePropertyInput(await request.json().catch(() => null))
+  if ('errors' in parsed) return NextResponse.json({ error: 'Some fields are invalid', fields: parsed.errors }, { status: 400 })
+  const { property } = parsed
+
+  const { properties } = await loadPortfolio()
+  if (properties.some(p => p.property_id === property.property_id)) {
+    return NextResponse.json({ error: 'That property ID is already used', fields: { property_id: 'Already used' } }, { status: 409 })
+  }
+
+  const { error } = await supabaseAdmin.from('properties_master').insert(property)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true, property_id: property.property_id }, { status: 201 })
+}
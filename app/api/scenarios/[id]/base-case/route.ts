@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { visibleScenario } from '@/lib/scenarios'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function setBaseCase(id: string, base: boolean) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const scenario = visibleScenario((await loadPortfolio()).scenarios, viewer, id)
+  if (!scenario) return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+
+  // Only one base case per property: clear the current one first
+  if (base) {
+    const { error } = await supabaseAdmin
+      .from('scenarios')
+      .update({ is_base_case: false })
+      .eq('property_id', scenario.property_id)
+      .eq('is_base_case', true)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  const { error } = await supabaseAdmin
+    .from('scenarios')
+    .update({ is_base_case: base })
+    .eq('scenario_id', scenario.scenario_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+// Mark a scenario as its property's base case
+export async function POST(_request: Request, { params }: Params) {
+  return setBaseCase((await params).id, true)
+}
+
+// Unmark it; the property's own figures are the reference again
+export async function DELETE(_request: Request, { params }: Params) {
+  return setBaseCase((await params).id, false)
+}
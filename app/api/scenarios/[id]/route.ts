@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseScenarioInput, visibleScenario } from '@/lib/scenarios'
+
+type Params = { params: Promise<{ id: string }> }
+
+// Edit a scenario's label and assumptions
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const scenario = visibleScenario((await loadPortfolio()).scenarios, viewer, (await params).id)
+  if (!scenario) return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+
+  const parsed = parseScenarioInput(await request.json().catch(() => null))
+  if ('errors' in parsed) return NextResponse.json({ error: 'Some fields are invalid', fields: parsed.errors }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('scenarios').update(parsed.scenario).eq('scenario_id', scenario.scenario_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const scenario = visibleScenario((await loadPortfolio()).scenarios, viewer, (await params).id)
+  if (!scenario) return NextResponse.json({ error: 'Scenario not found' }, { status: 404 })
+
+  const { error } = await supabaseAdmin.from('scenarios').delete().eq('scenario_id', scenario.scenario_id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
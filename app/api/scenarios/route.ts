@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { canAddScenario, parseScenarioInput } from '@/lib/scenarios'
+
+// Add a scenario to a property (new, or a clone sent with the copied figures)
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const propertyId = body?.property_id
+  const { properties } = await loadPortfolio()
+  if (!canAddScenario(properties, viewer, propertyId)) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const parsed = parseScenarioInput(body)
+  if ('errors' in parsed) return NextResponse.json({ error: 'Some fields are invalid', fields: parsed.errors }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('scenarios').insert({ property_id: propertyId, ...parsed.scenario })
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true }, { status: 201 })
+}
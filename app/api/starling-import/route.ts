@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { StarlingTransaction } from '@/lib/models'
+import { categorisationColumns } from '@/lib/starling'
+import { applyPlan, planRuleRun } from '@/lib/starling-rules'
+import { diffStatement, parseStarlingStatement } from '@/lib/starling-import'
+
+// Statements are a few thousand rows at most
+const MAX_CSV_LENGTH = 5_000_000
+
+// Import a Starling CSV statement: { csv: string, dryRun: boolean }.
+// A dry run returns the diff without writing anything.
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const csv = body?.csv
+  if (typeof csv !== 'string' || csv.trim() === '') {
+    return NextResponse.json({ error: 'csv is required' }, { status: 400 })
+  }
+  if (csv.length > MAX_CSV_LENGTH) {
+    return NextResponse.json({ error: 'The file is too large' }, { status: 413 })
+  }
+  const dryRun = body?.dryRun !== false
+
+  const { rows, errors } = parseStarlingStatement(csv)
+  // Duplicates are checked against every stored row, not just those this viewer can see
+  const { properties, starling, starlingRules } = await loadPortfolio()
+  const { fresh, duplicates } = diffStatement(rows, starling)
+
+  // New rows start as pending; rules that match categorise them straight away
+  const candidates: StarlingTransaction[] = fresh.map(r => ({
+    ...r,
+    id: String(r.line),
+    property_address: null,
+    property_id: null,
+    dashboard_category: null,
+    categorisation_status: 'pending',
+    posted_to: null,
+  }))
+  // A rule pointing at a property this viewer cannot see is skipped for them
+  const rules = starlingRules.filter(r => !r.set_property_id || canSeeProperty(viewer, r.set_property_id))
+  const plan = planRuleRun(rules, candidates).filter(p => p.ruleId !== null)
+  const categorised = applyPlan(candidates, plan)
+  const ruleNames = new Map(plan.map(p => [p.id, rules.find(r => r.id === p.ruleId)?.name ?? null]))
+
+  if (dryRun) {
+    return NextResponse.json({
+      fresh: categorised.map(t => ({ ...t, rule: ruleNames.get(t.id) ?? null })),
+      duplicates,
+      errors,
+    })
+  }
+
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Fix the rows that could not be read before importing' }, { status: 422 })
+  }
+  if (categorised.length === 0) return NextResponse.json({ ok: true, inserted: 0, duplicates: duplicates.length })
+
+  const { error } = await supabaseAdmin.from('starling_transactions').insert(categorised.map(t => ({
+    date:                  t.date,
+    counter_party:         t.counter_party,
+    reference:             t.reference,
+    type:                  t.type,
+    amount_gbp:            t.amount_gbp,
+    balance_gbp:           t.balance_gbp,
+    spending_category:     t.spending_category,
+    categorisation_status: 'pending',
+    ...categorisationColumns(plan.find(p => p.id === t.id)?.changes ?? {}, properties),
+  })))
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({
+    ok: true, inserted: categorised.length, categorised: plan.length, duplicates: duplicates.length,
+  }, { status: 201 })
+}
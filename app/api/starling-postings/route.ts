@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { StarlingTransaction } from '@/lib/models'
+import { postingError, postingTarget } from '@/lib/starling'
+import { autoSubcategory } from '@/lib/capital'
+
+// Resolve { ids: string[] } to Starling rows the viewer may act on, or an error response
+async function rowsFor(request: Request, viewer: Viewer): Promise<StarlingTransaction[] | NextResponse> {
+  const body = await request.json().catch(() => null)
+  const ids: unknown = body?.ids
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 })
+  }
+  const { starling } = await loadPortfolio()
+  const rows: StarlingTransaction[] = []
+  for (const id of ids as string[]) {
+    const row = starling.find(t => t.id === id)
+    if (!row || !canSeeProperty(viewer, row.property_id)) {
+      return NextResponse.json({ error: `Transaction ${id} not found` }, { status: 404 })
+    }
+    rows.push(row)
+  }
+  return rows
+}
+
+// Post mapped Starling rows into the ledger or capital transactions
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const rows = await rowsFor(request, viewer)
+  if (rows instanceof NextResponse) return rows
+
+  for (const row of rows) {
+    const problem = postingError(row)
+    if (problem) return NextResponse.json({ error: `${problem} (${row.counter_party ?? row.id})` }, { status: 422 })
+  }
+
+  const { properties } = await loadPortfolio()
+  const addressOf = (id: string | null) => properties.find(p => p.property_id === id)?.address ?? ''
+  const description = (t: StarlingTransaction) =>
+    ['Starling', t.counter_party, t.reference].filter(Boolean).join(' · ')
+
+  const ledgerRows = rows.filter(t => postingTarget(t.dashboard_category)?.table === 'transactions')
+  const capitalRows = rows.filter(t => postingTarget(t.dashboard_category)?.table === 'capital_transactions')
+
+  // The agent export's column names are kept on the ledger table
+  if (ledgerRows.length > 0) {
+    const { error } = await supabaseAdmin.from('transactions').insert(ledgerRows.map(t => ({
+      'Item date':           t.date,
+      'Property address':    addressOf(t.property_id),
+      'Item description':    description(t),
+      'Item type':           postingTarget(t.dashboard_category)!.type,
+      'Item amount inc VAT': t.amount_gbp,
+      source_starling_id:    t.id,
+    })))
+    if (error) return postingFailure(error)
+  }
+  if (capitalRows.length > 0) {
+    const { error } = await supabaseAdmin.from('capital_transactions').insert(capitalRows.map(t => ({
+      property_id:        t.property_id,
+      date:               t.date,
+      type:               postingTarget(t.dashboard_category)!.type,
+      // Left null for the review screen when the category alone doesn't decide it
+      subcategory:        autoSubcategory({ type: postingTarget(t.dashboard_category)!.type, description: description(t) }),
+      description:        description(t),
+      amount:             t.amount_gbp,
+      source_starling_id: t.id,
+    })))
+    if (error) {
+      // Undo the ledger half so no row is left half-posted
+      if (ledgerRows.length > 0) {
+        await supabaseAdmin.from('transactions').delete().in('source_starling_id', ledgerRows.map(t => t.id))
+      }
+      return postingFailure(error)
+    }
+  }
+
+  return NextResponse.json({ ok: true, ledger: ledgerRows.length, capital: capitalRows.length }, { status: 201 })
+}
+
+// Un-post: remove the entries created from these Starling rows
+export async function DELETE(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const rows = await rowsFor(request, viewer)
+  if (rows instanceof NextResponse) return rows
+
+  const ids = rows.filter(t => t.posted_to).map(t => t.id)
+  if (ids.length === 0) return NextResponse.json({ error: 'None of these transactions are posted' }, { status: 422 })
+
+  for (const table of ['transactions', 'capital_transactions'] as const) {
+    const { error } = await supabaseAdmin.from(table).delete().in('source_starling_id', ids)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  }
+
+  return NextResponse.json({ ok: true, unposted: ids.length })
+}
+
+// A unique violation means another request posted the same row first
+function postingFailure(error: { code?: string; message: string }) {
+  if (error.code === '23505') {
+    return NextResponse.json({ error: 'Some of these transactions were already posted' }, { status: 409 })
+  }
+  return NextResponse.json({ error: error.message }, { status: 500 })
+}
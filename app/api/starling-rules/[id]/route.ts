@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { StarlingRule } from '@/lib/models'
+import { parseRuleInput } from '@/lib/starling-rules'
+
+type Params = { params: Promise<{ id: string }> }
+
+// A rule pointing at a property this viewer cannot see is hidden from them
+async function ruleFor(viewer: Viewer, id: string): Promise<StarlingRule | NextResponse> {
+  const { starlingRules } = await loadPortfolio()
+  const rule = starlingRules.find(r => r.id === id)
+  if (!rule || (rule.set_property_id && !canSeeProperty(viewer, rule.set_property_id))) {
+    return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+  }
+  return rule
+}
+
+// Replace a rule's definition (the form always sends the whole rule)
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const { id } = await params
+
+  const parsed = parseRuleInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+  const { rule } = parsed
+
+  const stored = await ruleFor(viewer, id)
+  if (stored instanceof NextResponse) return stored
+
+  const { properties } = await loadPortfolio()
+  if (rule.set_property_id &&
+      (!properties.some(p => p.property_id === rule.set_property_id) || !canSeeProperty(viewer, rule.set_property_id))) {
+    return NextResponse.json({ error: 'Unknown property' }, { status: 404 })
+  }
+
+  const { error } = await supabaseAdmin.from('starling_rules').update(rule).eq('id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const { id } = await params
+
+  const stored = await ruleFor(viewer, id)
+  if (stored instanceof NextResponse) return stored
+
+  const { error, count } = await supabaseAdmin.from('starling_rules').delete({ count: 'exact' }).eq('id', id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+  if (!count) return NextResponse.json({ error: 'Rule not found' }, { status: 404 })
+
+  return NextResponse.json({ ok: true })
+}
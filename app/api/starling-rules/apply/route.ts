@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { categorisationColumns } from '@/lib/starling'
+import { planRuleRun } from '@/lib/starling-rules'
+
+// Run the enabled rules over every pending / needs-review row the viewer can see
+export async function POST() {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const { properties, starling, starlingRules } = await loadPortfolio()
+  const rows = starling.filter(t => canSeeProperty(viewer, t.property_id))
+  // A rule pointing at a property this viewer cannot see is skipped for them
+  const rules = starlingRules.filter(r => !r.set_property_id || canSeeProperty(viewer, r.set_property_id))
+  const plan = planRuleRun(rules, rows)
+
+  // Rows sharing a rule get the same update, so write one batch per rule
+  const batches = new Map<string, string[]>()
+  for (const p of plan) {
+    const key = p.ruleId ?? ''
+    batches.set(key, [...(batches.get(key) ?? []), p.id])
+  }
+
+  let categorised = 0
+  for (const [ruleId, ids] of batches) {
+    const changes = plan.find(p => (p.ruleId ?? '') === ruleId)!.changes
+    const { error } = await supabaseAdmin
+      .from('starling_transactions').update(categorisationColumns(changes, properties)).in('id', ids)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    if (ruleId) categorised += ids.length
+  }
+
+  return NextResponse.json({ ok: true, categorised, needsReview: plan.length - categorised })
+}
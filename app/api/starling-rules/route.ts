@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseRuleInput } from '@/lib/starling-rules'
+
+// Create a categorisation rule
+export async function POST(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const parsed = parseRuleInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+  const { rule } = parsed
+
+  if (rule.set_property_id) {
+    const { properties } = await loadPortfolio()
+    if (!properties.some(p => p.property_id === rule.set_property_id) || !canSeeProperty(viewer, rule.set_property_id)) {
+      return NextResponse.json({ error: 'Unknown property' }, { status: 404 })
+    }
+  }
+
+  const { data, error } = await supabaseAdmin.from('starling_rules').insert(rule).select('id').single()
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true, id: String(data.id) }, { status: 201 })
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { CATEGORISATION_STATUSES, type CategorisationStatus } from '@/lib/models'
+import { categorisationColumns, categorisationError, type CategorisationChange } from '@/lib/starling'
+
+// Categorise one or more Starling rows: { ids: string[], changes: CategorisationChange }
+export async function PATCH(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+
+  const body = await request.json().catch(() => null)
+  const ids: unknown = body?.ids
+  const raw = body?.changes ?? {}
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string')) {
+    return NextResponse.json({ error: 'ids must be a non-empty array' }, { status: 400 })
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return NextResponse.json({ error: 'changes must be an object' }, { status: 400 })
+  }
+
+  const changes: CategorisationChange = {}
+  if ('property_id' in raw) {
+    if (raw.property_id !== null && typeof raw.property_id !== 'string') {
+      return NextResponse.json({ error: 'Invalid property_id' }, { status: 400 })
+    }
+    changes.property_id = raw.property_id || null
+  }
+  if ('dashboard_category' in raw) {
+    if (raw.dashboard_category !== null && typeof raw.dashboard_category !== 'string') {
+      return NextResponse.json({ error: 'Invalid dashboard_category' }, { status: 400 })
+    }
+    changes.dashboard_category = raw.dashboard_category?.trim() || null
+  }
+  if ('categorisation_status' in raw) {
+    if (!CATEGORISATION_STATUSES.includes(raw.categorisation_status)) {
+      return NextResponse.json({ error: 'Invalid categorisation_status' }, { status: 400 })
+    }
+    changes.categorisation_status = raw.categorisation_status as CategorisationStatus
+  }
+  if (Object.keys(changes).length === 0) {
+    return NextResponse.json({ error: 'Nothing to change' }, { status: 400 })
+  }
+
+  const { properties, starling } = await loadPortfolio()
+  const property = changes.property_id ? properties.find(p => p.property_id === changes.property_id) : null
+  if (changes.property_id && (!property || !canSeeProperty(viewer, changes.property_id))) {
+    return NextResponse.json({ error: 'Unknown property' }, { status: 404 })
+  }
+
+  // Every row must exist, be visible to this viewer and be valid after the change
+  for (const id of ids as string[]) {
+    const row = starling.find(t => t.id === id)
+    if (!row || !canSeeProperty(viewer, row.property_id)) {
+      return NextResponse.json({ error: `Transaction ${id} not found` }, { status: 404 })
+    }
+    if (row.posted_to) {
+      return NextResponse.json({ error: 'Un-post this transaction before re-categorising it' }, { status: 409 })
+    }
+    const problem = categorisationError({ ...row, ...changes })
+    if (problem) return NextResponse.json({ error: problem }, { status: 422 })
+  }
+
+  const { error } = await supabaseAdmin
+    .from('starling_transactions').update(categorisationColumns(changes, properties)).in('id', ids)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true, updated: ids.length })
+}
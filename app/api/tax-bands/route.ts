@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { parseBandsInput } from '@/lib/tax'
+
+// Replace the income tax bands, e.g. when thresholds change for a new tax year
+export async function PUT(request: Request) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  if (viewer.propertyIds !== null) {
+    return NextResponse.json({ error: 'Only users with access to all properties can change tax bands' }, { status: 403 })
+  }
+
+  const parsed = parseBandsInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error: clearError } = await supabaseAdmin.from('tax_bands').delete().gte('lower', 0)
+  if (clearError) return NextResponse.json({ error: clearError.message }, { status: 500 })
+  const { error } = await supabaseAdmin.from('tax_bands').insert(parsed.bands)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { requireViewer } from '@/lib/access'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { Tenancy } from '@/lib/models'
+import { parseTenancyInput } from '@/lib/tenancies'
+
+type Params = { params: Promise<{ id: string }> }
+
+async function tenancyFor(viewer: Viewer, id: string): Promise<Tenancy | NextResponse> {
+  const { tenancies } = await loadPortfolio()
+  const tenancy = tenancies.find(t => t.id === id)
+  if (!tenancy || !canSeeProperty(viewer, tenancy.property_id)) {
+    return NextResponse.json({ error: 'Tenancy not found' }, { status: 404 })
+  }
+  return tenancy
+}
+
+// Edit a tenancy, including ending it; it stays on the same property
+export async function PATCH(request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const tenancy = await tenancyFor(viewer, (await params).id)
+  if (tenancy instanceof NextResponse) return tenancy
+
+  const parsed = parseTenancyInput(await request.json().catch(() => null))
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 })
+
+  const { error } = await supabaseAdmin.from('tenancies').update(parsed.tenancy).eq('id', tenancy.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const viewer = await requireViewer({ edit: true })
+  if (viewer instanceof NextResponse) return viewer
+  const tenancy = await tenancyFor(viewer, (await params).id)
+  if (tenancy instanceof NextResponse) return tenancy
+
+  const { error } = await supabaseAdmin.from('tenancies').delete().eq('id', tenancy.id)
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import CapitalReview from '@/components/CapitalReview'
+
+export default async function CapitalReviewPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/capital/review')
+  if (!viewer.canEdit) redirect('/')
+  const { properties, capitalTransactions } = await loadPortfolio()
+  return (
+    <CapitalReview
+      properties={properties.filter(p => canSeeProperty(viewer, p.property_id))}
+      transactions={capitalTransactions.filter(t => !t.subcategory && canSeeProperty(viewer, t.property_id))}
+    />
+  )
+}
@@ -0,0 +1,10 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import AgentImport from '@/components/AgentImport'
+
+export default async function AgentImportPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/import/agent')
+  if (!viewer.canEdit) redirect('/')
+  return <AgentImport />
+}
@@ -0,0 +1,10 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import StarlingImport from '@/components/StarlingImport'
+
+export default async function StarlingImportPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/import/starling')
+  if (!viewer.canEdit) redirect('/')
+  return <StarlingImport />
+}
@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import LoginForm from '@/components/LoginForm'
+
+// Only allow same-origin relative paths as the post-login destination
+function safeNext(next: string | undefined) {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>
+}) {
+  const { next } = await searchParams
+  if (await getViewer()) redirect(safeNext(next))
+  return <LoginForm next={safeNext(next)} />
+}
@@ -0,0 +1,16 @@
+import { notFound, redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import PropertyForm from '@/components/PropertyForm'
+
+export default async function EditPropertyPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const viewer = await getViewer()
+  if (!viewer) redirect(`/login?next=/properties/${encodeURIComponent(id)}`)
+  if (!viewer.canEdit) redirect('/')
+  const { properties } = await loadPortfolio()
+  const property = properties.find(p => p.property_id === id)
+  if (!property || !canSeeProperty(viewer, id)) notFound()
+  return <PropertyForm property={property} />
+}
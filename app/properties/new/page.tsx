@@ -0,0 +1,10 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import PropertyForm from '@/components/PropertyForm'
+
+export default async function NewPropertyPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/properties/new')
+  if (!viewer.canEdit || viewer.propertyIds !== null) redirect('/properties')
+  return <PropertyForm />
+}
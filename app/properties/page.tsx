@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { canSeeProperty } from '@/lib/roles'
+import { loadPortfolio } from '@/lib/repository'
+import PropertyList from '@/components/PropertyList'
+
+export default async function PropertiesPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/properties')
+  if (!viewer.canEdit) redirect('/')
+  // Archived properties are listed here (and only here) so they can be restored
+  const { properties, mortgages } = await loadPortfolio()
+  return (
+    <PropertyList
+      properties={properties.filter(p => canSeeProperty(viewer, p.property_id))}
+      mortgages={mortgages.filter(m => canSeeProperty(viewer, m.property_id))}
+      canCreate={viewer.propertyIds === null}
+    />
+  )
+}
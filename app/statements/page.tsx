@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { loadDashboardData } from '@/lib/repository'
+import TaxYearStatements from '@/components/TaxYearStatements'
+
+export default async function StatementsPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/statements')
+  const { properties, ledger, mortgages, owners, propertyOwners, taxBands } = await loadDashboardData(viewer)
+  return (
+    <TaxYearStatements
+      properties={properties}
+      ledger={ledger}
+      mortgages={mortgages}
+      owners={owners}
+      propertyOwners={propertyOwners}
+      taxBands={taxBands}
+    />
+  )
+}
@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { loadDashboardData } from '@/lib/repository'
+import TaxSettings from '@/components/TaxSettings'
+
+export default async function TaxPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/tax')
+  // An owner's tax covers every property they hold, so only unrestricted editors manage it
+  if (!viewer.canEdit || viewer.propertyIds !== null) redirect('/')
+  const { properties, mortgages, owners, propertyOwners, taxBands } = await loadDashboardData(viewer)
+  return (
+    <TaxSettings
+      properties={properties}
+      mortgages={mortgages}
+      owners={owners}
+      propertyOwners={propertyOwners}
+      taxBands={taxBands}
+    />
+  )
+}
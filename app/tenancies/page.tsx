@@ -0,0 +1,20 @@
+import { redirect } from 'next/navigation'
+import { getViewer } from '@/lib/access'
+import { loadDashboardData } from '@/lib/repository'
+import TenancyRegister from '@/components/TenancyRegister'
+
+export default async function TenanciesPage() {
+  const viewer = await getViewer()
+  if (!viewer) redirect('/login?next=/tenancies')
+  // Read-only for viewers; editors can add, edit and end tenancies and record voids
+  const { properties, tenancies, occupancyPeriods, ledger } = await loadDashboardData(viewer)
+  return (
+    <TenancyRegister
+      properties={properties}
+      tenancies={tenancies}
+      occupancyPeriods={occupancyPeriods}
+      ledger={ledger}
+      canEdit={viewer.canEdit}
+    />
+  )
+}
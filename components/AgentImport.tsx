@@ -0,0 +1,226 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import type { AgentRow } from '@/lib/agent-import'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+// What the import route returns for a dry run
+interface DryRun {
+  fresh: (AgentRow & { property_id: string | null })[]
+  duplicates: AgentRow[]
+  unmatched: number
+  errors: string[]
+}
+
+interface Summary {
+  added: number
+  skipped: number
+  unmatched: number
+}
+
+function fmtDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00')
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' })
+}
+
+export default function AgentImport() {
+  const [file, setFile] = useState<File | null>(null)
+  const [diff, setDiff] = useState<DryRun | null>(null)
+  const [summary, setSummary] = useState<Summary | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  async function send(f: File, dryRun: boolean) {
+    setBusy(true)
+    setError('')
+    const form = new FormData()
+    form.append('file', f)
+    form.append('dryRun', String(dryRun))
+    const res = await fetch('/api/agent-import', { method: 'POST', body: form }).catch(() => null)
+    const body = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(body?.error ?? 'Import failed')
+      return null
+    }
+    return body
+  }
+
+  async function chooseFile(f: File | undefined) {
+    setDiff(null)
+    setSummary(null)
+    setFile(f ?? null)
+    if (!f) return
+    const result = await send(f, true)
+    if (result) setDiff(result)
+  }
+
+  async function runImport() {
+    if (!file) return
+    const result = await send(file, false)
+    if (!result) return
+    setSummary(result)
+    setDiff(null)
+    setFile(null)
+  }
+
+  const canImport = !!diff && diff.fresh.length > 0 && diff.errors.length === 0
+  const cell: React.CSSProperties = { padding: '7px 10px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+
+  const rowsTable = (rows: (AgentRow & { property_id?: string | null })[], muted: boolean) => (
+    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+      <thead>
+        <tr>
+          {['Row', 'Date', 'Property', 'Description', 'Type', 'Amount'].map((h, i) => (
+            <th key={h} align={i === 5 ? 'right' : 'left'} style={{
+              position: 'sticky', top: 0, background: SURFACE2, zIndex: 2,
+              padding: i === 0 ? '9px 10px 9px 18px' : '9px 10px',
+              fontWeight: 600, fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.2px',
+              borderBottom: `1px solid ${BORDER2}`,
+            }}>
+              {h}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(r => (
+          <tr key={r.line} style={{ opacity: muted ? 0.55 : 1 }}>
+            <td style={{ ...cell, paddingLeft: 18, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{r.line}</td>
+            <td style={{ ...cell, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{fmtDate(r.date)}</td>
+            <td style={{ ...cell, color: !muted && !r.property_id ? AMBER : TEXT2 }}>
+              {r.property_address || '—'}
+              {!muted && !r.property_id && <span style={{ fontSize: 10, marginLeft: 6 }}>UNMATCHED</span>}
+            </td>
+            <td style={{ ...cell, color: TEXT2 }}>{r.description || '—'}</td>
+            <td style={{ ...cell, color: TEXT3 }}>{r.type}</td>
+            <td align="right" style={{ ...cell, color: r.amount >= 0 ? GREEN : RED, fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}>
+              {r.amount >= 0 ? '+' : '−'}£{Math.abs(r.amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{ marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}` }}>
+        <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+        <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+          Import Agent Statement
+        </h1>
+        <div style={{ fontSize: 12, color: TEXT3, marginTop: 10 }}>
+          Upload a letting-agent statement as CSV or XLSX with the columns Item date, Property address,
+          Item description, Item type and Item amount inc VAT. Lines already in the ledger are skipped.
+        </div>
+      </div>
+
+      {/* ── FILE PICKER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'center', gap: 12, marginBottom: 20,
+        padding: '12px 18px', background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4,
+      }}>
+        <label style={{
+          background: 'rgba(201,168,66,0.1)', border: `1px solid ${GOLD}`, color: GOLD,
+          borderRadius: 3, padding: '6px 12px', fontSize: 12, fontWeight: 600, cursor: 'pointer',
+        }}>
+          Choose file…
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={e => { chooseFile(e.target.files?.[0]); e.target.value = '' }}
+            style={{ display: 'none' }}
+          />
+        </label>
+        <span style={{ fontSize: 12, color: file ? TEXT2 : TEXT3 }}>{file?.name ?? 'No file chosen'}</span>
+        {busy && <span style={{ fontSize: 12, color: TEXT3 }}>Working…</span>}
+        {diff && (
+          <button
+            onClick={runImport}
+            disabled={busy || !canImport}
+            style={{
+              marginLeft: 'auto', background: GOLD, border: 'none', color: '#070c14', borderRadius: 3,
+              padding: '6px 14px', fontSize: 12, fontWeight: 700, fontFamily: FONT,
+              cursor: canImport ? 'pointer' : 'default', opacity: canImport ? 1 : 0.4,
+            }}
+          >
+            Import {diff.fresh.length} new rows
+          </button>
+        )}
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+
+      {/* ── IMPORT SUMMARY ──────────────────────────────────────────────── */}
+      {summary && (
+        <div style={{
+          display: 'flex', marginBottom: 20,
+          background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${GREEN}`, borderRadius: 4, overflow: 'hidden',
+        }}>
+          {[
+            { label: 'Added', value: summary.added, color: GREEN },
+            { label: 'Skipped (already in ledger)', value: summary.skipped, color: TEXT2 },
+            { label: 'Unmatched address', value: summary.unmatched, color: summary.unmatched ? AMBER : TEXT2 },
+          ].map((item, i) => (
+            <div key={item.label} style={{ flex: 1, padding: '14px 18px', borderRight: i < 2 ? `1px solid ${BORDER}` : 'none' }}>
+              <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.5px', fontWeight: 600, marginBottom: 6 }}>
+                {item.label}
+              </div>
+              <div style={{ fontSize: 16, fontWeight: 700, color: item.color, fontVariantNumeric: 'tabular-nums' }}>{item.value}</div>
+            </div>
+          ))}
+          <div style={{ padding: '14px 18px', display: 'flex', alignItems: 'center' }}>
+            <Link href="/" style={{ fontSize: 12, color: GOLD }}>
+              {summary.unmatched ? 'Assign unmatched addresses' : 'Back to the dashboard'}
+            </Link>
+          </div>
+        </div>
+      )}
+
+      {/* ── DRY-RUN DIFF ────────────────────────────────────────────────── */}
+      {diff && (
+        <>
+          {diff.errors.length > 0 && (
+            <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${RED}`, borderRadius: 4, padding: '12px 18px', marginBottom: 16 }}>
+              <div style={{ fontSize: 10, color: RED, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 8 }}>
+                {diff.errors.length} problems
+              </div>
+              {diff.errors.map(e => <div key={e} style={{ fontSize: 12, color: TEXT2, marginBottom: 2 }}>{e}</div>)}
+            </div>
+          )}
+          {[
+            { title: `New — ${diff.fresh.length}${diff.unmatched ? ` (${diff.unmatched} unmatched)` : ''}`, color: GREEN, rows: diff.fresh, muted: false },
+            { title: `Already in ledger — ${diff.duplicates.length}`, color: TEXT3, rows: diff.duplicates, muted: true },
+          ].map(section => section.rows.length > 0 && (
+            <div key={section.title} style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 16 }}>
+              <div style={{ padding: '12px 18px', borderBottom: `1px solid ${BORDER2}`, fontSize: 10, color: section.color, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+                {section.title}
+              </div>
+              <div style={{ maxHeight: 420, overflowY: 'auto' }}>
+                {rowsTable(section.rows, section.muted)}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { CapitalSubcategory, CapitalTransaction, Property } from '@/lib/models'
+import { SUBCATEGORY_INFO, suggestSubcategory } from '@/lib/capital'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+// One-off classification of capital transactions recorded before subcategories.
+// Confident suggestions can be accepted in bulk; the rest need a choice each.
+export default function CapitalReview({ properties, transactions }: {
+  properties: Property[]
+  transactions: CapitalTransaction[]
+}) {
+  const router = useRouter()
+  const [choices, setChoices] = useState<Record<string, CapitalSubcategory>>({})
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const rows = transactions.map(t => ({ t, suggestion: suggestSubcategory(t) }))
+  const confident = rows.filter(r => r.suggestion.confident)
+  const ambiguous = rows.filter(r => !r.suggestion.confident)
+  const chosen = ambiguous.filter(r => choices[r.t.transaction_id])
+
+  const address = (id: string) => properties.find(p => p.property_id === id)?.address ?? id
+
+  async function classify(assignments: { id: string; subcategory: CapitalSubcategory }[]) {
+    setBusy(true)
+    setError('')
+    setMessage('')
+    const res = await fetch('/api/capital-transactions/classify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ assignments }),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Could not save the classification')
+      return
+    }
+    setMessage(`${json.classified} classified`)
+    router.refresh()
+  }
+
+  const cell: React.CSSProperties = { padding: '8px 14px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+  const button = (active: boolean, color = GOLD): React.CSSProperties => ({
+    background: active ? 'rgba(201,168,66,0.1)' : 'transparent',
+    border: `1px solid ${active ? color : BORDER2}`, color: active ? color : TEXT3,
+    borderRadius: 3, padding: '5px 12px', fontSize: 11, fontWeight: 600, fontFamily: FONT,
+    cursor: active ? 'pointer' : 'default',
+  })
+
+  const table = (title: string, note: string, list: typeof rows, action: React.ReactNode, pick: boolean) => (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 20 }}>
+      <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>{title}</div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>{note}</div>
+        <div style={{ marginLeft: 'auto' }}>{action}</div>
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ background: SURFACE2 }}>
+            {['Property', 'Date', 'Type', 'Description', 'Amount', pick ? 'Category' : 'Suggested'].map((h, i) => (
+              <th key={h} align={i === 4 ? 'right' : 'left'} style={{
+                padding: '8px 14px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+                letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`,
+              }}>{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {list.map(({ t, suggestion }) => (
+            <tr key={t.transaction_id}>
+              <td style={{ ...cell, color: TEXT }}>{address(t.property_id)}</td>
+              <td style={{ ...cell, color: TEXT3, fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }}>{t.date}</td>
+              <td style={{ ...cell, color: TEXT3 }}>{t.type}</td>
+              <td style={{ ...cell, color: TEXT2 }}>{t.description}</td>
+              <td align="right" style={{ ...cell, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>
+                {t.amount < 0 ? '-' : '+'}£{fmt(Math.abs(t.amount))}
+              </td>
+              <td style={cell}>
+                {pick ? (
+                  <select
+                    value={choices[t.transaction_id] ?? ''}
+                    onChange={e => setChoices(c => ({ ...c, [t.transaction_id]: e.target.value as CapitalSubcategory }))}
+                    style={{
+                      background: SURFACE2, color: TEXT, border: `1px solid ${choices[t.transaction_id] ? BORDER2 : AMBER}`,
+                      borderRadius: 3, padding: '4px 8px', fontSize: 11, fontFamily: FONT,
+                    }}
+                  >
+                    <option value="">Choose…</option>
+                    {suggestion.candidates.map(s => <option key={s} value={s}>{SUBCATEGORY_INFO[s].label}</option>)}
+                  </select>
+                ) : (
+                  <span style={{ color: GREEN }}>{SUBCATEGORY_INFO[suggestion.candidates[0]].label}</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{ marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}` }}>
+        <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+        <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+          Classify Capital Transactions
+        </h1>
+        <div style={{ fontSize: 12, color: TEXT3, marginTop: 10 }}>
+          Each capital transaction feeds one Investment Summary line. Rows recorded before categories existed are listed here until classified.
+        </div>
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+      {message && <div style={{ fontSize: 12, color: GREEN, marginBottom: 16 }}>{message}</div>}
+
+      {rows.length === 0 && (
+        <div style={{ fontSize: 13, color: TEXT2 }}>Every capital transaction is classified.</div>
+      )}
+
+      {/* ── CONFIDENT ───────────────────────────────────────────────────── */}
+      {confident.length > 0 && table(
+        'Suggested',
+        'The type and description point to one category',
+        confident,
+        <button
+          onClick={() => classify(confident.map(r => ({ id: r.t.transaction_id, subcategory: r.suggestion.candidates[0] })))}
+          disabled={busy}
+          style={button(!busy, GREEN)}
+        >
+          {busy ? 'Saving…' : `Accept ${confident.length} suggestion${confident.length === 1 ? '' : 's'}`}
+        </button>,
+        false,
+      )}
+
+      {/* ── NEEDS A DECISION ────────────────────────────────────────────── */}
+      {ambiguous.length > 0 && table(
+        'Needs a decision',
+        'Could go either way — choose the category for each',
+        ambiguous,
+        <button
+          onClick={() => classify(chosen.map(r => ({ id: r.t.transaction_id, subcategory: choices[r.t.transaction_id] })))}
+          disabled={busy || chosen.length === 0}
+          style={button(!busy && chosen.length > 0)}
+        >
+          {busy ? 'Saving…' : `Save ${chosen.length} choice${chosen.length === 1 ? '' : 's'}`}
+        </button>,
+        true,
+      )}
+    </div>
+  )
+}
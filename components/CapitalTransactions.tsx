@@ -0,0 +1,160 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { CAPITAL_SUBCATEGORIES, type CapitalTransaction } from '@/lib/models'
+import { SUBCATEGORY_INFO } from '@/lib/capital'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+
+// Form state keeps every field as a string, as the inputs do
+type CapitalForm = Record<'date' | 'subcategory' | 'description' | 'amount', string>
+
+const EMPTY_FORM: CapitalForm = { date: '', subcategory: '', description: '', amount: '' }
+
+function toForm(t: CapitalTransaction): CapitalForm {
+  return { date: t.date, subcategory: t.subcategory ?? '', description: t.description, amount: String(t.amount) }
+}
+
+const inputStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '5px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', width: '100%', boxSizing: 'border-box',
+}
+
+function buttonStyle(color: string): React.CSSProperties {
+  return {
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '2px 8px', fontSize: 10, fontWeight: 600, fontFamily: FONT, cursor: 'pointer',
+  }
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+// The property panel's list of capital transactions; editors can add, edit and delete
+export default function CapitalTransactions({ propertyId, transactions, canEdit }: {
+  propertyId: string
+  transactions: CapitalTransaction[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<CapitalForm>(EMPTY_FORM)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return false
+    }
+    router.refresh()
+    return true
+  }
+
+  async function saveForm() {
+    const ok = editing === 'new'
+      ? await send('/api/capital-transactions', 'POST', { ...form, property_id: propertyId })
+      : await send(`/api/capital-transactions/${encodeURIComponent(editing!)}`, 'PATCH', form)
+    if (ok) { setEditing(null); setForm(EMPTY_FORM) }
+  }
+
+  async function remove(t: CapitalTransaction) {
+    if (!window.confirm(`Delete “${t.description || t.date}” (£${fmt(Math.abs(t.amount))})?`)) return
+    await send(`/api/capital-transactions/${encodeURIComponent(t.transaction_id)}`, 'DELETE')
+  }
+
+  const label: React.CSSProperties = { fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4 }
+
+  const formRow = (
+    <div style={{ background: SURFACE2, border: `1px solid ${BORDER2}`, borderRadius: 3, padding: 12, margin: '8px 0' }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1.4fr', gap: 8, marginBottom: 8 }}>
+        <div>
+          <div style={label}>Date</div>
+          <input type="date" value={form.date} onChange={e => setForm(f => ({ ...f, date: e.target.value }))} style={inputStyle} />
+        </div>
+        <div>
+          <div style={label}>Category</div>
+          <select value={form.subcategory} onChange={e => setForm(f => ({ ...f, subcategory: e.target.value }))} style={inputStyle}>
+            <option value="">—</option>
+            {CAPITAL_SUBCATEGORIES.map(s => <option key={s} value={s}>{SUBCATEGORY_INFO[s].label}</option>)}
+          </select>
+        </div>
+        <div>
+          <div style={label}>Amount £ (money out negative)</div>
+          <input value={form.amount} inputMode="decimal" onChange={e => setForm(f => ({ ...f, amount: e.target.value }))} style={inputStyle} />
+        </div>
+        <div>
+          <div style={label}>Description</div>
+          <input value={form.description} onChange={e => setForm(f => ({ ...f, description: e.target.value }))} style={inputStyle} />
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: 6 }}>
+        <button onClick={saveForm} disabled={busy} style={buttonStyle(GOLD)}>
+          {busy ? 'Saving…' : editing === 'new' ? 'Add' : 'Save'}
+        </button>
+        <button onClick={() => { setEditing(null); setError('') }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 14 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Capital Transactions
+        </div>
+        {canEdit && editing === null && (
+          <button onClick={() => { setEditing('new'); setForm(EMPTY_FORM); setError('') }} style={buttonStyle(GOLD)}>Add</button>
+        )}
+      </div>
+      {error && <div style={{ fontSize: 11, color: RED, marginBottom: 6 }}>{error}</div>}
+      {editing === 'new' && formRow}
+
+      {transactions.map(t => editing === t.transaction_id ? <div key={t.transaction_id}>{formRow}</div> : (
+        <div key={t.transaction_id} style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 0', borderBottom: `1px solid ${BORDER}` }}>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ color: TEXT3, fontSize: 12, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {t.date} · {t.description}
+            </div>
+            <div style={{ fontSize: 10, color: t.subcategory ? TEXT3 : AMBER, marginTop: 2 }}>
+              {t.subcategory ? SUBCATEGORY_INFO[t.subcategory].label : 'Not classified'}
+            </div>
+          </div>
+          <span style={{ fontSize: 12, fontWeight: 500, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>
+            {t.amount < 0 ? '-' : '+'}£{fmt(Math.abs(t.amount))}
+          </span>
+          {canEdit && editing === null && (
+            <div style={{ display: 'flex', gap: 4 }}>
+              <button onClick={() => { setEditing(t.transaction_id); setForm(toForm(t)); setError('') }} style={buttonStyle(TEXT2)}>Edit</button>
+              {/* Posted rows are removed by un-posting them from the Starling table */}
+              {!t.source_starling_id && <button onClick={() => remove(t)} disabled={busy} style={buttonStyle(RED)}>Delete</button>}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
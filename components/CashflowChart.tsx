@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { Chart } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  BarController,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  Tooltip,
+  Legend,
+  type ChartData,
+  type ChartOptions,
+} from 'chart.js'
+import { RENT_TYPE, type LedgerEntry } from '@/lib/models'
+import {
+  PERIOD_GROUPINGS, PERIOD_GROUPING_LABELS, periodKey, periodKeys, periodLabel, type PeriodGrouping,
+} from '@/lib/periods'
+
+ChartJS.register(BarController, BarElement, CategoryScale, LinearScale, LineController, LineElement, PointElement, Tooltip, Legend)
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+// Same order as the expense pie, so each type keeps its colour
+const EXPENSE_COLORS = ['#ef4444', '#4a9eff', '#c9a842', '#22c55e', '#a78bfa', '#f59e0b']
+
+function fmtSigned(n: number) {
+  return `${n < 0 ? '-' : ''}£${Math.abs(n).toLocaleString('en-GB', { maximumFractionDigits: 0 })}`
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+// Rent and each expense type stacked per period, with net cashflow drawn over them.
+// Takes the ledger rows already narrowed by the dashboard's filters.
+export default function CashflowChart({ entries }: { entries: LedgerEntry[] }) {
+  const [grouping, setGrouping] = useState<PeriodGrouping>('month')
+
+  if (entries.length === 0) return null
+  const dates = entries.map(t => t.date).sort()
+  const keys = periodKeys(dates[0], dates[dates.length - 1], grouping)
+  const index = new Map(keys.map((k, i) => [k, i]))
+
+  const totals = new Map<string, number[]>()
+  for (const t of entries) {
+    if (!totals.has(t.type)) totals.set(t.type, keys.map(() => 0))
+    totals.get(t.type)![index.get(periodKey(t.date, grouping))!] += t.amount
+  }
+  const expenseTypes = Array.from(totals.keys())
+    .filter(type => type !== RENT_TYPE)
+    .sort((a, b) => totals.get(b)!.reduce((s, v) => s + v, 0) - totals.get(a)!.reduce((s, v) => s + v, 0))
+  const net = keys.map((_, i) => Array.from(totals.values()).reduce((s, series) => s + series[i], 0))
+
+  const chartData: ChartData<'bar' | 'line'> = {
+    labels: keys.map(k => periodLabel(k, grouping)),
+    datasets: [
+      {
+        type: 'line',
+        label: 'Net cashflow',
+        data: net,
+        borderColor: GOLD,
+        backgroundColor: GOLD,
+        borderWidth: 2,
+        pointRadius: keys.length > 24 ? 0 : 3,
+        pointHoverRadius: 5,
+        tension: 0,
+        order: 0,
+      },
+      ...(totals.has(RENT_TYPE) ? [{
+        type: 'bar' as const,
+        label: RENT_TYPE,
+        data: totals.get(RENT_TYPE)!,
+        backgroundColor: 'rgba(34,197,94,0.55)',
+        stack: 'pl',
+        order: 1,
+      }] : []),
+      ...expenseTypes.map((type, i) => ({
+        type: 'bar' as const,
+        label: type,
+        data: totals.get(type)!,
+        backgroundColor: EXPENSE_COLORS[i % EXPENSE_COLORS.length],
+        stack: 'pl',
+        order: 1,
+      })),
+    ],
+  }
+
+  const chartOptions: ChartOptions<'bar' | 'line'> = {
+    responsive: true, maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: {
+        position: 'bottom',
+        labels: { color: TEXT2, font: { size: 11, family: FONT }, boxWidth: 10, padding: 12 },
+      },
+      tooltip: {
+        callbacks: { label: item => `${item.dataset.label}: ${fmtSigned(item.parsed.y ?? 0)}` },
+        filter: item => (item.parsed.y ?? 0) !== 0 || item.dataset.type === 'line',
+        backgroundColor: SURFACE, titleColor: TEXT2, bodyColor: TEXT,
+        borderColor: BORDER2, borderWidth: 1, padding: 12,
+      },
+    },
+    scales: {
+      x: { stacked: true, grid: { display: false }, ticks: { color: TEXT3, font: { size: 10 } }, border: { color: BORDER } },
+      y: {
+        stacked: true,
+        grid: { color: ctx => (ctx.tick.value === 0 ? BORDER2 : BORDER) },
+        ticks: { color: TEXT3, font: { size: 10 }, callback: v => `£${(Number(v) / 1000).toFixed(0)}k` },
+        border: { color: BORDER },
+      },
+    },
+  }
+
+  const toggle = (active: boolean): React.CSSProperties => ({
+    background: active ? 'rgba(201,168,66,0.1)' : 'transparent',
+    border: `1px solid ${active ? GOLD : BORDER2}`, color: active ? GOLD : TEXT3,
+    borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, fontFamily: FONT, cursor: 'pointer',
+  })
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, padding: '20px 22px', marginBottom: 24 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 16 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Income vs Expenses
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          Rent and costs by type · net cashflow as the line
+        </div>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 6 }}>
+          {PERIOD_GROUPINGS.map(g => (
+            <button key={g} onClick={() => setGrouping(g)} style={toggle(grouping === g)}>{PERIOD_GROUPING_LABELS[g]}</button>
+          ))}
+        </div>
+      </div>
+      <div style={{ height: 300 }}>
+        <Chart type="bar" data={chartData} options={chartOptions} />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,831 @@
+'use client'
+
+import { useEffect, useState, useRef } from 'react'
+import Link from 'next/link'
+import { Pie } from 'react-chartjs-2'
+import { Chart as ChartJS, ArcElement, Tooltip, Legend, type TooltipItem } from 'chart.js'
+import PropertySelector from '@/components/PropertySelector'
+import UnmatchedAddresses from '@/components/UnmatchedAddresses'
+import StarlingTransactions from '@/components/StarlingTransactions'
+import StarlingRules from '@/components/StarlingRules'
+import SensitivityGrid from '@/components/SensitivityGrid'
+import RemortgagePlanner from '@/components/RemortgagePlanner'
+import RentArrears from '@/components/RentArrears'
+import CashflowChart from '@/components/CashflowChart'
+import { ROLE_LABELS, type Viewer } from '@/lib/roles'
+import { portfolioArrears } from '@/lib/arrears'
+import { COMPARISON_LABELS, COMPARISON_MODES, comparisonWindow, percentChange, type ComparisonMode } from '@/lib/comparison'
+import { addMonths } from '@/lib/dates'
+import { periodKeys, taxYearBounds, taxYearLabel } from '@/lib/periods'
+import { statementYears } from '@/lib/statements'
+import { OWNER_KIND_LABELS, holdingEntities, holdings, shareOfLedger } from '@/lib/ownership'
+import { RENT_TYPE, type LedgerEntry } from '@/lib/models'
+import type { DashboardData } from '@/lib/repository'
+
+ChartJS.register(ArcElement, Tooltip, Legend)
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmtDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00')
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' })
+}
+
+// ─── Dropdown Filter ──────────────────────────────────────────────────────────
+function DropdownFilter({ options, selected, onChange, label }: {
+  options: string[], selected?: string[], onChange: (values: string[]) => void, label: string
+}) {
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    function handleClick(e: MouseEvent) {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    if (open) document.addEventListener('mousedown', handleClick)
+    else document.removeEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  function toggleValue(val: string) {
+    const safe = Array.isArray(selected) ? selected : []
+    onChange(safe.includes(val) ? safe.filter(v => v !== val) : [...safe, val])
+  }
+
+  const hasFilter = Array.isArray(selected) && selected.length > 0
+
+  return (
+    <div ref={ref} style={{ position: 'relative', display: 'inline-block', width: 14 }}>
+      <button
+        type="button"
+        onClick={e => { e.stopPropagation(); setOpen(o => !o) }}
+        style={{
+          background: 'none', border: 'none', cursor: 'pointer', padding: '0 0 0 2px',
+          color: hasFilter ? GOLD : TEXT3, fontSize: 9, lineHeight: 1, display: 'flex', alignItems: 'center',
+        }}
+        aria-label={`Filter ${label}`}
+      >
+        ▾
+      </button>
+      {open && (
+        <div style={{
+          position: 'absolute', top: 22, left: 0, minWidth: 190,
+          background: SURFACE, border: `1px solid ${BORDER2}`,
+          borderRadius: 4, zIndex: 100,
+          boxShadow: '0 12px 32px rgba(0,0,0,0.6)',
+          padding: '4px 0', maxHeight: 260, overflowY: 'auto',
+        }}>
+          {options.length === 0 && (
+            <div style={{ color: TEXT3, fontSize: 12, padding: '8px 14px' }}>No options</div>
+          )}
+          {options.map(val => (
+            <label key={val} style={{
+              display: 'flex', alignItems: 'center', fontSize: 12, color: TEXT2,
+              padding: '5px 14px', cursor: 'pointer',
+              background: (Array.isArray(selected) && selected.includes(val))
+                ? 'rgba(201,168,66,0.08)' : 'transparent',
+            }}>
+              <input
+                type="checkbox"
+                checked={Array.isArray(selected) && selected.includes(val)}
+                onChange={() => toggleValue(val)}
+                style={{ marginRight: 8, accentColor: GOLD, width: 12, height: 12 }}
+              />
+              <span style={{ whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis', maxWidth: 150 }}>
+                {val}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Card comparison ──────────────────────────────────────────────────────────
+// Arrow and percentage against the comparison period; for costs, up is bad
+function ChangeBadge({ change, label, lowerIsBetter = false }: { change: number | null; label: string; lowerIsBetter?: boolean }) {
+  if (change === null) {
+    return <div style={{ fontSize: 11, color: TEXT3, marginTop: 6 }}>No data for {label.toLowerCase()}</div>
+  }
+  const flat = Math.abs(change) < 0.05
+  const good = lowerIsBetter ? change < 0 : change > 0
+  const color = flat ? TEXT3 : good ? GREEN : RED
+  return (
+    <div style={{ fontSize: 11, color: TEXT3, marginTop: 6 }}>
+      <span style={{ color, fontWeight: 600 }}>
+        {flat ? '–' : change > 0 ? '▲' : '▼'} {Math.abs(change).toFixed(1)}%
+      </span>
+      &nbsp;vs {label.toLowerCase()}
+    </div>
+  )
+}
+
+// Last twelve months, scaled to its own range; a dashed line marks zero when it is crossed
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const width = 160, height = 28
+  const min = Math.min(0, ...values), max = Math.max(0, ...values)
+  const range = max - min || 1
+  const x = (i: number) => (values.length > 1 ? (i / (values.length - 1)) * width : width / 2)
+  const y = (v: number) => height - ((v - min) / range) * height
+  return (
+    <svg width={width} height={height} viewBox={`0 -1 ${width} ${height + 2}`} style={{ display: 'block', marginTop: 10, overflow: 'visible' }}>
+      {min < 0 && max > 0 && (
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke={BORDER2} strokeDasharray="2 2" />
+      )}
+      <polyline
+        points={values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+        fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round"
+      />
+    </svg>
+  )
+}
+
+// ─── Sortable column header ───────────────────────────────────────────────────
+type LedgerKey = keyof Omit<LedgerEntry, 'id' | 'property_id' | 'source_starling_id'>
+type SortConfig = { key: LedgerKey, direction: 'asc' | 'desc' }
+
+function ColHeader({
+  children, colKey, sortConfig, align = 'left', style = {}
+}: {
+  children: React.ReactNode, colKey: LedgerKey, sortConfig: SortConfig | null
+  align?: 'left' | 'right', style?: React.CSSProperties
+}) {
+  const active = sortConfig?.key === colKey
+  return (
+    <th
+      align={align}
+      style={{
+        position: 'sticky', top: 0, background: SURFACE2, zIndex: 2,
+        padding: '9px 10px 9px 10px', fontWeight: 600, fontSize: 10,
+        color: active ? GOLD : TEXT3, textTransform: 'uppercase', letterSpacing: '1.2px',
+        cursor: 'pointer', userSelect: 'none', borderBottom: `1px solid ${BORDER2}`,
+        ...style,
+      }}
+    >
+      {children}
+      {active && <span style={{ marginLeft: 4, color: GOLD }}>{sortConfig?.direction === 'asc' ? '▲' : '▼'}</span>}
+    </th>
+  )
+}
+
+// ─── Main page ────────────────────────────────────────────────────────────────
+export default function Dashboard({ viewer, data }: { viewer: Viewer; data: DashboardData }) {
+  const { properties: allProperties, ledger, starling: starlingTxns } = data
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string>(allProperties[0]?.property_id ?? '')
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null)
+  const [filters, setFilters] = useState<Partial<Record<LedgerKey, string[]>>>({})
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [comparison, setComparison] = useState<ComparisonMode>('previous')
+  const [entityId, setEntityId] = useState('')   // '' = the whole portfolio
+  const today = new Date().toISOString().slice(0, 10)
+  const taxYears = statementYears(ledger, today)
+  // The header describes what this viewer can see: the latest ledger date and their properties' towns
+  const asOf = ledger.reduce((latest, row) => row.date > latest ? row.date : latest, '')
+  const cities = Array.from(new Set(allProperties.map(p => p.city).filter(Boolean)))
+  const places = cities.length > 1 ? `${cities.slice(0, -1).join(', ')} & ${cities[cities.length - 1]}` : cities[0] ?? ''
+
+  // An ownership entity narrows the portfolio to what it holds, and the ledger to its
+  // share of each row, so every portfolio figure below is that entity's
+  const entities = holdingEntities(data.owners, allProperties, data.propertyOwners)
+  const entity = entities.find(o => o.id === entityId)
+  const held = entity ? holdings(entity, allProperties, data.propertyOwners) : null
+  const portfolioProperties = held ? held.map(h => h.property) : allProperties
+  const scopeProperties = selectedPropertyId ? portfolioProperties.filter(p => p.property_id === selectedPropertyId) : portfolioProperties
+
+  // ─── Filtering & Sorting ───────────────────────────────────────────────────
+  // Apply entity, property + column filters, then the date range — affects everything including KPI cards.
+  // The comparison period and sparklines use the same filters over other dates.
+  let scopedData = held ? shareOfLedger(ledger, held) : [...ledger]
+  if (selectedPropertyId) scopedData = scopedData.filter(row => row.property_id === selectedPropertyId)
+  ;(Object.entries(filters) as [LedgerKey, string[]][]).forEach(([key, selected]) => {
+    if (selected && selected.length > 0)
+      scopedData = scopedData.filter(row => selected.includes(String(row[key])))
+  })
+  let filteredData = scopedData
+  if (startDate) filteredData = filteredData.filter(row => row.date >= startDate)
+  if (endDate) filteredData = filteredData.filter(row => row.date <= endDate)
+
+  // ─── Calculations (on filtered data) ──────────────────────────────────────
+  const totalIncome = filteredData
+    .filter(row => row.type === RENT_TYPE)
+    .reduce((sum, row) => sum + row.amount, 0)
+
+  const totalExpenses = filteredData
+    .filter(row => row.type !== RENT_TYPE)
+    .reduce((sum, row) => sum + row.amount, 0)
+
+  const net = totalIncome + totalExpenses
+  const netMarginPct = totalIncome > 0 ? (net / totalIncome) * 100 : 0
+
+  // ─── Comparison period & sparklines ───────────────────────────────────────
+  // An open-ended range runs from the first to the last filtered row
+  const scopedDates = scopedData.map(row => row.date).sort()
+  const rangeFrom = startDate || scopedDates[0]
+  const rangeTo = endDate || scopedDates[scopedDates.length - 1]
+  const totalsBetween = (from: string, to: string) => {
+    const rows = scopedData.filter(row => row.date >= from && row.date <= to)
+    const income = rows.filter(row => row.type === RENT_TYPE).reduce((sum, row) => sum + row.amount, 0)
+    const expenses = rows.filter(row => row.type !== RENT_TYPE).reduce((sum, row) => sum + row.amount, 0)
+    return { rows: rows.length, income, expenses, net: income + expenses }
+  }
+  const compareWindow = rangeFrom && rangeTo ? comparisonWindow(rangeFrom, rangeTo, comparison) : null
+  const previous = compareWindow ? totalsBetween(compareWindow.from, compareWindow.to) : null
+  // Expenses are compared by size, so a rise in costs reads as ▲
+  const change = (key: 'income' | 'expenses' | 'net', current: number) => {
+    if (!compareWindow || !previous || previous.rows === 0) return null
+    const before = previous[key] * compareWindow.scale
+    return key === 'expenses' ? percentChange(Math.abs(current), Math.abs(before)) : percentChange(current, before)
+  }
+  const sparkMonths = rangeTo ? periodKeys(addMonths(rangeTo, -11), rangeTo, 'month') : []
+  const sparkline = sparkMonths.map(month => totalsBetween(`${month}-01`, `${month}-31`))
+
+  // Arrears are a position as of today across the whole portfolio, so ignore the filters
+  const arrears = portfolioArrears(allProperties, data.tenancies, ledger, today)
+
+  const totalsByType = filteredData.reduce<Record<string, number>>((acc, row) => {
+    acc[row.type] = (acc[row.type] ?? 0) + row.amount
+    return acc
+  }, {})
+
+  const breakdownRows = Object.entries(totalsByType)
+    .map(([type, total]) => ({ type, total }))
+    .sort((a, b) => b.total - a.total)
+
+  const sortedData = [...filteredData]
+  if (sortConfig) {
+    sortedData.sort((a, b) => {
+      const { key, direction } = sortConfig
+      let aVal = a[key], bVal = b[key]
+      if (typeof aVal === 'string' && typeof bVal === 'string') { aVal = aVal.toLowerCase(); bVal = bVal.toLowerCase() }
+      if (aVal < bVal) return direction === 'asc' ? -1 : 1
+      if (aVal > bVal) return direction === 'asc' ? 1 : -1
+      return 0
+    })
+  }
+
+  function getUnique(key: LedgerKey) {
+    return Array.from(new Set(ledger.map(row => String(row[key])))).sort()
+  }
+  function handleFilterChange(key: LedgerKey, values: string[]) {
+    setFilters(f => ({ ...f, [key]: values }))
+  }
+  function toggleSort(key: LedgerKey) {
+    setSortConfig(s => s?.key === key
+      ? { key, direction: s.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: 'asc' }
+    )
+  }
+
+  const fmt = (n: number) => n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+
+  // ─── Pie data ──────────────────────────────────────────────────────────────
+  const expenseBreakdown = breakdownRows.filter(row => row.type !== RENT_TYPE)
+  const pieData = {
+    labels: expenseBreakdown.map(r => r.type),
+    datasets: [{
+      data: expenseBreakdown.map(r => Math.abs(r.total)),
+      backgroundColor: ['#ef4444', '#4a9eff', '#c9a842', '#22c55e', '#a78bfa', '#f59e0b'],
+      borderColor: SURFACE,
+      borderWidth: 2,
+      hoverBorderColor: BORDER2,
+    }],
+  }
+
+  const inputStyle: React.CSSProperties = {
+    background: SURFACE, color: TEXT, border: `1px solid ${BORDER2}`,
+    borderRadius: 3, padding: '6px 10px', fontSize: 12, fontFamily: FONT,
+    outline: 'none', letterSpacing: '0.5px',
+  }
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+        marginBottom: 40, paddingBottom: 24, borderBottom: `1px solid ${BORDER}`,
+      }}>
+        <div>
+          <div style={{ fontSize: 10, color: GOLD, letterSpacing: '3px', textTransform: 'uppercase', marginBottom: 8, fontWeight: 600 }}>
+            Lansdowne Investments
+          </div>
+          <h1 style={{ margin: 0, fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            Portfolio Performance
+          </h1>
+        </div>
+        <div style={{ textAlign: 'right' }}>
+          <div style={{ fontSize: 11, color: TEXT3, letterSpacing: '0.5px', marginBottom: 4 }}>
+            {asOf && `AS OF ${new Date(asOf + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' }).toUpperCase()}`}
+          </div>
+          <div style={{ fontSize: 12, color: TEXT2 }}>
+            {allProperties.length} {allProperties.length === 1 ? 'Property' : 'Properties'}{places && ` · ${places}`}
+          </div>
+          <form action="/api/auth/logout" method="post" style={{ marginTop: 10, display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 10 }}>
+            <Link href="/tenancies" style={{ fontSize: 11, color: GOLD, textDecoration: 'none' }}>
+              Tenancies
+            </Link>
+            <Link href="/statements" style={{ fontSize: 11, color: GOLD, textDecoration: 'none' }}>
+              Tax-year P&L
+            </Link>
+            {viewer.canEdit && (
+              <Link href="/properties" style={{ fontSize: 11, color: GOLD, textDecoration: 'none' }}>
+                Manage properties
+              </Link>
+            )}
+            {viewer.canEdit && viewer.propertyIds === null && (
+              <Link href="/tax" style={{ fontSize: 11, color: GOLD, textDecoration: 'none' }}>
+                Ownership & tax
+              </Link>
+            )}
+            <span style={{ fontSize: 11, color: TEXT3 }}>
+              {viewer.displayName || viewer.email} · {ROLE_LABELS[viewer.role]}
+            </span>
+            <button
+              type="submit"
+              style={{
+                background: 'none', border: `1px solid ${BORDER2}`, color: TEXT3,
+                borderRadius: 3, padding: '4px 10px', fontSize: 11, cursor: 'pointer', fontFamily: FONT,
+              }}
+            >
+              Sign out
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* ── UNIFIED FILTER BAR ──────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', gap: 16, alignItems: 'center', marginBottom: 36,
+        padding: '12px 18px', background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4,
+        flexWrap: 'wrap',
+      }}>
+        <span style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.5px', fontWeight: 600 }}>
+          Filters
+        </span>
+        {/* Property selector */}
+        <select
+          value={selectedPropertyId}
+          onChange={e => setSelectedPropertyId(e.target.value)}
+          style={{
+            background: SURFACE2, color: selectedPropertyId ? TEXT : TEXT2,
+            border: `1px solid ${selectedPropertyId ? GOLD : BORDER2}`,
+            borderRadius: 3, padding: '6px 32px 6px 12px', fontSize: 12,
+            fontFamily: FONT, cursor: 'pointer', minWidth: 260, appearance: 'none',
+            backgroundImage: `url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='10' height='6' viewBox='0 0 10 6'%3E%3Cpath d='M0 0l5 6 5-6z' fill='%234a5570'/%3E%3C/svg%3E")`,
+            backgroundRepeat: 'no-repeat', backgroundPosition: 'right 12px center', outline: 'none',
+          }}
+        >
+          {portfolioProperties.map(p => (
+            <option key={p.property_id} value={p.property_id}>{p.address}, {p.city}</option>
+          ))}
+          <option value="">All Properties</option>
+        </select>
+        {entities.length > 0 && (
+          <select
+            value={entityId}
+            onChange={e => { setEntityId(e.target.value); setSelectedPropertyId('') }}
+            title="Ownership entity"
+            style={{ ...inputStyle, color: entity ? TEXT : TEXT2, border: `1px solid ${entity ? GOLD : BORDER2}`, cursor: 'pointer' }}
+          >
+            <option value="">All entities</option>
+            {entities.map(o => <option key={o.id} value={o.id}>{o.name} ({OWNER_KIND_LABELS[o.kind]})</option>)}
+          </select>
+        )}
+
+        {/* Divider */}
+        <div style={{ width: 1, height: 20, background: BORDER2, margin: '0 4px' }} />
+
+        {/* Date range */}
+        <span style={{ fontSize: 12, color: TEXT3 }}>From</span>
+        <input
+          type="date" value={startDate} onChange={e => setStartDate(e.target.value)}
+          style={inputStyle}
+        />
+        <span style={{ fontSize: 12, color: TEXT3 }}>To</span>
+        <input
+          type="date" value={endDate} onChange={e => setEndDate(e.target.value)}
+          style={inputStyle}
+        />
+        {/* Tax year — sets From/To to 6 April – 5 April */}
+        <select
+          value={taxYears.find(y => {
+            const { from, to } = taxYearBounds(y)
+            return startDate === from && endDate === to
+          }) ?? ''}
+          onChange={e => {
+            if (!e.target.value) return
+            const { from, to } = taxYearBounds(Number(e.target.value))
+            setStartDate(from)
+            setEndDate(to)
+          }}
+          style={{ ...inputStyle, cursor: 'pointer' }}
+        >
+          <option value="">Tax year…</option>
+          {taxYears.map(y => <option key={y} value={y}>{taxYearLabel(y)}</option>)}
+        </select>
+
+        {/* Clear */}
+        {(selectedPropertyId || entityId || startDate || endDate) && (
+          <button
+            onClick={() => { setSelectedPropertyId(''); setEntityId(''); setStartDate(''); setEndDate('') }}
+            style={{
+              background: 'none', border: `1px solid ${BORDER2}`, color: TEXT3,
+              borderRadius: 3, padding: '5px 10px', fontSize: 11, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            Clear all
+          </button>
+        )}
+
+        <div style={{ marginLeft: 'auto', fontSize: 11, color: TEXT3 }}>
+          {filteredData.length} transactions{entity && ` · ${entity.name}'s share`}
+        </div>
+      </div>
+
+      {/* ── PROPERTY ANALYSIS ───────────────────────────────────────────── */}
+      <PropertySelector
+        data={data}
+        selectedId={selectedPropertyId}
+        onSelectId={setSelectedPropertyId}
+        entityId={entityId}
+        canEdit={viewer.canEdit}
+      />
+      <SensitivityGrid properties={scopeProperties} mortgages={data.mortgages} />
+      <RemortgagePlanner properties={portfolioProperties} mortgages={data.mortgages} valuations={data.valuations} />
+      <RentArrears
+        properties={scopeProperties}
+        tenancies={data.tenancies}
+        ledger={ledger}
+      />
+
+      {/* ── SECTION DIVIDER ─────────────────────────────────────────────── */}
+      <div style={{ margin: '52px 0 36px', display: 'flex', alignItems: 'center', gap: 16 }}>
+        <div style={{ width: 3, height: 18, background: GOLD, borderRadius: 2 }} />
+        <span style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '3px', fontWeight: 600 }}>
+          P&L Summary
+        </span>
+        <div style={{ flex: 1, height: 1, background: BORDER }} />
+        <select
+          value={comparison}
+          onChange={e => setComparison(e.target.value as ComparisonMode)}
+          style={{ ...inputStyle, fontSize: 11, padding: '4px 8px', cursor: 'pointer' }}
+        >
+          {COMPARISON_MODES.map(m => <option key={m} value={m}>Compare: {COMPARISON_LABELS[m]}</option>)}
+        </select>
+      </div>
+
+      {/* ── SUMMARY KPI CARDS ───────────────────────────────────────────── */}
+      <div style={{ display: 'flex', gap: 16, marginBottom: 32 }}>
+        {/* Total Rent */}
+        <div style={{
+          background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${GREEN}`,
+          borderRadius: 4, padding: '18px 22px', flex: 1,
+        }}>
+          <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '2px', marginBottom: 10, fontWeight: 600 }}>
+            Rental Income
+          </div>
+          <div style={{ fontSize: 34, fontWeight: 700, color: GREEN, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            £{fmt(totalIncome)}
+          </div>
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 8 }}>
+            Gross rent collected
+          </div>
+          <ChangeBadge change={change('income', totalIncome)} label={COMPARISON_LABELS[comparison]} />
+          <Sparkline values={sparkline.map(m => m.income)} color={GREEN} />
+        </div>
+
+        {/* Total Expenses */}
+        <div style={{
+          background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${RED}`,
+          borderRadius: 4, padding: '18px 22px', flex: 1,
+        }}>
+          <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '2px', marginBottom: 10, fontWeight: 600 }}>
+            Total Expenses
+          </div>
+          <div style={{ fontSize: 34, fontWeight: 700, color: RED, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            -£{fmt(Math.abs(totalExpenses))}
+          </div>
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 8 }}>
+            Operating & maintenance costs
+          </div>
+          <ChangeBadge change={change('expenses', totalExpenses)} label={COMPARISON_LABELS[comparison]} lowerIsBetter />
+          <Sparkline values={sparkline.map(m => Math.abs(m.expenses))} color={RED} />
+        </div>
+
+        {/* Net */}
+        <div style={{
+          background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${GOLD}`,
+          borderRadius: 4, padding: '18px 22px', flex: 1,
+        }}>
+          <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '2px', marginBottom: 10, fontWeight: 600 }}>
+            Net P&L
+          </div>
+          <div style={{ fontSize: 34, fontWeight: 700, color: net >= 0 ? GREEN : RED, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            £{fmt(net)}
+          </div>
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 8 }}>
+            Net margin&nbsp;
+            <span style={{ color: netMarginPct >= 0 ? GREEN : RED, fontWeight: 600 }}>
+              {netMarginPct.toFixed(1)}%
+            </span>
+          </div>
+          <ChangeBadge change={change('net', net)} label={COMPARISON_LABELS[comparison]} />
+          <Sparkline values={sparkline.map(m => m.net)} color={GOLD} />
+        </div>
+
+        {/* Arrears */}
+        <div style={{
+          background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${arrears.arrears > 0.5 ? RED : GREEN}`,
+          borderRadius: 4, padding: '18px 22px', flex: 1,
+        }}>
+          <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '2px', marginBottom: 10, fontWeight: 600 }}>
+            Rent Arrears
+          </div>
+          <div style={{ fontSize: 34, fontWeight: 700, color: arrears.arrears > 0.5 ? RED : GREEN, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            £{fmt(arrears.arrears)}
+          </div>
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 8 }}>
+            {arrears.inArrears} of {allProperties.length} properties&nbsp;·&nbsp;
+            <span style={{ color: arrears.aging['60+'] > 0.5 ? RED : TEXT3, fontWeight: 600 }}>
+              £{fmt(arrears.aging['60+'])}
+            </span>
+            &nbsp;over 60 days
+          </div>
+        </div>
+      </div>
+
+      {/* ── BREAKDOWN + PIE ─────────────────────────────────────────────── */}
+      <div style={{ display: 'flex', gap: 16, marginBottom: 24 }}>
+
+        {/* Breakdown by type table */}
+        <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, padding: '20px 22px', minWidth: 300 }}>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 16 }}>
+            Breakdown by Type
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th align="left" style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', fontWeight: 600, paddingBottom: 8, borderBottom: `1px solid ${BORDER2}` }}>
+                  Category
+                </th>
+                <th align="right" style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', fontWeight: 600, paddingBottom: 8, borderBottom: `1px solid ${BORDER2}` }}>
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdownRows.map((row) => {
+                const isIncome = row.type === RENT_TYPE
+                return (
+                  <tr key={row.type}>
+                    <td style={{ padding: '7px 0', borderBottom: `1px solid ${BORDER}`, fontSize: 12, color: TEXT2 }}>
+                      <span style={{
+                        display: 'inline-block', width: 6, height: 6, borderRadius: '50%',
+                        background: isIncome ? GREEN : RED, marginRight: 8, verticalAlign: 'middle',
+                      }} />
+                      {row.type}
+                    </td>
+                    <td align="right" style={{
+                      padding: '7px 0', borderBottom: `1px solid ${BORDER}`,
+                      fontSize: 12, fontWeight: 600, color: isIncome ? GREEN : RED,
+                      fontVariantNumeric: 'tabular-nums',
+                    }}>
+                      {isIncome ? '+' : ''}£{row.total.toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td style={{ padding: '10px 0 0', fontSize: 12, fontWeight: 700, color: TEXT, borderTop: `1px solid ${BORDER2}` }}>
+                  Net Total
+                </td>
+                <td align="right" style={{
+                  padding: '10px 0 0', fontSize: 12, fontWeight: 700, borderTop: `1px solid ${BORDER2}`,
+                  color: net >= 0 ? GREEN : RED, fontVariantNumeric: 'tabular-nums',
+                }}>
+                  £{breakdownRows.reduce((s, r) => s + r.total, 0).toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {/* Expense breakdown pie */}
+        <div style={{
+          background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4,
+          padding: '20px 22px', flex: 1, display: 'flex', flexDirection: 'column',
+        }}>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 16 }}>
+            Expense Breakdown (excl. Rent)
+          </div>
+          <div style={{ flex: 1, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+            <div style={{ maxWidth: 280, width: '100%' }}>
+              <Pie
+                data={pieData}
+                options={{
+                  responsive: true,
+                  maintainAspectRatio: true,
+                  plugins: {
+                    legend: {
+                      position: 'right',
+                      labels: {
+                        color: TEXT2, font: { size: 11, family: FONT },
+                        boxWidth: 10, padding: 12,
+                      },
+                    },
+                    tooltip: {
+                      backgroundColor: SURFACE,
+                      titleColor: TEXT2,
+                      bodyColor: TEXT,
+                      borderColor: BORDER2,
+                      borderWidth: 1,
+                      padding: 10,
+                      callbacks: {
+                        label: (item: TooltipItem<'pie'>) => ` -£${item.parsed.toLocaleString('en-GB', { maximumFractionDigits: 0 })}`,
+                      },
+                    },
+                  },
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* ── INCOME VS EXPENSES OVER TIME ─────────────────────────────────── */}
+      <CashflowChart entries={filteredData} />
+
+      {/* ── TRANSACTIONS TABLE ───────────────────────────────────────────── */}
+      <div style={{
+        background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4,
+        overflow: 'hidden',
+      }}>
+        <div style={{
+          padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`,
+          display: 'flex', alignItems: 'center', gap: 12,
+        }}>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+            Transaction Ledger
+          </div>
+          <div style={{ marginLeft: 'auto', fontSize: 11, color: TEXT3 }}>
+            {sortedData.length} records
+          </div>
+          {viewer.canEdit && (
+            <Link href="/import/agent" style={{
+              fontSize: 11, fontWeight: 600, color: GOLD, textDecoration: 'none',
+              border: `1px solid ${GOLD}`, borderRadius: 3, padding: '4px 10px',
+            }}>
+              Import agent statement
+            </Link>
+          )}
+        </div>
+
+        <div style={{ maxHeight: 440, overflowY: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <ColHeader colKey="date" sortConfig={sortConfig}
+                  style={{ minWidth: 100, paddingLeft: 18 }}
+                  align="left">
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span onClick={() => toggleSort('date')} style={{ cursor: 'pointer' }}>Date</span>
+                    <DropdownFilter options={getUnique('date')} selected={filters.date} onChange={v => handleFilterChange('date', v)} label="Date" />
+                  </div>
+                </ColHeader>
+                <ColHeader colKey="property_address" sortConfig={sortConfig}
+                  style={{ minWidth: 140 }} align="left">
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span onClick={() => toggleSort('property_address')} style={{ cursor: 'pointer' }}>Property</span>
+                    <DropdownFilter options={getUnique('property_address')} selected={filters.property_address} onChange={v => handleFilterChange('property_address', v)} label="Property" />
+                  </div>
+                </ColHeader>
+                <ColHeader colKey="description" sortConfig={sortConfig}
+                  style={{ minWidth: 140 }} align="left">
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span onClick={() => toggleSort('description')} style={{ cursor: 'pointer' }}>Description</span>
+                    <DropdownFilter options={getUnique('description')} selected={filters.description} onChange={v => handleFilterChange('description', v)} label="Description" />
+                  </div>
+                </ColHeader>
+                <ColHeader colKey="type" sortConfig={sortConfig}
+                  style={{ width: 110 }} align="left">
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                    <span onClick={() => toggleSort('type')} style={{ cursor: 'pointer' }}>Type</span>
+                    <DropdownFilter options={getUnique('type')} selected={filters.type} onChange={v => handleFilterChange('type', v)} label="Type" />
+                  </div>
+                </ColHeader>
+                <ColHeader colKey="amount" sortConfig={sortConfig}
+                  style={{ minWidth: 110, paddingRight: 18 }} align="right">
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 4 }}>
+                    <span onClick={() => toggleSort('amount')} style={{ cursor: 'pointer' }}>Amount (£)</span>
+                    <DropdownFilter options={getUnique('amount')} selected={filters.amount} onChange={v => handleFilterChange('amount', v)} label="Amount" />
+                  </div>
+                </ColHeader>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedData.map((row, idx) => {
+                const amount = row.amount
+                const isIncome = amount > 0
+                return (
+                  <tr key={row.id} style={{ background: idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)' }}>
+                    <td style={{ padding: '7px 10px 7px 18px', fontSize: 12, color: TEXT3, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
+                      {fmtDate(row.date)}
+                    </td>
+                    <td style={{ padding: '7px 10px', fontSize: 12, color: TEXT2, borderBottom: `1px solid ${BORDER}` }}>
+                      {row.property_address}
+                    </td>
+                    <td style={{ padding: '7px 10px', fontSize: 12, color: TEXT2, borderBottom: `1px solid ${BORDER}` }}>
+                      {row.description}
+                    </td>
+                    <td style={{ padding: '7px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                      <span style={{
+                        fontSize: 10, fontWeight: 600, letterSpacing: '0.5px', textTransform: 'uppercase',
+                        color: isIncome ? GREEN : RED,
+                        background: isIncome ? 'rgba(34,197,94,0.08)' : 'rgba(239,68,68,0.08)',
+                        borderRadius: 3, padding: '2px 6px',
+                      }}>
+                        {row.type}
+                      </span>
+                    </td>
+                    <td align="right" style={{
+                      padding: '7px 18px 7px 10px', fontSize: 12, fontWeight: 600,
+                      color: isIncome ? GREEN : RED, fontVariantNumeric: 'tabular-nums',
+                      borderBottom: `1px solid ${BORDER}`,
+                    }}>
+                      {isIncome ? '+' : ''}£{Math.abs(amount).toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+            <tfoot>
+              <tr style={{ background: SURFACE2 }}>
+                <td colSpan={3} style={{ padding: '10px 18px', fontSize: 11, color: TEXT3, fontWeight: 600, textTransform: 'uppercase', letterSpacing: '1px', borderTop: `1px solid ${BORDER2}` }}>
+                  Filtered Total
+                </td>
+                <td style={{ padding: '10px 10px', borderTop: `1px solid ${BORDER2}` }} />
+                <td align="right" style={{
+                  padding: '10px 18px 10px 10px', fontSize: 12, fontWeight: 700, borderTop: `1px solid ${BORDER2}`,
+                  color: filteredData.reduce((s, r) => s + r.amount, 0) >= 0 ? GREEN : RED,
+                  fontVariantNumeric: 'tabular-nums',
+                }}>
+                  £{filteredData.reduce((s, r) => s + r.amount, 0)
+                    .toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+
+      {/* ── UNMATCHED ADDRESSES ──────────────────────────────────────────── */}
+      <UnmatchedAddresses
+        ledger={ledger}
+        starling={starlingTxns}
+        properties={allProperties}
+        canEdit={viewer.canEdit}
+      />
+
+      {/* ── STARLING BANK TRANSACTIONS ───────────────────────────────────── */}
+      <StarlingTransactions
+        transactions={starlingTxns}
+        properties={allProperties}
+        canEdit={viewer.canEdit}
+      />
+      {viewer.canEdit && (
+        <StarlingRules
+          rules={data.starlingRules}
+          transactions={starlingTxns}
+          properties={allProperties}
+        />
+      )}
+
+      {/* Footer */}
+      <div style={{ marginTop: 32, paddingTop: 20, borderTop: `1px solid ${BORDER}`, display: 'flex', justifyContent: 'space-between' }}>
+        <span style={{ fontSize: 10, color: TEXT3, letterSpacing: '0.5px' }}>
+          LANSDOWNE INVESTMENTS · PORTFOLIO ANALYTICS
+        </span>
+        <span style={{ fontSize: 10, color: TEXT3 }}>
+          Data sourced from Supabase · {ledger.length} total transactions
+        </span>
+      </div>
+
+    </div>
+  )
+}
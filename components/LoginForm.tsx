@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, FormEvent } from 'react'
+import { useState, FormEvent } from 'react'
 
 const BG      = '#070c14'
 const SURFACE = '#0c1322'
@@ -8,43 +8,49 @@ const BORDER  = '#1c2535'
 const BORDER2 = '#243045'
 const GOLD    = '#c9a842'
 const TEXT    = '#dde2ed'
-const TEXT2   = '#8e9ab5'
 const TEXT3   = '#4a5570'
 const RED     = '#ef4444'
 const FONT    = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
 
-const SESSION_KEY = 'lansdowne_auth'
+export default function LoginForm({ next }: { next: string }) {
+  const [email, setEmail]           = useState('')
+  const [password, setPassword]     = useState('')
+  const [error, setError]           = useState('')
+  const [submitting, setSubmitting] = useState(false)
 
-export default function PasswordGate({ children }: { children: React.ReactNode }) {
-  const [authed, setAuthed]     = useState(false)
-  const [checked, setChecked]   = useState(false)
-  const [password, setPassword] = useState('')
-  const [error, setError]       = useState('')
-
-  // On mount, check sessionStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      setAuthed(sessionStorage.getItem(SESSION_KEY) === 'true')
-    }
-    setChecked(true)
-  }, [])
-
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault()
-    const correct = process.env.NEXT_PUBLIC_DASHBOARD_PASSWORD
-    if (password === correct) {
-      sessionStorage.setItem(SESSION_KEY, 'true')
-      setAuthed(true)
-    } else {
-      setError('Incorrect password')
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+      if (res.ok) {
+        // Full navigation so the server components render with the new cookie
+        window.location.assign(next)
+        return
+      }
+      const body = await res.json().catch(() => null)
+      setError(body?.error ?? 'Sign-in failed')
       setPassword('')
+    } catch {
+      setError('Unable to reach the server')
     }
+    setSubmitting(false)
   }
 
-  // Avoid flash of login screen on already-authed sessions
-  if (!checked) return null
+  const inputStyle = (hasError: boolean): React.CSSProperties => ({
+    width: '100%', boxSizing: 'border-box',
+    background: '#111927', border: `1px solid ${hasError ? RED : BORDER2}`,
+    borderRadius: 3, padding: '10px 14px', fontSize: 14,
+    color: TEXT, fontFamily: FONT, outline: 'none',
+  })
 
-  if (authed) return <>{children}</>
+  const labelStyle: React.CSSProperties = {
+    display: 'block', fontSize: 11, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 8,
+  }
 
   return (
     <div style={{
@@ -73,20 +79,26 @@ export default function PasswordGate({ children }: { children: React.ReactNode }
         {/* Form */}
         <form onSubmit={handleSubmit}>
           <div style={{ marginBottom: 16 }}>
-            <label style={{ display: 'block', fontSize: 11, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 8 }}>
-              Password
-            </label>
+            <label style={labelStyle}>Email</label>
+            <input
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={e => { setEmail(e.target.value); setError('') }}
+              autoFocus
+              required
+              style={inputStyle(false)}
+            />
+          </div>
+          <div style={{ marginBottom: 16 }}>
+            <label style={labelStyle}>Password</label>
             <input
               type="password"
+              autoComplete="current-password"
               value={password}
               onChange={e => { setPassword(e.target.value); setError('') }}
-              autoFocus
-              style={{
-                width: '100%', boxSizing: 'border-box',
-                background: '#111927', border: `1px solid ${error ? RED : BORDER2}`,
-                borderRadius: 3, padding: '10px 14px', fontSize: 14,
-                color: TEXT, fontFamily: FONT, outline: 'none',
-              }}
+              required
+              style={inputStyle(!!error)}
             />
             {error && (
               <div style={{ fontSize: 12, color: RED, marginTop: 8 }}>{error}</div>
@@ -95,14 +107,16 @@ export default function PasswordGate({ children }: { children: React.ReactNode }
 
           <button
             type="submit"
+            disabled={submitting}
             style={{
               width: '100%', padding: '11px 0', marginTop: 8,
               background: GOLD, border: 'none', borderRadius: 3,
               fontSize: 13, fontWeight: 600, color: BG,
-              fontFamily: FONT, cursor: 'pointer', letterSpacing: '0.5px',
+              fontFamily: FONT, cursor: submitting ? 'wait' : 'pointer', letterSpacing: '0.5px',
+              opacity: submitting ? 0.7 : 1,
             }}
           >
-            Enter Dashboard
+            {submitting ? 'Signing in…' : 'Enter Dashboard'}
           </button>
         </form>
 
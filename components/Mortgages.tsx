@@ -0,0 +1,272 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { MORTGAGE_TYPES, type Mortgage, type Property } from '@/lib/models'
+import { MORTGAGE_TYPE_LABELS, activeMortgage, endDate, projection } from '@/lib/mortgages'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const BLUE     = '#4a9eff'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtRate(n: number) {
+  return (n * 100).toFixed(2) + '%'
+}
+function fmtDate(dateStr: string) {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
+}
+
+// Form state keeps every field as a string, as the inputs do
+type MortgageForm = Record<
+  'lender' | 'start_date' | 'principal' | 'term_months' | 'repayment_type' |
+  'initial_rate' | 'fixed_until' | 'reversion_rate',
+  string
+>
+
+function toForm(m?: Mortgage): MortgageForm {
+  return {
+    lender: m?.lender ?? '', start_date: m?.start_date ?? '',
+    principal: m ? String(m.principal) : '', term_months: m ? String(m.term_months) : '300',
+    repayment_type: m?.repayment_type ?? 'interest_only',
+    initial_rate: m ? String(m.initial_rate) : '',
+    fixed_until: m?.fixed_until ?? '', reversion_rate: m?.reversion_rate === null || !m ? '' : String(m.reversion_rate),
+  }
+}
+
+const inputStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '5px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', width: '100%', boxSizing: 'border-box',
+}
+
+function buttonStyle(color: string): React.CSSProperties {
+  return {
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '2px 8px', fontSize: 10, fontWeight: 600, fontFamily: FONT, cursor: 'pointer', whiteSpace: 'nowrap',
+  }
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function Mortgages({ property, mortgages, today, canEdit }: {
+  property: Property
+  mortgages: Mortgage[]
+  today: string
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  // null = form closed, 'new' = adding, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<MortgageForm>(toForm())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const active = activeMortgage(mortgages, today)
+  const years = projection(property, mortgages, today)
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return false
+    }
+    router.refresh()
+    return true
+  }
+
+  async function save() {
+    const ok = editing === 'new'
+      ? await send('/api/mortgages', 'POST', { ...form, property_id: property.property_id })
+      : await send(`/api/mortgages/${encodeURIComponent(editing!)}`, 'PATCH', form)
+    if (ok) setEditing(null)
+  }
+
+  async function remove(m: Mortgage) {
+    if (!window.confirm(`Delete the ${m.lender} mortgage from ${fmtDate(m.start_date)}?`)) return
+    await send(`/api/mortgages/${encodeURIComponent(m.id)}`, 'DELETE')
+  }
+
+  const status = (m: Mortgage) =>
+    m === active ? (endDate(m) <= today ? { text: 'Term ended', color: TEXT2 } : { text: 'In force', color: GREEN })
+    : m.start_date > today ? { text: 'Starts ' + fmtDate(m.start_date), color: BLUE }
+    : { text: 'Redeemed', color: TEXT3 }
+
+  const label: React.CSSProperties = { fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4 }
+  const field = (key: keyof MortgageForm, title: string, type = 'text', placeholder = '') => (
+    <div>
+      <div style={label}>{title}</div>
+      <input
+        type={type}
+        value={form[key]}
+        placeholder={placeholder}
+        onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))}
+        style={inputStyle}
+      />
+    </div>
+  )
+  const th: React.CSSProperties = {
+    padding: '8px 14px', color: TEXT3, fontWeight: 600, fontSize: 10, textTransform: 'uppercase',
+    letterSpacing: '1px', borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+  }
+  const td: React.CSSProperties = { padding: '8px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 16 }}>
+      <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Mortgages
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          {active
+            ? 'The loan in force drives the balance, interest, equity and cashflow above'
+            : 'No loan recorded — figures above assume an interest-only refinance at the Phase 2 rate'}
+        </div>
+        {canEdit && editing === null && (
+          <button
+            onClick={() => { setEditing('new'); setForm(toForm()); setError('') }}
+            style={{ ...buttonStyle(GOLD), marginLeft: 'auto', padding: '4px 10px', fontSize: 11 }}
+          >
+            Add mortgage
+          </button>
+        )}
+      </div>
+      {error && <div style={{ padding: '8px 20px', fontSize: 12, color: RED }}>{error}</div>}
+
+      {/* ── Mortgage form ─────────────────────────────────────────────────── */}
+      {editing !== null && (
+        <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, background: SURFACE2 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 10, marginBottom: 10 }}>
+            {field('lender', 'Lender')}
+            {field('start_date', 'Start date', 'date')}
+            {field('principal', 'Loan amount £')}
+            {field('term_months', 'Term (months)', 'text', 'e.g. 300')}
+            <div>
+              <div style={label}>Type</div>
+              <select value={form.repayment_type} onChange={e => setForm(f => ({ ...f, repayment_type: e.target.value }))} style={inputStyle}>
+                {MORTGAGE_TYPES.map(t => <option key={t} value={t}>{MORTGAGE_TYPE_LABELS[t]}</option>)}
+              </select>
+            </div>
+            {field('initial_rate', 'Initial rate (fraction)', 'text', 'e.g. 0.0489')}
+            {field('fixed_until', 'Fixed until', 'date')}
+            {field('reversion_rate', 'Reversion rate (fraction)', 'text', 'Blank keeps the initial rate')}
+          </div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button onClick={save} disabled={busy} style={buttonStyle(GOLD)}>
+              {busy ? 'Saving…' : editing === 'new' ? 'Add' : 'Save'}
+            </button>
+            <button onClick={() => { setEditing(null); setError('') }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {/* ── Loans ─────────────────────────────────────────────────────────── */}
+      {mortgages.length > 0 && (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr style={{ background: SURFACE2 }}>
+                {['Lender', 'Type', 'Start', 'Loan', 'Term', 'Initial Rate', 'Fixed Until', 'Reversion', 'Ends', ''].map((h, i) => (
+                  <th key={i} align={i >= 3 && i <= 7 && i !== 6 ? 'right' : 'left'} style={th}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {mortgages.map(m => {
+                const s = status(m)
+                return (
+                  <tr key={m.id} style={{ borderBottom: `1px solid ${BORDER}`, opacity: s.color === TEXT3 ? 0.6 : 1 }}>
+                    <td style={{ ...td, color: TEXT, fontWeight: 600 }}>
+                      {m.lender}
+                      <span style={{ marginLeft: 8, fontSize: 10, fontWeight: 400, color: s.color }}>{s.text}</span>
+                    </td>
+                    <td style={td}>{MORTGAGE_TYPE_LABELS[m.repayment_type]}</td>
+                    <td style={td}>{fmtDate(m.start_date)}</td>
+                    <td align="right" style={td}>£{fmt(m.principal)}</td>
+                    <td align="right" style={td}>{m.term_months % 12 === 0 ? `${m.term_months / 12} yrs` : `${m.term_months} mo`}</td>
+                    <td align="right" style={td}>{fmtRate(m.initial_rate)}</td>
+                    <td style={td}>{m.fixed_until ? fmtDate(m.fixed_until) : '—'}</td>
+                    <td align="right" style={td}>{m.reversion_rate === null ? '—' : fmtRate(m.reversion_rate)}</td>
+                    <td style={td}>{fmtDate(endDate(m))}</td>
+                    <td align="right" style={td}>
+                      {canEdit && editing === null && (
+                        <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                          <button onClick={() => { setEditing(m.id); setForm(toForm(m)); setError('') }} style={buttonStyle(TEXT2)}>Edit</button>
+                          <button onClick={() => remove(m)} disabled={busy} style={buttonStyle(RED)}>Delete</button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* ── Amortisation by year ──────────────────────────────────────────── */}
+      {active && years.length > 0 && (
+        <div style={{ borderTop: `1px solid ${BORDER2}` }}>
+          <div style={{ padding: '12px 20px 8px', display: 'flex', alignItems: 'baseline', gap: 12 }}>
+            <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', fontWeight: 600 }}>
+              Amortisation schedule · {active.lender}
+            </div>
+            <div style={{ fontSize: 11, color: TEXT3 }}>
+              Year by year from today; rent and running costs held at current figures
+              {active.repayment_type === 'interest_only' && ` · £${fmt(active.principal)} falls due ${fmtDate(endDate(active))}`}
+            </div>
+          </div>
+          <div style={{ overflowX: 'auto', maxHeight: 320, overflowY: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr style={{ background: SURFACE2 }}>
+                  {['Year to', 'Rate', 'Interest', 'Capital Repaid', 'Balance', 'Equity', 'Cashflow'].map((h, i) => (
+                    <th key={h} align={i === 0 ? 'left' : 'right'} style={{ ...th, position: 'sticky', top: 0, background: SURFACE2 }}>{h}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {years.map(y => {
+                  // Highlight the year the fixed rate ends
+                  const reverts = !!active.fixed_until && active.fixed_until > y.from && active.fixed_until <= y.to
+                  return (
+                    <tr key={y.to} style={{ borderBottom: `1px solid ${BORDER}`, background: reverts ? 'rgba(201,168,66,0.05)' : 'transparent' }}>
+                      <td style={{ ...td, color: TEXT }}>
+                        {fmtDate(y.to)}
+                        {reverts && <span style={{ marginLeft: 8, fontSize: 10, color: GOLD }}>Fixed rate ends</span>}
+                      </td>
+                      <td align="right" style={td}>{fmtRate(y.rate)}</td>
+                      <td align="right" style={td}>£{fmt(y.interest)}</td>
+                      <td align="right" style={td}>£{fmt(y.capital)}</td>
+                      <td align="right" style={td}>£{fmt(y.balance)}</td>
+                      <td align="right" style={{ ...td, color: BLUE }}>£{fmt(y.equity)}</td>
+                      <td align="right" style={{ ...td, fontWeight: 600, color: y.cashflow >= 0 ? GREEN : RED }}>£{fmt(y.cashflow)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { Property } from '@/lib/models'
+import { propertyKpis } from '@/lib/calculations'
+import {
+  PROPERTY_SECTIONS, previewFigures, propertyFormErrors, toFormValues,
+  type FieldDef, type PropertyFormValues, type PropertyInput,
+} from '@/lib/property-form'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const BLUE     = '#4a9eff'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtPct(n: number) {
+  return n.toFixed(1) + '%'
+}
+
+// ─── Preview row ──────────────────────────────────────────────────────────────
+function PreviewRow({ label, value, color, before }: { label: string; value: string; color?: string; before?: string }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', padding: '7px 0', borderBottom: `1px solid ${BORDER}` }}>
+      <span style={{ fontSize: 12, color: TEXT3 }}>{label}</span>
+      <span style={{ fontSize: 13, fontWeight: 600, color: color ?? TEXT, fontVariantNumeric: 'tabular-nums' }}>
+        {before && before !== value && <span style={{ fontSize: 11, fontWeight: 400, color: TEXT3, marginRight: 8, textDecoration: 'line-through' }}>{before}</span>}
+        {value}
+      </span>
+    </div>
+  )
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function PropertyForm({ property }: { property?: Property }) {
+  const router = useRouter()
+  const creating = !property
+  const [values, setValues] = useState<PropertyFormValues>(toFormValues(property))
+  const [touched, setTouched] = useState<Set<string>>(new Set())
+  const [serverErrors, setServerErrors] = useState<Partial<Record<keyof PropertyInput, string>>>({})
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const errors = { ...propertyFormErrors(values), ...serverErrors }
+  const hasErrors = Object.keys(errors).length > 0
+
+  // Live KPIs from whatever is typed, alongside the saved figures when editing
+  const preview = propertyKpis(previewFigures(values))
+  const saved = property ? propertyKpis(property) : null
+
+  function change(key: keyof PropertyInput, value: string) {
+    setValues(v => ({ ...v, [key]: value }))
+    setTouched(t => new Set(t).add(key))
+    setServerErrors(e => {
+      const next = { ...e }
+      delete next[key]
+      return next
+    })
+  }
+
+  async function save() {
+    // Show every problem, not just the ones in fields already visited
+    setTouched(new Set(Object.keys(values)))
+    if (hasErrors) return
+    setSaving(true)
+    setError('')
+    const res = await fetch(creating ? '/api/properties' : `/api/properties/${encodeURIComponent(property.property_id)}`, {
+      method: creating ? 'POST' : 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    }).catch(() => null)
+    setSaving(false)
+    if (!res?.ok) {
+      const body = await res?.json().catch(() => null)
+      setError(body?.error ?? 'Could not save the property')
+      if (body?.fields) setServerErrors(body.fields)
+      return
+    }
+    router.push('/properties')
+    router.refresh()
+  }
+
+  const input = (f: FieldDef) => {
+    const problem = touched.has(f.key) ? errors[f.key] : undefined
+    const disabled = f.key === 'property_id' && !creating
+    return (
+      <div key={f.key} style={{ gridColumn: f.key === 'notes_phase2' || f.key === 'address' ? 'span 2' : undefined }}>
+        <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4 }}>
+          {f.label}{f.kind === 'rate' && ' (fraction)'}{f.kind === 'money' && ' £'}
+        </div>
+        <input
+          value={values[f.key]}
+          disabled={disabled}
+          inputMode={f.kind === 'text' || f.kind === 'id' ? 'text' : 'decimal'}
+          placeholder={f.kind === 'rate' ? 'e.g. 0.75' : ''}
+          onChange={e => change(f.key, e.target.value)}
+          onBlur={() => setTouched(t => new Set(t).add(f.key))}
+          style={{
+            width: '100%', boxSizing: 'border-box',
+            background: disabled ? 'transparent' : SURFACE2, color: disabled ? TEXT3 : TEXT,
+            border: `1px solid ${problem ? RED : BORDER2}`, borderRadius: 3,
+            padding: '7px 10px', fontSize: 13, fontFamily: FONT, outline: 'none',
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        />
+        {problem
+          ? <div style={{ fontSize: 11, color: RED, marginTop: 4 }}>{problem}</div>
+          : f.hint && <div style={{ fontSize: 11, color: TEXT3, marginTop: 4 }}>{f.hint}</div>}
+        {!problem && f.kind === 'rate' && values[f.key].trim() !== '' && (
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 4 }}>= {fmtPct(Number(values[f.key]) * 100)}</div>
+        )}
+      </div>
+    )
+  }
+
+  const roiColor = (roi: number) => (roi >= 10 ? GREEN : roi >= 0 ? AMBER : RED)
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{ marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}` }}>
+        <Link href="/properties" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Properties</Link>
+        <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+          {creating ? 'Add Property' : property.address}
+        </h1>
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 320px', gap: 24, alignItems: 'start' }}>
+
+        {/* ── FIELDS ──────────────────────────────────────────────────────── */}
+        <div>
+          {PROPERTY_SECTIONS.map(section => (
+            <div key={section.title} style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, padding: '18px 20px', marginBottom: 16 }}>
+              <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 14 }}>
+                {section.title}
+              </div>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 14 }}>
+                {section.fields.map(input)}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* ── LIVE KPI PREVIEW ────────────────────────────────────────────── */}
+        <div style={{ position: 'sticky', top: 24, background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${GOLD}`, borderRadius: 4, padding: '18px 20px' }}>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 10 }}>
+            KPI Preview
+          </div>
+          <PreviewRow label="Total cash deployed" value={`£${fmt(preview.totalCashInvested)}`} before={saved ? `£${fmt(saved.totalCashInvested)}` : undefined} />
+          <PreviewRow label="Net cash in deal" value={`£${fmt(preview.netCashInvested)}`} before={saved ? `£${fmt(saved.netCashInvested)}` : undefined} />
+          <PreviewRow label="Outstanding mortgage" value={`£${fmt(preview.outstandingMortgage)}`} before={saved ? `£${fmt(saved.outstandingMortgage)}` : undefined} />
+          <PreviewRow label="Equity" value={`£${fmt(preview.equity)}`} color={BLUE} before={saved ? `£${fmt(saved.equity)}` : undefined} />
+          <PreviewRow label="Monthly cashflow" value={`£${fmt(preview.monthlyCashflow)}`} color={preview.monthlyCashflow >= 0 ? GREEN : RED} before={saved ? `£${fmt(saved.monthlyCashflow)}` : undefined} />
+          <PreviewRow label="Cash-on-cash ROI" value={fmtPct(preview.roi)} color={roiColor(preview.roi)} before={saved ? fmtPct(saved.roi) : undefined} />
+          <PreviewRow label="Gross yield" value={fmtPct(preview.grossYield)} color="#a78bfa" before={saved ? fmtPct(saved.grossYield) : undefined} />
+          <PreviewRow label="Net yield" value={fmtPct(preview.netYield)} before={saved ? fmtPct(saved.netYield) : undefined} />
+
+          {error && <div style={{ fontSize: 12, color: RED, marginTop: 14 }}>{error}</div>}
+          <div style={{ display: 'flex', gap: 8, marginTop: 18 }}>
+            <button
+              onClick={save}
+              disabled={saving}
+              style={{
+                flex: 1, background: GOLD, border: 'none', color: '#070c14', borderRadius: 3,
+                padding: '8px 14px', fontSize: 12, fontWeight: 700, fontFamily: FONT,
+                cursor: saving ? 'default' : 'pointer', opacity: hasErrors ? 0.5 : 1,
+              }}
+            >
+              {saving ? 'Saving…' : creating ? 'Add property' : 'Save changes'}
+            </button>
+            <Link href="/properties" style={{
+              border: `1px solid ${BORDER2}`, color: TEXT3, borderRadius: 3, padding: '8px 14px',
+              fontSize: 12, textDecoration: 'none',
+            }}>
+              Cancel
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import type { Mortgage, Property } from '@/lib/models'
+import { propertyKpis } from '@/lib/calculations'
+import { debtPosition } from '@/lib/mortgages'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+
+export default function PropertyList({ properties, mortgages, canCreate }: {
+  properties: Property[]
+  mortgages: Mortgage[]
+  canCreate: boolean
+}) {
+  const router = useRouter()
+  const [showArchived, setShowArchived] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const archivedCount = properties.filter(p => p.archived_at).length
+  const shown = properties.filter(p => showArchived || !p.archived_at)
+  const today = new Date().toISOString().slice(0, 10)
+
+  async function setArchived(p: Property, archived: boolean) {
+    if (archived && !window.confirm(`Archive ${p.address}? It will be hidden from the dashboard; its history is kept.`)) return
+    setBusy(p.property_id)
+    setError('')
+    const res = await fetch(`/api/properties/${encodeURIComponent(p.property_id)}/archive`, {
+      method: archived ? 'POST' : 'DELETE',
+    }).catch(() => null)
+    setBusy(null)
+    if (!res?.ok) {
+      const body = await res?.json().catch(() => null)
+      setError(body?.error ?? 'Could not update the property')
+      return
+    }
+    router.refresh()
+  }
+
+  const cell: React.CSSProperties = { padding: '8px 14px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+  const smallButton = (color: string): React.CSSProperties => ({
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '3px 10px', fontSize: 11, cursor: 'pointer', fontFamily: FONT, textDecoration: 'none',
+  })
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+        marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}`,
+      }}>
+        <div>
+          <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+          <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            Properties
+          </h1>
+        </div>
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center' }}>
+          {archivedCount > 0 && (
+            <label style={{ fontSize: 12, color: TEXT3, display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+              <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} style={{ accentColor: GOLD }} />
+              Show archived ({archivedCount})
+            </label>
+          )}
+          {canCreate && (
+            <Link href="/properties/new" style={{
+              background: GOLD, color: '#070c14', borderRadius: 3, padding: '6px 14px',
+              fontSize: 12, fontWeight: 700, textDecoration: 'none',
+            }}>
+              Add property
+            </Link>
+          )}
+        </div>
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+
+      {/* ── PROPERTY TABLE ──────────────────────────────────────────────── */}
+      <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ background: SURFACE2 }}>
+              {['ID', 'Address', 'City', 'Market Value', 'Annual Rent', 'ROI', ''].map((h, i) => (
+                <th key={i} align={i >= 3 && i <= 5 ? 'right' : 'left'} style={{
+                  padding: '8px 14px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+                  letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`,
+                }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((p, i) => {
+              const { roi } = propertyKpis(p, debtPosition(mortgages.filter(m => m.property_id === p.property_id), today))
+              return (
+                <tr key={p.property_id} style={{ background: i % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)', opacity: p.archived_at ? 0.5 : 1 }}>
+                  <td style={{ ...cell, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{p.property_id}</td>
+                  <td style={{ ...cell, color: TEXT }}>
+                    {p.address}
+                    {p.archived_at && <span style={{ fontSize: 10, color: TEXT3, marginLeft: 8, textTransform: 'uppercase', letterSpacing: '0.5px' }}>Archived</span>}
+                  </td>
+                  <td style={{ ...cell, color: TEXT2 }}>{p.city}</td>
+                  <td align="right" style={{ ...cell, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>£{fmt(p.market_value_est)}</td>
+                  <td align="right" style={{ ...cell, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>£{fmt(p.annual_rent_phase2)}</td>
+                  <td align="right" style={{ ...cell, fontWeight: 600, color: roi >= 10 ? GREEN : roi >= 0 ? AMBER : RED, fontVariantNumeric: 'tabular-nums' }}>
+                    {roi.toFixed(1)}%
+                  </td>
+                  <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+                    <div style={{ display: 'flex', gap: 6, justifyContent: 'flex-end' }}>
+                      <Link href={`/properties/${encodeURIComponent(p.property_id)}`} style={smallButton(TEXT2)}>Edit</Link>
+                      <button onClick={() => setArchived(p, !p.archived_at)} disabled={busy !== null} style={smallButton(p.archived_at ? GOLD : TEXT3)}>
+                        {busy === p.property_id ? 'Saving…' : p.archived_at ? 'Restore' : 'Archive'}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
+import Link from 'next/link'
 import { Line } from 'react-chartjs-2'
 import {
   Chart as ChartJS,
@@ -13,7 +14,21 @@ import {
   Legend,
   Filler,
 } from 'chart.js'
-import { supabase } from '@/lib/supabase'
+import { RENT_TYPE } from '@/lib/models'
+import type { DashboardData } from '@/lib/repository'
+import { distinctMonths, propertyKpis } from '@/lib/calculations'
+import {
+  ANNUALISATION_LABELS, ANNUALISATION_METHODS, annualise, describeAnnualised, lowestConfidence, seasonalProfile,
+  type AnnualisationMethod,
+} from '@/lib/annualisation'
+import { capitalActual } from '@/lib/capital'
+import CapitalTransactions from '@/components/CapitalTransactions'
+import ScenarioAnalysis from '@/components/ScenarioAnalysis'
+import Mortgages from '@/components/Mortgages'
+import { debtPosition } from '@/lib/mortgages'
+import { occupancyStats, portfolioOccupancy } from '@/lib/occupancy'
+import { portfolioTax } from '@/lib/tax'
+import { HOLDING_STRUCTURE_LABELS, OWNER_KIND_LABELS, holdingEntities, holdingStructure, holdings } from '@/lib/ownership'
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Filler)
 
@@ -34,79 +49,6 @@ const TEXT2    = '#8e9ab5'
 const TEXT3    = '#4a5570'
 const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
 
-// ─── Target addresses for valuations table ─────────────────────────────────
-const TARGET_ADDRESSES = [
-  '70 Estcourt Avenue',
-  '66 Headingley Mount',
-  '38 St Michaels Road',
-  '32 Mayville Terrace',
-  '25 Christopher Road',
-  '8 Talbot Mount',
-  '6 Pennington Grove',
-  '6 Branksome Terrace',
-  '5 Norville Terrace',
-  '103 Cardigan Road',
-]
-
-// ─── Interfaces ───────────────────────────────────────────────────────────────
-interface Property {
-  property_id: string
-  address: string
-  city: string
-  purchase_price: number
-  deposit_pct_phase1: number
-  cash_deposit_phase1: number
-  stamp_duty: number
-  solicitor_fees: number
-  agent_fee: number
-  renovation_cost: number
-  renovation_mgmt_fee: number
-  mortgage_rate_phase1: number
-  revaluation_estimate: number
-  market_value_est: number
-  market_value_basis: string
-  deposit_pct_phase2: number
-  equity_release: number
-  mortgage_rate_phase2: number
-  annual_rent_phase2: number
-  bills_phase2: number
-  management_phase2: number
-  provision_costs_phase2: number
-  provision_voids_phase2: number
-  beds_phase2: number
-  notes_phase2: string | null
-  property_link: string | null
-}
-
-interface CapitalTransaction {
-  transaction_id: string
-  property_id: string
-  date: string
-  type: string
-  description: string
-  amount: number
-}
-
-interface Scenario {
-  scenario_id: string
-  property_id: string
-  scenario_label: string
-  revaluation_estimate: number
-  deposit_pct_phase2: number
-  equity_release: number
-  mortgage_rate_phase2: number
-  annual_rent_phase2: number
-}
-
-interface Valuation {
-  id: number
-  property_id: string | null
-  date: string
-  value: number
-  source: string
-  address: string
-}
-
 // ─── Formatters ───────────────────────────────────────────────────────────────
 function fmt(n: number) {
   return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
@@ -119,24 +61,6 @@ function fmtMonthYear(dateStr: string) {
   return d.toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
 }
 
-// ─── Actuals helper: sum capital_transactions by type + description keywords ──
-function getCapActual(
-  txns: CapitalTransaction[],
-  type: string,
-  descIncludes?: string[],
-  descExcludes?: string[],
-): number | null {
-  const filtered = txns.filter(t => {
-    if (t.type !== type) return false
-    const d = (t.description || '').toLowerCase()
-    if (descIncludes?.length && !descIncludes.some(k => d.includes(k.toLowerCase()))) return false
-    if (descExcludes?.length && descExcludes.some(k => d.includes(k.toLowerCase()))) return false
-    return true
-  })
-  if (!filtered.length) return null
-  return Math.abs(filtered.reduce((s, t) => s + (t.amount ?? 0), 0))
-}
-
 // ─── KPI Card ─────────────────────────────────────────────────────────────────
 function KpiCard({ label, value, sub, color }: { label: string; value: string; sub?: string; color?: string }) {
   const accent = color || GOLD
@@ -383,19 +307,28 @@ function SectionHeading({ children }: { children: React.ReactNode }) {
 
 // ─── Main component ───────────────────────────────────────────────────────────
 export default function PropertySelector({
+  data,
   selectedId: externalId,
   onSelectId,
+  entityId = '',
+  canEdit = false,
 }: {
+  data: DashboardData
   selectedId?: string
   onSelectId?: (id: string) => void
-} = {}) {
-  const [properties, setProperties] = useState<Property[]>([])
-  const [capitalTransactions, setCapitalTransactions] = useState<CapitalTransaction[]>([])
-  const [scenarios, setScenarios] = useState<Scenario[]>([])
-  const [valuations, setValuations] = useState<Valuation[]>([])
-  const [opTransactions, setOpTransactions] = useState<any[]>([])   // operational P&L ledger
-  const [internalId, setInternalId] = useState<string>('')
-  const [loading, setLoading] = useState(true)
+  entityId?: string   // '' = the whole portfolio
+  canEdit?: boolean
+}) {
+  const {
+    properties, capitalTransactions, scenarios, mortgages, valuations, ledger, tenancies, occupancyPeriods,
+    owners, propertyOwners, taxBands,
+  } = data
+  const [internalId, setInternalId] = useState<string>(properties[0]?.property_id ?? '')
+  const [annualMethod, setAnnualMethod] = useState<AnnualisationMethod>('auto')
+  const today = new Date().toISOString().slice(0, 10)
+  // Each entity's tax on the projected profit; an entity's tax depends on all it holds
+  const tax = portfolioTax(properties, mortgages, owners, propertyOwners, taxBands, today)
+  const taxed = tax.properties.some(t => t.tax !== null)
 
   // Hide internal picker whenever a parent is managing selection (onSelectId provided)
   const hasParent = onSelectId !== undefined
@@ -406,71 +339,41 @@ export default function PropertySelector({
     onSelectId?.(id)
   }
 
-  useEffect(() => {
-    async function fetchAll() {
-      const [
-        { data: props },
-        { data: txns },
-        { data: scens },
-        { data: vals },
-        { data: ops },
-      ] = await Promise.all([
-        supabase.from('properties_master').select('*').order('property_id'),
-        supabase.from('capital_transactions').select('*').order('property_id'),
-        supabase.from('scenarios').select('*').order('property_id'),
-        supabase.from('valuations').select('*').in('address', TARGET_ADDRESSES).order('date'),
-        supabase.from('transactions').select('*'),
-      ])
-      if (props && props.length > 0) {
-        setProperties(props)
-        setInternalId(props[0].property_id)
-      }
-      if (txns) setCapitalTransactions(txns)
-      if (scens) setScenarios(scens)
-      if (vals) setValuations(vals)
-      if (ops) setOpTransactions(ops)
-      setLoading(false)
-    }
-    fetchAll()
-  }, [])
-
-  if (loading) {
-    return (
-      <div style={{ marginTop: 32, background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, padding: 28, display: 'flex', alignItems: 'center', gap: 10 }}>
-        <div style={{ width: 6, height: 6, borderRadius: '50%', background: GOLD }} />
-        <span style={{ color: TEXT3, fontSize: 12, letterSpacing: '1px', textTransform: 'uppercase' }}>
-          Loading property data
-        </span>
-      </div>
-    )
-  }
-
   // ─── Portfolio aggregate view (when "All Properties" selected) ───────────────
   const showAll = hasParent && (!externalId || externalId === '')
 
   if (showAll && properties.length > 0) {
-    const rows = properties.map(p => {
-      const netCash = p.cash_deposit_phase1 + p.stamp_duty + p.solicitor_fees +
-        p.agent_fee + p.renovation_cost + p.renovation_mgmt_fee - p.equity_release
-      const mortgage = p.revaluation_estimate * (1 - p.deposit_pct_phase2)
-      const opCosts = p.management_phase2 + p.provision_costs_phase2 +
-        p.provision_voids_phase2 + (p.bills_phase2 || 0)
-      const cashflow = p.annual_rent_phase2 - opCosts - (mortgage * p.mortgage_rate_phase2)
-      const eq = p.market_value_est - mortgage
-      const roi = netCash > 0 ? (cashflow / netCash) * 100 : 0
-      const grossYield = (p.annual_rent_phase2 / p.market_value_est) * 100
-      return { p, netCash, cashflow, eq, roi, grossYield }
+    // An entity's view is its share of each property it holds; ratios are unaffected
+    const entity = holdingEntities(owners, properties, propertyOwners).find(o => o.id === entityId)
+    const entityTax = entity && tax.owners.find(t => t.owner.id === entity.id)
+    const held = entity ? holdings(entity, properties, propertyOwners) : properties.map(property => ({ property, share: 1 }))
+    const rows = held.map(({ property: p, share }) => {
+      const k = propertyKpis(p, debtPosition(mortgages.filter(m => m.property_id === p.property_id), today))
+      const postTax = entityTax
+        ? share * k.annualCashflow - (entityTax.byProperty.get(p.property_id) ?? 0)
+        : tax.properties.find(t => t.property.property_id === p.property_id)?.postTaxCashflow ?? null
+      return {
+        p, share, mv: share * p.market_value_est, rent: share * p.annual_rent_phase2,
+        netCash: share * k.netCashInvested, cashflow: share * k.annualCashflow, eq: share * k.equity,
+        roi: k.roi, grossYield: k.grossYield, postTax,
+      }
     })
 
     const totEquity    = rows.reduce((s, r) => s + r.eq, 0)
     const totCashflow  = rows.reduce((s, r) => s + r.cashflow, 0)
     const totNetCash   = rows.reduce((s, r) => s + r.netCash, 0)
-    const totMV        = properties.reduce((s, p) => s + p.market_value_est, 0)
-    const totRent      = properties.reduce((s, p) => s + p.annual_rent_phase2, 0)
+    const totMV        = rows.reduce((s, r) => s + r.mv, 0)
+    const totRent      = rows.reduce((s, r) => s + r.rent, 0)
+    const totTax       = entityTax ? entityTax.taxOnProperty : tax.tax
+    const totPostTax   = entityTax ? totCashflow - totTax : tax.postTaxCashflow
+    const untaxed      = rows.filter(r => r.postTax === null).length
+    const taxName      = !entity ? 'tax' : entity.kind === 'company' ? 'corporation tax' : 'income tax'
     const portROI      = totNetCash > 0 ? (totCashflow / totNetCash) * 100 : 0
     const portYield    = (totRent / totMV) * 100
     const cfColor      = totCashflow >= 0 ? GREEN : RED
     const roiColor     = portROI >= 10 ? GREEN : portROI >= 0 ? AMBER : RED
+    const occupancy    = portfolioOccupancy(rows.map(r => r.p), tenancies, occupancyPeriods, today)
+    const totVoidProv  = rows.reduce((s, r) => s + r.p.provision_voids_phase2, 0)
 
     return (
       <div style={{ fontFamily: FONT, color: TEXT }}>
@@ -480,28 +383,48 @@ export default function PropertySelector({
           <span style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '3px', fontWeight: 600 }}>
             Property Analysis
           </span>
-          <span style={{ fontSize: 11, color: TEXT3, marginLeft: 8 }}>Portfolio · {properties.length} properties</span>
+          <span style={{ fontSize: 11, color: TEXT3, marginLeft: 8 }}>
+            {entity
+              ? `${entity.name} · ${OWNER_KIND_LABELS[entity.kind]} · ${rows.length} ${rows.length === 1 ? 'property' : 'properties'}`
+              : `Portfolio · ${properties.length} properties`}
+          </span>
         </div>
 
         {/* Aggregate KPI cards */}
         <div style={{ display: 'flex', gap: 12, marginBottom: 20, flexWrap: 'wrap' }}>
-          <KpiCard label="Total Equity" value={`£${fmt(totEquity)}`} sub={`${((totEquity / totMV) * 100).toFixed(0)}% of £${fmt(totMV)} portfolio value`} color={BLUE} />
-          <KpiCard label="Portfolio ROI" value={fmtPct(portROI)} sub={`£${fmt(totNetCash)} net deployed`} color={roiColor} />
+          <KpiCard label="Total Equity" value={`£${fmt(totEquity)}`} sub={`${((totEquity / totMV) * 100).toFixed(0)}% of £${fmt(totMV)} ${entity ? 'share of value' : 'portfolio value'}`} color={BLUE} />
+          <KpiCard label={entity ? 'Entity ROI' : 'Portfolio ROI'} value={fmtPct(portROI)} sub={`£${fmt(totNetCash)} net deployed`} color={roiColor} />
           <KpiCard label="Gross Yield" value={fmtPct(portYield)} sub={`£${fmt(totRent)} annual rent`} color="#a78bfa" />
           <KpiCard label="Annual Cashflow" value={`£${fmt(totCashflow)}`} sub={`£${fmt(Math.round(totCashflow / 12))} / month`} color={cfColor} />
+          {taxed && (
+            <KpiCard
+              label="Post-tax Cashflow"
+              value={`£${fmt(totPostTax)}`}
+              sub={`£${fmt(totTax)} est. ${taxName}${untaxed > 0 ? ` · ${untaxed} without owners` : ''}`}
+              color={totPostTax >= 0 ? GREEN : RED}
+            />
+          )}
+          {occupancy.occupancyPct !== null && (
+            <KpiCard
+              label="Occupancy (12 mo)"
+              value={fmtPct(occupancy.occupancyPct)}
+              sub={`£${fmt(occupancy.rentLostAnn)} lost to voids vs £${fmt(totVoidProv)} provision`}
+              color={occupancy.rentLostAnn <= totVoidProv ? GREEN : RED}
+            />
+          )}
         </div>
 
         {/* Per-property table */}
         <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden' }}>
           <div style={{ padding: '12px 18px', borderBottom: `1px solid ${BORDER2}` }}>
             <span style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
-              Portfolio Breakdown
+              {entity ? `${entity.name} Breakdown` : 'Portfolio Breakdown'}
             </span>
           </div>
           <table style={{ width: '100%', borderCollapse: 'collapse' }}>
             <thead>
               <tr style={{ background: SURFACE2 }}>
-                {['Property', 'Market Value', 'Equity', 'Net Cash In', 'Ann. Cashflow', 'ROI', 'Gross Yield'].map(h => (
+                {['Property', ...(taxed ? [entity ? 'Share' : 'Holding'] : []), 'Market Value', 'Equity', 'Net Cash In', 'Ann. Cashflow', ...(taxed ? ['Post-tax CF'] : []), 'ROI', 'Gross Yield', 'Occupancy'].map(h => (
                   <th key={h} align={h === 'Property' ? 'left' : 'right'} style={{
                     padding: '8px 14px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
                     letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`,
@@ -510,17 +433,24 @@ export default function PropertySelector({
               </tr>
             </thead>
             <tbody>
-              {rows.map(({ p, netCash, cashflow, eq, roi, grossYield }, i) => {
+              {rows.map(({ p, share, mv, netCash, cashflow, eq, roi, grossYield, postTax }, i) => {
                 const rowCfColor = cashflow >= 0 ? GREEN : RED
                 const rowRoiColor = roi >= 10 ? GREEN : roi >= 0 ? AMBER : RED
+                const occ = occupancy.stats[i].stats
+                const structure = holdingStructure(p.property_id, owners, propertyOwners)
                 return (
                   <tr key={p.property_id} style={{ background: i % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)', cursor: 'pointer' }}
                     onClick={() => onSelectId?.(p.property_id)}>
                     <td style={{ padding: '8px 14px', fontSize: 12, color: TEXT2, borderBottom: `1px solid ${BORDER}` }}>
                       {p.address.split(',')[0]}
                     </td>
+                    {taxed && (
+                      <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: TEXT3, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
+                        {entity ? fmtPct(share * 100) : structure ? HOLDING_STRUCTURE_LABELS[structure] : '—'}
+                      </td>
+                    )}
                     <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: TEXT, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
-                      £{fmt(p.market_value_est)}
+                      £{fmt(mv)}
                     </td>
                     <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: BLUE, fontWeight: 600, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
                       £{fmt(eq)}
@@ -531,12 +461,20 @@ export default function PropertySelector({
                     <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: rowCfColor, fontWeight: 600, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
                       £{fmt(cashflow)}
                     </td>
+                    {taxed && (
+                      <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: postTax === null ? TEXT3 : postTax >= 0 ? GREEN : RED, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
+                        {postTax === null ? '—' : `£${fmt(postTax)}`}
+                      </td>
+                    )}
                     <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: rowRoiColor, fontWeight: 600, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
                       {fmtPct(roi)}
                     </td>
                     <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: '#a78bfa', fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
                       {fmtPct(grossYield)}
                     </td>
+                    <td align="right" style={{ padding: '8px 14px', fontSize: 12, color: occ ? TEXT2 : TEXT3, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
+                      {occ ? fmtPct(occ.occupancyPct) : '—'}
+                    </td>
                   </tr>
                 )
               })}
@@ -544,8 +482,9 @@ export default function PropertySelector({
             <tfoot>
               <tr style={{ background: SURFACE2 }}>
                 <td style={{ padding: '10px 14px', fontSize: 11, color: TEXT3, fontWeight: 600, textTransform: 'uppercase', letterSpacing: '1px', borderTop: `1px solid ${BORDER2}` }}>
-                  Portfolio Total
+                  {entity ? 'Entity Total' : 'Portfolio Total'}
                 </td>
+                {taxed && <td style={{ borderTop: `1px solid ${BORDER2}` }} />}
                 <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: TEXT, fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
                   £{fmt(totMV)}
                 </td>
@@ -558,12 +497,20 @@ export default function PropertySelector({
                 <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: cfColor, fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
                   £{fmt(totCashflow)}
                 </td>
+                {taxed && (
+                  <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: totPostTax >= 0 ? GREEN : RED, fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
+                    £{fmt(totPostTax)}
+                  </td>
+                )}
                 <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: roiColor, fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
                   {fmtPct(portROI)}
                 </td>
                 <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: '#a78bfa', fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
                   {fmtPct(portYield)}
                 </td>
+                <td align="right" style={{ padding: '10px 14px', fontSize: 12, fontWeight: 700, color: TEXT, fontVariantNumeric: 'tabular-nums', borderTop: `1px solid ${BORDER2}` }}>
+                  {occupancy.occupancyPct !== null ? fmtPct(occupancy.occupancyPct) : '—'}
+                </td>
               </tr>
             </tfoot>
           </table>
@@ -576,23 +523,13 @@ export default function PropertySelector({
   if (!property) return null
 
   // ─── Core calculations ─────────────────────────────────────────────────────
-  const totalCashInvested =
-    property.cash_deposit_phase1 + property.stamp_duty + property.solicitor_fees +
-    property.agent_fee + property.renovation_cost + property.renovation_mgmt_fee
-
-  const netCashInvested = totalCashInvested - property.equity_release
-  const outstandingMortgage = property.revaluation_estimate * (1 - property.deposit_pct_phase2)
-  const annualMortgageInterest = outstandingMortgage * property.mortgage_rate_phase2
-  const annualOperatingCosts =
-    property.management_phase2 + property.provision_costs_phase2 +
-    property.provision_voids_phase2 + (property.bills_phase2 || 0)
-
-  const annualCashflow = property.annual_rent_phase2 - annualOperatingCosts - annualMortgageInterest
-  const monthlyCashflow = annualCashflow / 12
-  const roi = netCashInvested > 0 ? (annualCashflow / netCashInvested) * 100 : 0
-  const equity = property.market_value_est - outstandingMortgage
-  const grossYield = (property.annual_rent_phase2 / property.market_value_est) * 100
-  const netYield = ((property.annual_rent_phase2 - annualOperatingCosts) / property.market_value_est) * 100
+  // A recorded mortgage's schedule replaces the interest-only assumption
+  const propMortgages = mortgages.filter(m => m.property_id === selectedId)
+  const debt = debtPosition(propMortgages, today)
+  const {
+    totalCashInvested, netCashInvested, outstandingMortgage, annualMortgageInterest, annualCapitalRepayment,
+    annualCashflow, monthlyCashflow, roi, equity, grossYield, netYield,
+  } = propertyKpis(property, debt)
 
   const propTxns = capitalTransactions.filter(t => t.property_id === selectedId)
   const propScenarios = scenarios.filter(s => s.property_id === selectedId)
@@ -600,13 +537,14 @@ export default function PropertySelector({
   const roiColor = roi >= 10 ? GREEN : roi >= 0 ? AMBER : RED
 
   // ─── Capital transaction actuals (Investment Summary panel) ────────────────
-  const actualPurchasePrice   = getCapActual(propTxns, 'purchase')
-  const actualStampDuty       = getCapActual(propTxns, 'acquisition_cost', ['stamp', 'sdlt', 'duty'])
-  const actualSolicitorFees   = getCapActual(propTxns, 'acquisition_cost', ['solicitor', 'legal', 'convey', 'mortgage fee', 'legal fee'])
-  const actualAgentFee        = getCapActual(propTxns, 'acquisition_cost', ['agent', 'sourc', 'finder', 'introduc'])
-  const actualRenovCost       = getCapActual(propTxns, 'renovation', undefined, ['manag', 'mgmt', 'project manage'])
-  const actualRenovMgmt       = getCapActual(propTxns, 'renovation', ['manag', 'mgmt', 'project manage'])
-  const actualEquityReleased  = getCapActual(propTxns, 'refinance')
+  const actualPurchasePrice   = capitalActual(propTxns, 'purchase_price')
+  const actualStampDuty       = capitalActual(propTxns, 'stamp_duty')
+  const actualSolicitorFees   = capitalActual(propTxns, 'solicitor_fees')
+  const actualAgentFee        = capitalActual(propTxns, 'agent_fee')
+  const actualRenovCost       = capitalActual(propTxns, 'renovation')
+  const actualRenovMgmt       = capitalActual(propTxns, 'renovation_mgmt')
+  const actualEquityReleased  = capitalActual(propTxns, 'equity_release')
+  const unclassifiedCount     = propTxns.filter(t => !t.subcategory).length
 
   // Total deployed actual: sum of all non-refinance capital transactions
   const nonRefinanceTxns = propTxns.filter(t => t.type !== 'refinance')
@@ -622,34 +560,31 @@ export default function PropertySelector({
     : null
 
   // ─── Operational transaction actuals (Income & Running Costs panel) ─────────
-  // Match transactions by property address (partial match on street name)
-  const addrKey = property.address.split(',')[0].trim().toLowerCase()
-  const propOpTxns = opTransactions.filter(t =>
-    String(t['Property address'] || '').toLowerCase().includes(addrKey)
-  )
-
-  // Helper: count distinct calendar months (YYYY-MM) for a set of transactions
-  const distinctMonths = (txns: typeof propOpTxns) =>
-    new Set(txns.filter(t => t['Item date']).map(t => String(t['Item date']).slice(0, 7))).size
-
-  // Raw period totals per type
-  const rentTxns  = propOpTxns.filter(t => t['Item type'] === 'Rent Paid')
-  const feeTxns   = propOpTxns.filter(t => t['Item type'] === 'Fee')
-  const utilTxns  = propOpTxns.filter(t => t['Item type'] === 'Utilities')
+  const propOpTxns = ledger.filter(t => t.property_id === selectedId)
 
-  const rawRent  = rentTxns.reduce((s, t) => s + Number(t['Item amount inc VAT'] ?? 0), 0)
-  const rawFees  = feeTxns.reduce((s, t) => s + Number(t['Item amount inc VAT'] ?? 0), 0)
-  const rawUtils = utilTxns.reduce((s, t) => s + Number(t['Item amount inc VAT'] ?? 0), 0)
+  const rentTxns  = propOpTxns.filter(t => t.type === RENT_TYPE)
+  const feeTxns   = propOpTxns.filter(t => t.type === 'Fee')
+  const utilTxns  = propOpTxns.filter(t => t.type === 'Utilities')
 
   const rentMonths  = distinctMonths(rentTxns)
   const feeMonths   = distinctMonths(feeTxns)
   const utilMonths  = distinctMonths(utilTxns)
 
-  // Annualised actuals — formula: sum ÷ distinct months × 12
+  // Annualised actuals — trailing year where there is one, otherwise scaled up by the
+  // chosen method; utilities can follow the portfolio's seasonal profile.
   // null when no data exists for this property/type
-  const actualRentAnn  = rentMonths  > 0 && rawRent  !== 0 ? (rawRent  / rentMonths)           * 12 : null
-  const actualMgmtAnn  = feeMonths   > 0 && rawFees  !== 0 ? (Math.abs(rawFees)  / feeMonths)  * 12 : null
-  const actualBillsAnn = utilMonths  > 0 && rawUtils !== 0 ? (Math.abs(rawUtils) / utilMonths) * 12 : null
+  const utilProfile = seasonalProfile(ledger.filter(t => t.type === 'Utilities'))
+  const rentAnn  = annualise(rentTxns, annualMethod)
+  const feeAnn   = annualise(feeTxns, annualMethod)
+  const utilAnn  = annualise(utilTxns, annualMethod, utilProfile)
+  const actualRentAnn  = rentAnn ? rentAnn.value : null
+  const actualMgmtAnn  = feeAnn ? Math.abs(feeAnn.value) : null
+  const actualBillsAnn = utilAnn ? Math.abs(utilAnn.value) : null
+
+  // Rent lost to voids over the last year, from tenancies and occupancy entries
+  const occupancy = occupancyStats(property, tenancies, occupancyPeriods, today)
+  const propertyTax = tax.properties.find(t => t.property.property_id === selectedId)
+  const propertyStructure = holdingStructure(property.property_id, owners, propertyOwners)
 
   // opMonths: representative month count for the note label (max across types that have data)
   const opMonths = Math.max(rentMonths, feeMonths, utilMonths)
@@ -662,13 +597,18 @@ export default function PropertySelector({
   if (actualBillsAnn !== null) incomeActualItems.push({ a: -actualBillsAnn, p: -(property.bills_phase2 || 0) })
   const incomeActualPartial    = incomeActualItems.length > 0 ? incomeActualItems.reduce((s, i) => s + i.a, 0) : null
   const incomeProjectedPartial = incomeActualItems.length > 0 ? incomeActualItems.reduce((s, i) => s + i.p, 0) : null
-  const incomePartialNote = opMonths > 1
-    ? `Annualised · ${opMonths} months of data`
-    : opMonths === 1 ? 'Annualised · 1 month of data' : undefined
+  const annualised = [
+    ...(rentAnn ? [{ label: 'Rent', a: rentAnn }] : []),
+    ...(feeAnn  ? [{ label: 'Fees', a: feeAnn }] : []),
+    ...(utilAnn ? [{ label: 'Bills', a: utilAnn }] : []),
+  ]
+  const incomePartialNote = annualised.length > 0
+    ? `${annualised.map(({ label, a }) => `${label} ${describeAnnualised(a)}`).join(' · ')} · ${lowestConfidence(annualised.map(({ a }) => a))} confidence`
+    : undefined
 
   // ─── Appreciation chart data ───────────────────────────────────────────────
   const propValuations = valuations
-    .filter(v => v.address === property.address)
+    .filter(v => v.property_id === property.property_id)
     .sort((a, b) => a.date.localeCompare(b.date))
 
   type ChartPoint = { date: string; value: number; label: string }
@@ -942,7 +882,7 @@ export default function PropertySelector({
               <div style={{ fontSize: 9, color: GOLD, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4, fontWeight: 700 }}>Capital Recovered</div>
               <div style={{ fontSize: 16, fontWeight: 700, color: GOLD, fontVariantNumeric: 'tabular-nums' }}>{fmtMonthYear(breakevenDate)}</div>
               <div style={{ fontSize: 10, color: TEXT3, marginTop: 3 }}>
-                {new Date(breakevenDate) <= new Date('2026-02-27') ? 'Already achieved' : `Projected · target £${fmt(breakevenTarget)}`}
+                {breakevenDate <= today ? 'Already achieved' : `Projected · target £${fmt(breakevenTarget)}`}
               </div>
             </div>
           )}
@@ -982,6 +922,12 @@ export default function PropertySelector({
           {[actualPurchasePrice, actualStampDuty, actualSolicitorFees, actualAgentFee, actualRenovCost, actualRenovMgmt, actualEquityReleased, actualTotalDeployed, actualNetCashInDeal].some(a => a === null) && (
             <NotesKey notes={[{ index: 1, text: 'Budgeted figure shown — no matching entry recorded in capital transactions' }]} />
           )}
+          {unclassifiedCount > 0 && (
+            <div style={{ fontSize: 11, color: AMBER, marginTop: 10 }}>
+              {unclassifiedCount} capital transaction{unclassifiedCount === 1 ? '' : 's'} not yet classified — counted in totals only.
+              {canEdit && <> <Link href="/capital/review" style={{ color: GOLD }}>Review</Link></>}
+            </div>
+          )}
         </div>
 
         {/* ── INCOME & RUNNING COSTS ──────────────────────────────────── */}
@@ -989,27 +935,50 @@ export default function PropertySelector({
           <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', marginBottom: 14 }}>
             <SectionHeading>Income & Running Costs (Phase 2)</SectionHeading>
             {opMonths > 0 && (
-              <span style={{ fontSize: 10, color: TEXT3, fontStyle: 'italic', whiteSpace: 'nowrap', marginLeft: 8 }}>
+              <span style={{ fontSize: 10, color: TEXT3, fontStyle: 'italic', whiteSpace: 'nowrap', marginLeft: 8, display: 'flex', alignItems: 'center', gap: 6 }}>
                 Actual = ann. · {Math.round(opMonths)}mo data
+                <select
+                  value={annualMethod}
+                  onChange={e => setAnnualMethod(e.target.value as AnnualisationMethod)}
+                  title="Annualisation method"
+                  style={{
+                    background: SURFACE2, color: TEXT2, border: `1px solid ${BORDER2}`, borderRadius: 3,
+                    padding: '2px 4px', fontSize: 10, fontFamily: FONT, fontStyle: 'normal', outline: 'none', cursor: 'pointer',
+                  }}
+                >
+                  {ANNUALISATION_METHODS.map(m => <option key={m} value={m}>{ANNUALISATION_LABELS[m]}</option>)}
+                </select>
               </span>
             )}
           </div>
           <PanelColHeaders col2="Projected" col3="Actual (ann.)" />
 
           <StatRow label="Beds" value={String(property.beds_phase2)} />
+          {occupancy && (
+            <StatRow label="Occupancy (12 mo)" value={`${fmtPct(occupancy.occupancyPct)} · ${fmt(occupancy.voidBedDays)} void bed-days`} />
+          )}
           <IncomeRow label="Annual rent"                projected={property.annual_rent_phase2}      actual={actualRentAnn}  isIncome  noteIndex={1} />
           <div style={{ height: 1, background: BORDER2, margin: '8px 0 4px' }} />
           <IncomeRow label="Management"                 projected={property.management_phase2}       actual={actualMgmtAnn}             noteIndex={1} />
           <IncomeRow label="Maintenance provision"      projected={property.provision_costs_phase2}  actual={null}                      noteIndex={2} />
-          <IncomeRow label="Void provision"             projected={property.provision_voids_phase2}  actual={null}                      noteIndex={2} />
+          <IncomeRow label="Void provision"             projected={property.provision_voids_phase2}  actual={occupancy?.rentLostAnn ?? null} noteIndex={4} />
           {property.bills_phase2 > 0 && (
             <IncomeRow label="Bills"                    projected={property.bills_phase2}            actual={actualBillsAnn}            noteIndex={1} />
           )}
           <IncomeRow label="Mortgage interest (p.a.)"  projected={annualMortgageInterest}           actual={null}                      noteIndex={3} />
-          <StatRow   label="Mortgage rate"             value={`${(property.mortgage_rate_phase2 * 100).toFixed(1)}%`} />
+          {annualCapitalRepayment > 0 && (
+            <IncomeRow label="Capital repayment (p.a.)" projected={annualCapitalRepayment}          actual={null}                      noteIndex={3} />
+          )}
+          <StatRow   label="Mortgage rate"             value={`${((debt ? debt.rate : property.mortgage_rate_phase2) * 100).toFixed(2)}%`} />
           <div style={{ height: 1, background: BORDER2, margin: '8px 0 4px' }} />
           <StatRow label="Annual cashflow"  value={`£${fmt(annualCashflow)}`}   highlight />
           <StatRow label="Monthly cashflow" value={`£${fmt(monthlyCashflow)}`}  highlight />
+          {propertyTax && propertyTax.tax !== null && propertyTax.postTaxCashflow !== null && (
+            <>
+              <StatRow label="Tax (est.)"               value={`£${fmt(propertyTax.tax)}${propertyStructure ? ` · ${HOLDING_STRUCTURE_LABELS[propertyStructure]}` : ''}${propertyTax.owned < 1 ? ` · ${(propertyTax.owned * 100).toFixed(0)}% recorded` : ''}`} />
+              <StatRow label="Post-tax annual cashflow" value={`£${fmt(propertyTax.postTaxCashflow)}`} highlight />
+            </>
+          )}
 
           {incomeActualPartial !== null && incomeProjectedPartial !== null && (
             <ActualsTotalBar
@@ -1023,7 +992,10 @@ export default function PropertySelector({
           <NotesKey notes={[
             ...((!actualRentAnn || !actualMgmtAnn || !actualBillsAnn) ? [{ index: 1, text: 'Projected figure shown — no transactions found in the P&L ledger for this category' }] : []),
             { index: 2, text: 'Projected figure shown — provision estimate only, not tracked as a direct cash cost' },
-            { index: 3, text: 'Projected figure shown — derived from mortgage rate × outstanding balance' },
+            { index: 3, text: debt
+              ? `Projected figure shown — next 12 payments of the ${debt.mortgage.lender} mortgage schedule`
+              : 'Projected figure shown — derived from mortgage rate × outstanding balance' },
+            ...(!occupancy ? [{ index: 4, text: 'Projected figure shown — no tenancies or occupancy entries recorded; actual is rent lost to void beds' }] : []),
           ]} />
         </div>
 
@@ -1034,7 +1006,9 @@ export default function PropertySelector({
           <StatRow label="Market Value Estimate"    value={`£${fmt(property.market_value_est)}`} />
           <StatRow label="Basis"                    value={property.market_value_basis} />
           <div style={{ height: 1, background: BORDER2, margin: '10px 0 6px' }} />
-          <StatRow label="LTV (Phase 2)"            value={`${((1 - property.deposit_pct_phase2) * 100).toFixed(0)}%`} />
+          {debt
+            ? <StatRow label="LTV (vs market value)" value={`${((outstandingMortgage / property.market_value_est) * 100).toFixed(0)}%`} />
+            : <StatRow label="LTV (Phase 2)"         value={`${((1 - property.deposit_pct_phase2) * 100).toFixed(0)}%`} />}
           <StatRow label="Outstanding mortgage"     value={`£${fmt(outstandingMortgage)}`} />
           <StatRow label="Equity (vs market value)" value={`£${fmt(equity)}`} highlight />
           {property.notes_phase2 && (
@@ -1043,73 +1017,23 @@ export default function PropertySelector({
               <StatRow label="Notes" value={property.notes_phase2} />
             </>
           )}
-          {propTxns.length > 0 && (
+          {(propTxns.length > 0 || canEdit) && (
             <>
               <div style={{ height: 1, background: BORDER2, margin: '14px 0 10px' }} />
-              <SectionHeading>Capital Transactions</SectionHeading>
-              {propTxns.map(t => (
-                <StatRow
-                  key={t.transaction_id}
-                  label={`${t.date} · ${t.description}`}
-                  value={`${t.amount < 0 ? '-' : '+'}£${fmt(Math.abs(t.amount))}`}
-                />
-              ))}
+              <CapitalTransactions propertyId={property.property_id} transactions={propTxns} canEdit={canEdit} />
             </>
           )}
         </div>
       </div>
 
+      {/* ── MORTGAGES ───────────────────────────────────────────────────── */}
+      {(propMortgages.length > 0 || canEdit) && (
+        <Mortgages key={property.property_id} property={property} mortgages={propMortgages} today={today} canEdit={canEdit} />
+      )}
+
       {/* ── SCENARIOS TABLE ────────────────────────────────────────────── */}
-      {propScenarios.length > 0 && (
-        <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden' }}>
-          <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center' }}>
-            <SectionHeading>Scenario Analysis</SectionHeading>
-          </div>
-          <div style={{ overflowX: 'auto' }}>
-            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
-              <thead>
-                <tr style={{ background: SURFACE2 }}>
-                  {['Scenario', 'Base Case Revaluation', 'Equity Release', 'Mortgage Rate', 'Annual Rent', 'Cashflow / mo', 'ROI'].map((h, i) => (
-                    <th key={h} align={i === 0 ? 'left' : 'right'}
-                      style={{ padding: '9px 14px', color: TEXT3, fontWeight: 600, fontSize: 10, textTransform: 'uppercase', letterSpacing: '1px', borderBottom: `1px solid ${BORDER2}` }}>
-                      {h}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {propScenarios.map((s, idx) => {
-                  const sMortgage = s.revaluation_estimate * (1 - s.deposit_pct_phase2)
-                  const sMortgageInterest = sMortgage * s.mortgage_rate_phase2
-                  const sNetCashIn = totalCashInvested - s.equity_release
-                  const sCashflow = s.annual_rent_phase2 - annualOperatingCosts - sMortgageInterest
-                  const sRoi = sNetCashIn > 0 ? (sCashflow / sNetCashIn) * 100 : 0
-                  const cfColor = sCashflow >= 0 ? GREEN : RED
-                  const roiC = sRoi >= 10 ? GREEN : sRoi >= 0 ? AMBER : RED
-                  return (
-                    <tr key={s.scenario_id}
-                      style={{ background: idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)', borderBottom: `1px solid ${BORDER}` }}>
-                      <td style={{ padding: '9px 14px', fontWeight: 600, color: TEXT }}>{s.scenario_label}</td>
-                      <td align="right" style={{ padding: '9px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>£{fmt(s.revaluation_estimate)}</td>
-                      <td align="right" style={{ padding: '9px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>£{fmt(s.equity_release)}</td>
-                      <td align="right" style={{ padding: '9px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>{(s.mortgage_rate_phase2 * 100).toFixed(1)}%</td>
-                      <td align="right" style={{ padding: '9px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>£{fmt(s.annual_rent_phase2)}</td>
-                      <td align="right" style={{ padding: '9px 14px', fontWeight: 600, color: cfColor, fontVariantNumeric: 'tabular-nums' }}>£{fmt(sCashflow / 12)}</td>
-                      <td align="right" style={{ padding: '9px 14px' }}>
-                        <span style={{
-                          background: sRoi >= 10 ? 'rgba(34,197,94,0.10)' : sRoi >= 0 ? 'rgba(245,158,11,0.10)' : 'rgba(239,68,68,0.10)',
-                          color: roiC, fontWeight: 700, fontSize: 11, borderRadius: 3, padding: '2px 8px', fontVariantNumeric: 'tabular-nums',
-                        }}>
-                          {fmtPct(sRoi)}
-                        </span>
-                      </td>
-                    </tr>
-                  )
-                })}
-              </tbody>
-            </table>
-          </div>
-        </div>
+      {(propScenarios.length > 0 || canEdit) && (
+        <ScenarioAnalysis key={property.property_id} property={property} scenarios={propScenarios} canEdit={canEdit} />
       )}
     </div>
   )
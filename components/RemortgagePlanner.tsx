@@ -0,0 +1,153 @@
+'use client'
+
+import { useState } from 'react'
+import type { Mortgage, Property, Valuation } from '@/lib/models'
+import { PLANNER_MONTHS, remortgageOptions } from '@/lib/remortgage'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const BLUE     = '#4a9eff'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtSigned(n: number) {
+  return `${n >= 0 ? '+' : '-'}£${fmt(Math.abs(n))}`
+}
+function fmtDate(dateStr: string) {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function RemortgagePlanner({ properties, mortgages, valuations }: {
+  properties: Property[]
+  mortgages: Mortgage[]
+  valuations: Valuation[]
+}) {
+  // Percentages as typed; converted to fractions for the model
+  const [targetLtv, setTargetLtv] = useState('75')
+  const [newRate, setNewRate] = useState('5')
+
+  if (mortgages.length === 0) return null
+  const today = new Date().toISOString().slice(0, 10)
+  const ltv = Number(targetLtv) / 100
+  const rate = Number(newRate) / 100
+  const valid = Number.isFinite(ltv) && ltv >= 0 && ltv <= 1 && Number.isFinite(rate) && rate >= 0
+  const options = valid ? remortgageOptions(properties, mortgages, valuations, today, { targetLtv: ltv, newRate: rate }) : []
+  const totalReleased = options.reduce((s, o) => s + Math.max(0, o.equityReleased), 0)
+
+  const input = (value: string, set: (v: string) => void, suffix: string) => (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+      <input
+        value={value}
+        inputMode="decimal"
+        onChange={e => set(e.target.value)}
+        style={{
+          width: 52, background: SURFACE2, color: TEXT, border: `1px solid ${valid ? BORDER2 : RED}`, borderRadius: 3,
+          padding: '4px 6px', fontSize: 11, fontFamily: FONT, outline: 'none', textAlign: 'right',
+        }}
+      />
+      <span style={{ fontSize: 11, color: TEXT3 }}>{suffix}</span>
+    </span>
+  )
+  const th: React.CSSProperties = {
+    padding: '8px 12px', color: TEXT3, fontWeight: 600, fontSize: 10, textTransform: 'uppercase',
+    letterSpacing: '1px', borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+  }
+  const td: React.CSSProperties = { padding: '9px 12px', color: TEXT2, fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }
+  const sub: React.CSSProperties = { fontSize: 10, color: TEXT3, marginTop: 2 }
+  const roiColor = (roi: number) => (roi >= 10 ? GREEN : roi >= 0 ? AMBER : RED)
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginTop: 16 }}>
+      <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Remortgage Planner
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          Fixed rates ending in the next {PLANNER_MONTHS} months
+          {totalReleased > 0 && <> · <span style={{ color: BLUE }}>£{fmt(totalReleased)}</span> releasable</>}
+        </div>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 14, alignItems: 'center', fontSize: 11, color: TEXT3 }}>
+          <span>Target LTV {input(targetLtv, setTargetLtv, '%')}</span>
+          <span>New rate {input(newRate, setNewRate, '%')}</span>
+        </div>
+      </div>
+
+      {options.length === 0 ? (
+        <div style={{ padding: '14px 20px', fontSize: 12, color: TEXT3 }}>
+          {valid ? 'No fixed rates end in this window.' : 'Enter an LTV between 0 and 100% and a rate of 0% or more.'}
+        </div>
+      ) : (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr style={{ background: SURFACE2 }}>
+                {['Property', 'Fixed Until', 'Balance', 'Payment / mo', 'Reversion Shock', 'Valuation', 'New Loan', 'Equity Released', 'Cashflow / mo', 'ROI'].map((h, i) => (
+                  <th key={h} align={i < 2 ? 'left' : 'right'} style={th}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {options.map(o => {
+                const shock = o.paymentAfter - o.paymentBefore
+                return (
+                  <tr key={o.mortgage.id} style={{ borderBottom: `1px solid ${BORDER}` }}>
+                    <td style={{ ...td, color: TEXT }}>
+                      {o.property.address}
+                      <div style={sub}>{o.mortgage.lender}</div>
+                    </td>
+                    <td style={{ ...td, color: o.monthsAway <= 6 ? AMBER : TEXT2 }}>
+                      {fmtDate(o.expiry)}
+                      <div style={sub}>{o.monthsAway <= 0 ? 'This month' : `in ${o.monthsAway} mo`}</div>
+                    </td>
+                    <td align="right" style={td}>£{fmt(o.balance)}</td>
+                    <td align="right" style={td}>
+                      £{fmt(o.paymentBefore)}
+                      <div style={sub}>→ £{fmt(o.paymentAfter)} on reversion</div>
+                    </td>
+                    <td align="right" style={{ ...td, fontWeight: 600, color: shock > 0 ? RED : GREEN }}>
+                      {fmtSigned(shock)}
+                      <div style={sub}>cashflow £{fmt(o.cashflowOnReversion)}/mo</div>
+                    </td>
+                    <td align="right" style={td}>
+                      £{fmt(o.valuation.value)}
+                      <div style={sub}>{o.valuation.date ? `${o.valuation.source} · ${fmtDate(o.valuation.date)}` : o.valuation.source}</div>
+                    </td>
+                    <td align="right" style={td}>£{fmt(o.newLoan)}</td>
+                    <td align="right" style={{ ...td, fontWeight: 600, color: o.equityReleased >= 0 ? BLUE : RED }}>
+                      {fmtSigned(o.equityReleased)}
+                      {o.equityReleased < 0 && <div style={sub}>to pay in</div>}
+                    </td>
+                    <td align="right" style={{ ...td, fontWeight: 600, color: o.cashflowAfter >= 0 ? GREEN : RED }}>
+                      £{fmt(o.cashflowAfter)}
+                      <div style={sub}>now £{fmt(o.cashflowNow)}</div>
+                    </td>
+                    <td align="right" style={{ ...td, fontWeight: 600, color: roiColor(o.roiAfter) }}>
+                      {o.roiAfter.toFixed(1)}%
+                      <div style={sub}>now {o.roiNow.toFixed(1)}%</div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div style={{ padding: '10px 20px', fontSize: 11, color: TEXT3, borderTop: `1px solid ${BORDER}` }}>
+        The new product keeps the loan’s type and remaining term. Equity released comes off the net cash left in the deal, so ROI moves with it.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import type { LedgerEntry, Property, Tenancy } from '@/lib/models'
+import { AGING_BUCKETS, portfolioArrears, type ArrearsMonth } from '@/lib/arrears'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+
+const GRID_MONTHS = 12
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtMonth(month: string) {
+  return new Date(month + '-01T00:00:00').toLocaleDateString('en-GB', { month: 'short', year: '2-digit' })
+}
+
+// Paid in full, part paid, or nothing against rent that was due
+function cellColor(m: ArrearsMonth) {
+  if (m.expected < 0.5) return m.received > 0 ? GREEN : TEXT3
+  if (m.received >= m.expected - 0.5) return GREEN
+  return m.received > 0 ? AMBER : RED
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+// Expected vs received for the last twelve months, with the balance and its aging
+export default function RentArrears({ properties, tenancies, ledger }: {
+  properties: Property[]
+  tenancies: Tenancy[]
+  ledger: LedgerEntry[]
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const { positions, arrears, aging } = portfolioArrears(properties, tenancies, ledger, today)
+  const shown = positions.filter(pos => pos.months.length > 0)
+  if (shown.length === 0) return null
+
+  const months = Array.from(new Set(shown.flatMap(pos => pos.months.map(m => m.month)))).sort().slice(-GRID_MONTHS)
+
+  const th: React.CSSProperties = {
+    padding: '8px 10px', color: TEXT3, fontWeight: 600, fontSize: 10, textTransform: 'uppercase',
+    letterSpacing: '1px', borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+  }
+  const td: React.CSSProperties = { padding: '8px 10px', color: TEXT2, fontVariantNumeric: 'tabular-nums', whiteSpace: 'nowrap' }
+  const sub: React.CSSProperties = { fontSize: 10, color: TEXT3, marginTop: 2 }
+  const money = (n: number, color: string) => n > 0.5 ? <span style={{ color }}>£{fmt(n)}</span> : <span style={{ color: TEXT3 }}>—</span>
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginTop: 16 }}>
+      <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Rent Arrears
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          Received against expected rent ·{' '}
+          {arrears > 0.5 ? <span style={{ color: RED }}>£{fmt(arrears)} outstanding</span> : 'nothing outstanding'}
+        </div>
+      </div>
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr style={{ background: SURFACE2 }}>
+              <th align="left" style={th}>Property</th>
+              {months.map(m => <th key={m} align="right" style={th}>{fmtMonth(m)}</th>)}
+              <th align="right" style={{ ...th, borderLeft: `1px solid ${BORDER2}` }}>Balance</th>
+              {AGING_BUCKETS.map(b => <th key={b} align="right" style={th}>{b} days</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(pos => {
+              const byMonth = new Map(pos.months.map(m => [m.month, m]))
+              return (
+                <tr key={pos.property.property_id} style={{ borderBottom: `1px solid ${BORDER}` }}>
+                  <td style={{ ...td, color: TEXT }}>{pos.property.address}</td>
+                  {months.map(month => {
+                    const m = byMonth.get(month)
+                    if (!m) return <td key={month} align="right" style={{ ...td, color: TEXT3 }}>—</td>
+                    return (
+                      <td key={month} align="right" style={{ ...td, color: cellColor(m) }}>
+                        £{fmt(m.received)}
+                        <div style={sub}>of £{fmt(m.expected)}</div>
+                      </td>
+                    )
+                  })}
+                  <td align="right" style={{ ...td, fontWeight: 600, borderLeft: `1px solid ${BORDER2}`, color: pos.balance > 0.5 ? RED : GREEN }}>
+                    {pos.balance > 0.5 ? `£${fmt(pos.balance)}` : pos.balance < -0.5 ? `£${fmt(-pos.balance)} credit` : '£0'}
+                  </td>
+                  <td align="right" style={td}>{money(pos.aging['0–30'], AMBER)}</td>
+                  <td align="right" style={td}>{money(pos.aging['31–60'], RED)}</td>
+                  <td align="right" style={td}>{money(pos.aging['60+'], RED)}</td>
+                </tr>
+              )
+            })}
+            {shown.length > 1 && (
+              <tr style={{ background: SURFACE2 }}>
+                <td style={{ ...td, color: TEXT, fontWeight: 700 }}>Total</td>
+                {months.map(month => <td key={month} style={td} />)}
+                <td align="right" style={{ ...td, fontWeight: 700, borderLeft: `1px solid ${BORDER2}`, color: arrears > 0.5 ? RED : GREEN }}>
+                  £{fmt(arrears)}
+                </td>
+                <td align="right" style={{ ...td, fontWeight: 700 }}>{money(aging['0–30'], AMBER)}</td>
+                <td align="right" style={{ ...td, fontWeight: 700 }}>{money(aging['31–60'], RED)}</td>
+                <td align="right" style={{ ...td, fontWeight: 700 }}>{money(aging['60+'], RED)}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ padding: '10px 20px', fontSize: 11, color: TEXT3, borderTop: `1px solid ${BORDER}` }}>
+        Expected rent comes from the tenancy register, or projected rent ÷ 12 where no tenancies are recorded.
+        Payments clear the oldest rent first; aging counts days since each unpaid month fell due.
+      </div>
+    </div>
+  )
+}
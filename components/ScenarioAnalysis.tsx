@@ -0,0 +1,346 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Line } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+  type ChartData,
+  type ChartOptions,
+} from 'chart.js'
+import type { Property, Scenario } from '@/lib/models'
+import { scenarioKpis } from '@/lib/calculations'
+import {
+  SCENARIO_FIELDS, cumulativeCash, propertyScenario, scenarioFigures, scenarioFormErrors, toScenarioForm,
+  type ScenarioFormValues, type ScenarioInput,
+} from '@/lib/scenarios'
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend)
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const BLUE     = '#4a9eff'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+// Base case is always gold; the rest take these in turn
+const LINE_COLORS = [BLUE, '#a78bfa', GREEN, AMBER, '#f472b6', '#38bdf8']
+const CHART_YEARS = 10
+// Chart key for the property's own figures when no scenario is the base case
+const PROPERTY_KEY = 'property'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtPct(n: number) {
+  return n.toFixed(1) + '%'
+}
+function fmtSigned(n: number) {
+  return `${n >= 0 ? '+' : '-'}£${fmt(Math.abs(n))}`
+}
+
+function buttonStyle(color: string): React.CSSProperties {
+  return {
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '2px 8px', fontSize: 10, fontWeight: 600, fontFamily: FONT, cursor: 'pointer', whiteSpace: 'nowrap',
+  }
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function ScenarioAnalysis({ property, scenarios, canEdit }: {
+  property: Property
+  scenarios: Scenario[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  // null = no row open, 'new' = adding (or cloning), otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<ScenarioFormValues>(toScenarioForm(propertyScenario(property)))
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const errors = editing !== null ? scenarioFormErrors(form) : {}
+  const live = scenarioFigures(form)
+
+  // Deltas are against the marked base case, or the property's own figures without one
+  const base = scenarios.find(s => s.is_base_case) ?? null
+  const baseKpis = scenarioKpis(property, base ?? propertyScenario(property))
+
+  // Rows as shown: the open row uses what is typed, so its KPIs recalculate live
+  const rows: { key: string; scenario: Scenario | null; input: ScenarioInput }[] = [
+    ...(base ? [] : [{ key: PROPERTY_KEY, scenario: null, input: propertyScenario(property, 'Property assumptions') }]),
+    ...scenarios.map(s => ({ key: s.scenario_id, scenario: s, input: editing === s.scenario_id ? live : s })),
+    ...(editing === 'new' ? [{ key: 'new', scenario: null, input: live }] : []),
+  ]
+
+  function open(id: string, input: ScenarioInput) {
+    setEditing(id)
+    setForm(toScenarioForm(input))
+    setError('')
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return false
+    }
+    router.refresh()
+    return true
+  }
+
+  async function save() {
+    if (Object.keys(errors).length > 0) return
+    const ok = editing === 'new'
+      ? await send('/api/scenarios', 'POST', { ...form, property_id: property.property_id })
+      : await send(`/api/scenarios/${encodeURIComponent(editing!)}`, 'PATCH', form)
+    if (ok) setEditing(null)
+  }
+
+  async function remove(s: Scenario) {
+    if (!window.confirm(`Delete the scenario “${s.scenario_label}”?`)) return
+    await send(`/api/scenarios/${encodeURIComponent(s.scenario_id)}`, 'DELETE')
+  }
+
+  async function toggleBaseCase(s: Scenario) {
+    await send(`/api/scenarios/${encodeURIComponent(s.scenario_id)}/base-case`, s.is_base_case ? 'DELETE' : 'POST')
+  }
+
+  function toggleChart(key: string) {
+    setHidden(h => {
+      const next = new Set(h)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  // ─── Comparison chart ──────────────────────────────────────────────────────
+  const isBase = (r: typeof rows[number]) => r.key === PROPERTY_KEY || !!r.scenario?.is_base_case
+  const charted = rows.filter(r => !hidden.has(r.key))
+  let colorIndex = 0
+  const colors = new Map(rows.map(r => [r.key, isBase(r) ? GOLD : LINE_COLORS[colorIndex++ % LINE_COLORS.length]]))
+
+  const chartData: ChartData<'line'> = {
+    labels: Array.from({ length: CHART_YEARS + 1 }, (_, y) => (y === 0 ? 'Now' : `Yr ${y}`)),
+    datasets: charted.map(r => ({
+      label: r.input.scenario_label || 'New scenario',
+      data: cumulativeCash(property, r.input, CHART_YEARS),
+      borderColor: colors.get(r.key),
+      backgroundColor: colors.get(r.key),
+      borderWidth: isBase(r) ? 2.5 : 1.5,
+      borderDash: r.key === 'new' || r.key === editing ? [6, 4] : undefined,
+      pointRadius: 0,
+      pointHoverRadius: 5,
+      tension: 0,
+    })),
+  }
+
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true, maintainAspectRatio: false,
+    interaction: { mode: 'index', intersect: false },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: { label: item => `${item.dataset.label}: ${fmtSigned(item.parsed.y ?? 0)}` },
+        backgroundColor: SURFACE, titleColor: TEXT2, bodyColor: TEXT,
+        borderColor: BORDER2, borderWidth: 1, padding: 12,
+      },
+    },
+    scales: {
+      x: { grid: { color: BORDER }, ticks: { color: TEXT3, font: { size: 10 } }, border: { color: BORDER } },
+      y: {
+        grid: { color: ctx => (ctx.tick.value === 0 ? BORDER2 : BORDER) },
+        ticks: { color: TEXT3, font: { size: 10 }, callback: v => `£${(Number(v) / 1000).toFixed(0)}k` },
+        border: { color: BORDER },
+      },
+    },
+  }
+
+  // ─── Render ────────────────────────────────────────────────────────────────
+  const th: React.CSSProperties = {
+    padding: '9px 14px', color: TEXT3, fontWeight: 600, fontSize: 10, textTransform: 'uppercase',
+    letterSpacing: '1px', borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+  }
+  const td: React.CSSProperties = { padding: '9px 14px', color: TEXT2, fontVariantNumeric: 'tabular-nums' }
+  const input = (key: keyof ScenarioInput) => (
+    <input
+      value={form[key]}
+      inputMode={key === 'scenario_label' ? 'text' : 'decimal'}
+      title={errors[key]}
+      onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))}
+      style={{
+        width: key === 'scenario_label' ? 140 : 80, boxSizing: 'border-box', textAlign: key === 'scenario_label' ? 'left' : 'right',
+        background: SURFACE2, color: TEXT, border: `1px solid ${errors[key] ? RED : BORDER2}`, borderRadius: 3,
+        padding: '4px 6px', fontSize: 11, fontFamily: FONT, outline: 'none', fontVariantNumeric: 'tabular-nums',
+      }}
+    />
+  )
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden' }}>
+      <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Scenario Analysis
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          Compared with {base ? `the base case, ${base.scenario_label}` : 'the property’s own assumptions'}
+        </div>
+        {canEdit && editing === null && (
+          <button
+            onClick={() => open('new', propertyScenario(property, 'New scenario'))}
+            style={{ ...buttonStyle(GOLD), marginLeft: 'auto', padding: '4px 10px', fontSize: 11 }}
+          >
+            New scenario
+          </button>
+        )}
+      </div>
+      {error && <div style={{ padding: '8px 20px', fontSize: 12, color: RED }}>{error}</div>}
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr style={{ background: SURFACE2 }}>
+              <th style={{ ...th, width: 24 }} />
+              {SCENARIO_FIELDS.map((f, i) => <th key={f.key} align={i === 0 ? 'left' : 'right'} style={th}>{f.label}</th>)}
+              {['Cashflow / mo', 'vs Base', 'ROI'].map(h => <th key={h} align="right" style={th}>{h}</th>)}
+              {canEdit && <th style={th} />}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, idx) => {
+              const { annualCashflow: sCashflow, roi: sRoi } = scenarioKpis(property, r.input)
+              const delta = (sCashflow - baseKpis.annualCashflow) / 12
+              const cfColor = sCashflow >= 0 ? GREEN : RED
+              const roiC = sRoi >= 10 ? GREEN : sRoi >= 0 ? AMBER : RED
+              const isOpen = r.key === editing
+              const s = r.scenario
+              return (
+                <tr key={r.key}
+                  style={{ background: isOpen ? SURFACE2 : idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)', borderBottom: `1px solid ${BORDER}` }}>
+                  <td style={{ padding: '9px 0 9px 14px' }}>
+                    <input
+                      type="checkbox"
+                      checked={!hidden.has(r.key)}
+                      onChange={() => toggleChart(r.key)}
+                      title="Show on chart"
+                      style={{ accentColor: colors.get(r.key), cursor: 'pointer' }}
+                    />
+                  </td>
+                  {isOpen ? (
+                    <>
+                      <td style={{ padding: '6px 14px' }}>{input('scenario_label')}</td>
+                      {SCENARIO_FIELDS.slice(1).map(f => <td key={f.key} align="right" style={{ padding: '6px 14px' }}>{input(f.key)}</td>)}
+                    </>
+                  ) : (
+                    <>
+                      <td style={{ padding: '9px 14px', fontWeight: 600, color: r.scenario ? TEXT : TEXT2, whiteSpace: 'nowrap' }}>
+                        {r.input.scenario_label}
+                        {isBase(r) && (
+                          <span style={{ marginLeft: 8, fontSize: 9, color: GOLD, border: `1px solid rgba(201,168,66,0.3)`, borderRadius: 3, padding: '1px 5px', letterSpacing: '0.5px', textTransform: 'uppercase' }}>
+                            Base
+                          </span>
+                        )}
+                      </td>
+                      <td align="right" style={td}>£{fmt(r.input.revaluation_estimate)}</td>
+                      <td align="right" style={td}>{fmtPct(r.input.deposit_pct_phase2 * 100)}</td>
+                      <td align="right" style={td}>£{fmt(r.input.equity_release)}</td>
+                      <td align="right" style={td}>{fmtPct(r.input.mortgage_rate_phase2 * 100)}</td>
+                      <td align="right" style={td}>£{fmt(r.input.annual_rent_phase2)}</td>
+                    </>
+                  )}
+                  <td align="right" style={{ ...td, fontWeight: 600, color: cfColor }}>£{fmt(sCashflow / 12)}</td>
+                  <td align="right" style={{ ...td, color: isBase(r) ? TEXT3 : delta >= 0 ? GREEN : RED }}>
+                    {isBase(r) ? '—' : fmtSigned(delta)}
+                  </td>
+                  <td align="right" style={{ padding: '9px 14px' }}>
+                    <span style={{
+                      background: sRoi >= 10 ? 'rgba(34,197,94,0.10)' : sRoi >= 0 ? 'rgba(245,158,11,0.10)' : 'rgba(239,68,68,0.10)',
+                      color: roiC, fontWeight: 700, fontSize: 11, borderRadius: 3, padding: '2px 8px', fontVariantNumeric: 'tabular-nums',
+                    }}>
+                      {fmtPct(sRoi)}
+                    </span>
+                  </td>
+                  {canEdit && (
+                    <td align="right" style={{ padding: '6px 14px' }}>
+                      <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                        {isOpen ? (
+                          <>
+                            <button onClick={save} disabled={busy} style={{ ...buttonStyle(GOLD), opacity: Object.keys(errors).length ? 0.5 : 1 }}>
+                              {busy ? 'Saving…' : 'Save'}
+                            </button>
+                            <button onClick={() => setEditing(null)} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+                          </>
+                        ) : editing === null && (
+                          <>
+                            {s && <button onClick={() => open(s.scenario_id, s)} style={buttonStyle(TEXT2)}>Edit</button>}
+                            <button onClick={() => open('new', { ...r.input, scenario_label: `${r.input.scenario_label} (copy)` })} style={buttonStyle(TEXT2)}>
+                              Clone
+                            </button>
+                            {s && (
+                              <button onClick={() => toggleBaseCase(s)} disabled={busy} style={buttonStyle(s.is_base_case ? TEXT3 : GOLD)}>
+                                {s.is_base_case ? 'Unset base' : 'Set base'}
+                              </button>
+                            )}
+                            {s && <button onClick={() => remove(s)} disabled={busy} style={buttonStyle(RED)}>Delete</button>}
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── COMPARISON CHART ──────────────────────────────────────────────── */}
+      {charted.length > 0 && (
+        <div style={{ padding: '16px 20px 18px', borderTop: `1px solid ${BORDER2}` }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 16, marginBottom: 12, flexWrap: 'wrap' }}>
+            <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', fontWeight: 600 }}>
+              Cumulative cash position
+            </div>
+            <div style={{ fontSize: 11, color: TEXT3 }}>Net cash in deal recovered from cashflow — above £0 it has paid back</div>
+            <div style={{ display: 'flex', gap: 12, marginLeft: 'auto', flexWrap: 'wrap' }}>
+              {charted.map(r => (
+                <span key={r.key} style={{ display: 'flex', alignItems: 'center', gap: 5, fontSize: 11, color: TEXT2 }}>
+                  <span style={{ width: 10, height: 2, background: colors.get(r.key) }} />
+                  {r.input.scenario_label || 'New scenario'}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div style={{ height: 240 }}>
+            <Line data={chartData} options={chartOptions} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
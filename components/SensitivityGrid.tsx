@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import type { Mortgage, Property } from '@/lib/models'
+import {
+  AXIS_STEPS, ICR_COMFORTABLE, ICR_MINIMUM, RATE_STEPS, sensitivityCell, sensitivityInputs,
+  type SensitivityAxis, type SensitivityCell, type SensitivityMetric,
+} from '@/lib/sensitivity'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+const METRICS: Record<SensitivityMetric, string> = {
+  cashflow: 'Cashflow / mo',
+  roi:      'Cash-on-cash ROI',
+  icr:      'Interest cover',
+}
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtStep(step: number, points: boolean) {
+  if (step === 0) return 'Current'
+  const pct = Number((step * 100).toFixed(1))
+  return `${step > 0 ? '+' : ''}${pct}${points ? 'pts' : '%'}`
+}
+
+// Same thresholds as the KPI cards; interest cover against lenders' stress tests
+function cellDisplay(cell: SensitivityCell, metric: SensitivityMetric): { text: string; color: string } {
+  if (metric === 'cashflow') {
+    return { text: `£${fmt(cell.monthlyCashflow)}`, color: cell.monthlyCashflow >= 0 ? GREEN : RED }
+  }
+  if (metric === 'roi') {
+    return { text: cell.roi.toFixed(1) + '%', color: cell.roi >= 10 ? GREEN : cell.roi >= 0 ? AMBER : RED }
+  }
+  if (cell.icr === null) return { text: '—', color: TEXT3 }
+  return {
+    text: Math.round(cell.icr * 100) + '%',
+    color: cell.icr >= ICR_COMFORTABLE ? GREEN : cell.icr >= ICR_MINIMUM ? AMBER : RED,
+  }
+}
+
+function tint(color: string) {
+  return color === GREEN ? 'rgba(34,197,94,0.08)' : color === AMBER ? 'rgba(245,158,11,0.08)' : color === RED ? 'rgba(239,68,68,0.08)' : 'transparent'
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+// One property when a single one is passed, otherwise the portfolio combined
+export default function SensitivityGrid({ properties, mortgages }: { properties: Property[]; mortgages: Mortgage[] }) {
+  const [metric, setMetric] = useState<SensitivityMetric>('cashflow')
+  const [axis, setAxis] = useState<SensitivityAxis>('rent')
+
+  if (properties.length === 0) return null
+  const single = properties.length === 1 ? properties[0] : null
+  const { steps } = AXIS_STEPS[axis]
+  const inputs = sensitivityInputs(properties, mortgages, new Date().toISOString().slice(0, 10))
+  const currentRate = single ? (inputs[0].debt?.rate ?? single.mortgage_rate_phase2) : 0
+
+  // Absolute figures alongside the offsets when there is one property to show them for
+  const rateLabel = (step: number) => single ? `${(Math.max(0, currentRate + step) * 100).toFixed(2)}%` : null
+  const axisLabel = (step: number) => {
+    if (!single) return null
+    if (axis === 'rent') return `£${fmt(single.annual_rent_phase2 * (1 + step))}`
+    if (axis === 'revaluation') return `£${fmt(single.revaluation_estimate * (1 + step))}`
+    return `${Math.round((1 - single.deposit_pct_phase2 + step) * 100)}% LTV`
+  }
+
+  const toggle = (active: boolean): React.CSSProperties => ({
+    background: active ? 'rgba(201,168,66,0.1)' : 'transparent',
+    border: `1px solid ${active ? GOLD : BORDER2}`, color: active ? GOLD : TEXT3,
+    borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, fontFamily: FONT, cursor: 'pointer',
+  })
+  const th: React.CSSProperties = {
+    padding: '8px 12px', color: TEXT3, fontWeight: 600, fontSize: 10, letterSpacing: '0.5px',
+    borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap', fontVariantNumeric: 'tabular-nums',
+  }
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginTop: 16 }}>
+      <div style={{ padding: '14px 20px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Sensitivity
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          {single ? single.address : `Portfolio · ${properties.length} properties`} · mortgage rate against {AXIS_STEPS[axis].label.toLowerCase()}
+        </div>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 6, alignItems: 'center' }}>
+          {(Object.keys(METRICS) as SensitivityMetric[]).map(m => (
+            <button key={m} onClick={() => setMetric(m)} style={toggle(metric === m)}>{METRICS[m]}</button>
+          ))}
+          <select
+            value={axis}
+            onChange={e => setAxis(e.target.value as SensitivityAxis)}
+            style={{
+              background: SURFACE2, color: TEXT2, border: `1px solid ${BORDER2}`, borderRadius: 3,
+              padding: '4px 8px', fontSize: 11, fontFamily: FONT, marginLeft: 6, cursor: 'pointer',
+            }}
+          >
+            {(Object.keys(AXIS_STEPS) as SensitivityAxis[]).map(a => <option key={a} value={a}>vs {AXIS_STEPS[a].label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ overflowX: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr style={{ background: SURFACE2 }}>
+              <th align="left" style={{ ...th, textTransform: 'uppercase', letterSpacing: '1px' }}>
+                Rate ↓ · {AXIS_STEPS[axis].label} →
+              </th>
+              {steps.map(step => (
+                <th key={step} align="right" style={{ ...th, color: step === 0 ? GOLD : TEXT3 }}>
+                  {fmtStep(step, axis === 'ltv')}
+                  {axisLabel(step) && <div style={{ fontWeight: 400, marginTop: 2 }}>{axisLabel(step)}</div>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {RATE_STEPS.map(rateStep => (
+              <tr key={rateStep} style={{ borderBottom: `1px solid ${BORDER}` }}>
+                <td style={{ ...th, borderBottom: 'none', color: rateStep === 0 ? GOLD : TEXT3 }}>
+                  {fmtStep(rateStep, true)}
+                  {rateLabel(rateStep) && <span style={{ fontWeight: 400, marginLeft: 8 }}>{rateLabel(rateStep)}</span>}
+                </td>
+                {steps.map(step => {
+                  const { text, color } = cellDisplay(sensitivityCell(inputs, rateStep, axis, step), metric)
+                  const current = rateStep === 0 && step === 0
+                  return (
+                    <td key={step} align="right" style={{
+                      padding: '8px 12px', fontWeight: current ? 700 : 600, color, background: tint(color),
+                      fontVariantNumeric: 'tabular-nums', outline: current ? `1px solid ${GOLD}` : undefined, outlineOffset: -1,
+                    }}>
+                      {text}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div style={{ padding: '10px 20px', fontSize: 11, color: TEXT3 }}>
+        {axis === 'rent'
+          ? 'Rent changes leave running costs as they are.'
+          : 'A larger or smaller refinance releases more or less equity, which moves the net cash left in the deal.'}
+        {metric === 'icr' && ` Interest cover is rent ÷ mortgage interest: green at ${Math.round(ICR_COMFORTABLE * 100)}% and above, amber from ${Math.round(ICR_MINIMUM * 100)}%.`}
+      </div>
+    </div>
+  )
+}
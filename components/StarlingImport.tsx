@@ -0,0 +1,211 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import type { StarlingTransaction } from '@/lib/models'
+import type { StatementRow } from '@/lib/starling-import'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+// What the import route returns for a dry run
+interface DryRun {
+  fresh: (StatementRow & Pick<StarlingTransaction, 'dashboard_category'> & { rule: string | null })[]
+  duplicates: StatementRow[]
+  errors: string[]
+}
+
+function fmtDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00')
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' })
+}
+
+function fmtMoney(n: number) {
+  return `${n >= 0 ? '+' : '−'}£${Math.abs(n).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function StarlingImport() {
+  const [fileName, setFileName] = useState('')
+  const [csv, setCsv] = useState('')
+  const [diff, setDiff] = useState<DryRun | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [done, setDone] = useState('')
+
+  async function send(text: string, dryRun: boolean) {
+    setBusy(true)
+    setError('')
+    const res = await fetch('/api/starling-import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ csv: text, dryRun }),
+    }).catch(() => null)
+    const body = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(body?.error ?? 'Import failed')
+      return null
+    }
+    return body
+  }
+
+  async function chooseFile(file: File | undefined) {
+    setDiff(null)
+    setDone('')
+    if (!file) return
+    const text = await file.text()
+    setFileName(file.name)
+    setCsv(text)
+    const result = await send(text, true)
+    if (result) setDiff(result)
+  }
+
+  async function runImport() {
+    const result = await send(csv, false)
+    if (!result) return
+    setDone(`${result.inserted} transactions imported` +
+      (result.categorised ? ` · ${result.categorised} categorised by rules` : '') +
+      (result.duplicates ? ` · ${result.duplicates} duplicates skipped` : ''))
+    setDiff(null)
+    setCsv('')
+  }
+
+  const cell: React.CSSProperties = { padding: '7px 10px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+  const rowsTable = (rows: (StatementRow & { rule?: string | null; dashboard_category?: string | null })[], muted: boolean) => (
+    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+      <thead>
+        <tr>
+          {['Row', 'Date', 'Counter Party', 'Reference', 'Type', 'Amount', 'Balance', ...(muted ? [] : ['Rule'])].map((h, i) => (
+            <th key={h} align={i === 5 || i === 6 ? 'right' : 'left'} style={{
+              position: 'sticky', top: 0, background: SURFACE2, zIndex: 2,
+              padding: i === 0 ? '9px 10px 9px 18px' : '9px 10px',
+              fontWeight: 600, fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.2px',
+              borderBottom: `1px solid ${BORDER2}`,
+            }}>
+              {h}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(r => (
+          <tr key={r.line} style={{ opacity: muted ? 0.55 : 1 }}>
+            <td style={{ ...cell, paddingLeft: 18, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{r.line}</td>
+            <td style={{ ...cell, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{fmtDate(r.date)}</td>
+            <td style={{ ...cell, color: TEXT2 }}>{r.counter_party || '—'}</td>
+            <td style={{ ...cell, color: TEXT2 }}>{r.reference || '—'}</td>
+            <td style={{ ...cell, color: TEXT3 }}>{r.type || '—'}</td>
+            <td align="right" style={{ ...cell, color: r.amount_gbp >= 0 ? GREEN : RED, fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}>
+              {fmtMoney(r.amount_gbp)}
+            </td>
+            <td align="right" style={{ ...cell, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>
+              £{r.balance_gbp.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </td>
+            {!muted && (
+              <td style={{ ...cell, color: r.rule ? GOLD : TEXT3 }}>
+                {r.rule ? `${r.rule} → ${r.dashboard_category ?? '—'}` : 'Pending'}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{ marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}` }}>
+        <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+        <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+          Import Starling Statement
+        </h1>
+        <div style={{ fontSize: 12, color: TEXT3, marginTop: 10 }}>
+          Upload the CSV export from Starling. Rows already stored (same date, amount, reference and balance)
+          are skipped; new rows are added as Pending and any matching categorisation rules are applied.
+        </div>
+      </div>
+
+      {/* ── FILE PICKER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'center', gap: 12, marginBottom: 20,
+        padding: '12px 18px', background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4,
+      }}>
+        <label style={{
+          background: 'rgba(201,168,66,0.1)', border: `1px solid ${GOLD}`, color: GOLD,
+          borderRadius: 3, padding: '6px 12px', fontSize: 12, fontWeight: 600, cursor: 'pointer',
+        }}>
+          Choose CSV…
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={e => { chooseFile(e.target.files?.[0]); e.target.value = '' }}
+            style={{ display: 'none' }}
+          />
+        </label>
+        <span style={{ fontSize: 12, color: fileName ? TEXT2 : TEXT3 }}>{fileName || 'No file chosen'}</span>
+        {busy && <span style={{ fontSize: 12, color: TEXT3 }}>Working…</span>}
+        {diff && (
+          <button
+            onClick={runImport}
+            disabled={busy || diff.fresh.length === 0 || diff.errors.length > 0}
+            style={{
+              marginLeft: 'auto', background: GOLD, border: 'none', color: '#070c14', borderRadius: 3,
+              padding: '6px 14px', fontSize: 12, fontWeight: 700, fontFamily: FONT,
+              cursor: diff.fresh.length > 0 && diff.errors.length === 0 ? 'pointer' : 'default',
+              opacity: diff.fresh.length > 0 && diff.errors.length === 0 ? 1 : 0.4,
+            }}
+          >
+            Import {diff.fresh.length} new transactions
+          </button>
+        )}
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+      {done && (
+        <div style={{ fontSize: 12, color: GREEN, marginBottom: 16 }}>
+          {done} · <Link href="/" style={{ color: GOLD }}>back to the dashboard</Link>
+        </div>
+      )}
+
+      {/* ── DRY-RUN DIFF ────────────────────────────────────────────────── */}
+      {diff && (
+        <>
+          {diff.errors.length > 0 && (
+            <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${RED}`, borderRadius: 4, padding: '12px 18px', marginBottom: 16 }}>
+              <div style={{ fontSize: 10, color: RED, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600, marginBottom: 8 }}>
+                {diff.errors.length} rows could not be read
+              </div>
+              {diff.errors.map(e => <div key={e} style={{ fontSize: 12, color: TEXT2, marginBottom: 2 }}>{e}</div>)}
+            </div>
+          )}
+          {[
+            { title: `New — ${diff.fresh.length}`, color: GREEN, rows: diff.fresh, muted: false },
+            { title: `Already stored — ${diff.duplicates.length}`, color: TEXT3, rows: diff.duplicates, muted: true },
+          ].map(section => section.rows.length > 0 && (
+            <div key={section.title} style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 16 }}>
+              <div style={{ padding: '12px 18px', borderBottom: `1px solid ${BORDER2}`, fontSize: 10, color: section.color, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+                {section.title}
+              </div>
+              <div style={{ maxHeight: 420, overflowY: 'auto' }}>
+                {rowsTable(section.rows, section.muted)}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  CATEGORISATION_STATUSES,
+  type Property, type StarlingRule, type StarlingTransaction,
+} from '@/lib/models'
+import { DASHBOARD_CATEGORIES, STATUS_LABELS } from '@/lib/starling'
+import { isRuleEligible, ruleMatches, rulePreviewCounts } from '@/lib/starling-rules'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+// Form state keeps every field as a string, as the inputs do
+type RuleForm = Record<
+  'name' | 'priority' | 'counter_party_pattern' | 'reference_pattern' | 'txn_type' |
+  'min_amount' | 'max_amount' | 'set_property_id' | 'set_dashboard_category' | 'set_status',
+  string
+> & { enabled: boolean }
+
+const EMPTY_FORM: RuleForm = {
+  name: '', priority: '100', enabled: true,
+  counter_party_pattern: '', reference_pattern: '', txn_type: '', min_amount: '', max_amount: '',
+  set_property_id: '', set_dashboard_category: '', set_status: 'mapped',
+}
+
+function toForm(r: StarlingRule): RuleForm {
+  return {
+    name: r.name, priority: String(r.priority), enabled: r.enabled,
+    counter_party_pattern: r.counter_party_pattern ?? '', reference_pattern: r.reference_pattern ?? '',
+    txn_type: r.txn_type ?? '',
+    min_amount: r.min_amount === null ? '' : String(r.min_amount),
+    max_amount: r.max_amount === null ? '' : String(r.max_amount),
+    set_property_id: r.set_property_id ?? '', set_dashboard_category: r.set_dashboard_category ?? '',
+    set_status: r.set_status,
+  }
+}
+
+function amountOrNull(s: string) {
+  return s.trim() === '' || !Number.isFinite(Number(s)) ? null : Number(s)
+}
+
+function describeConditions(r: StarlingRule) {
+  const parts: string[] = []
+  if (r.counter_party_pattern) parts.push(`counter party contains “${r.counter_party_pattern}”`)
+  if (r.reference_pattern) parts.push(`reference contains “${r.reference_pattern}”`)
+  if (r.txn_type) parts.push(`type is ${r.txn_type}`)
+  if (r.min_amount !== null) parts.push(`amount ≥ £${r.min_amount}`)
+  if (r.max_amount !== null) parts.push(`amount ≤ £${r.max_amount}`)
+  return parts.join(' and ')
+}
+
+const inputStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '5px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', width: '100%', boxSizing: 'border-box',
+}
+
+function buttonStyle(active: boolean, color = GOLD): React.CSSProperties {
+  return {
+    background: active ? 'rgba(201,168,66,0.1)' : 'transparent',
+    border: `1px solid ${active ? color : BORDER2}`,
+    color: active ? color : TEXT3,
+    borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, fontFamily: FONT,
+    cursor: active ? 'pointer' : 'default',
+  }
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function StarlingRules({ rules, transactions, properties }: {
+  rules: StarlingRule[]
+  transactions: StarlingTransaction[]
+  properties: Property[]
+}) {
+  const router = useRouter()
+  // null = form closed, 'new' = creating, otherwise the id being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+
+  const previewCounts = rulePreviewCounts(rules, transactions)
+  const eligible = transactions.filter(isRuleEligible)
+  const formMatches = eligible.filter(t => ruleMatches({
+    counter_party_pattern: form.counter_party_pattern.trim() || null,
+    reference_pattern: form.reference_pattern.trim() || null,
+    txn_type: form.txn_type.trim() || null,
+    min_amount: amountOrNull(form.min_amount),
+    max_amount: amountOrNull(form.max_amount),
+  }, t)).length
+  const hasCondition = !!(form.counter_party_pattern.trim() || form.reference_pattern.trim() ||
+    form.txn_type.trim() || form.min_amount.trim() || form.max_amount.trim())
+
+  const propertyAddress = (id: string | null) =>
+    id ? (properties.find(p => p.property_id === id)?.address ?? id) : null
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    setMessage('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return null
+    }
+    router.refresh()
+    return json
+  }
+
+  async function saveForm() {
+    const ok = editing === 'new'
+      ? await send('/api/starling-rules', 'POST', form)
+      : await send(`/api/starling-rules/${editing}`, 'PATCH', form)
+    if (ok) { setEditing(null); setForm(EMPTY_FORM) }
+  }
+
+  async function toggleEnabled(rule: StarlingRule) {
+    await send(`/api/starling-rules/${rule.id}`, 'PATCH', { ...toForm(rule), enabled: !rule.enabled })
+  }
+
+  async function remove(rule: StarlingRule) {
+    if (!window.confirm(`Delete the rule “${rule.name}”?`)) return
+    await send(`/api/starling-rules/${rule.id}`, 'DELETE')
+  }
+
+  async function runRules() {
+    const result = await send('/api/starling-rules/apply', 'POST')
+    if (result) {
+      setMessage(`${result.categorised} categorised · ${result.needsReview} moved to review`)
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: '7px 10px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+  const label: React.CSSProperties = { fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4 }
+  const field = (key: Exclude<keyof RuleForm, 'enabled'>, title: string, placeholder = '') => (
+    <div>
+      <div style={label}>{title}</div>
+      <input
+        value={form[key]}
+        placeholder={placeholder}
+        onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))}
+        style={inputStyle}
+      />
+    </div>
+  )
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginTop: 16 }}>
+      <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Categorisation Rules
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          Applied in priority order to pending and needs-review rows, and automatically to newly imported rows
+        </div>
+        <div style={{ marginLeft: 'auto', display: 'flex', gap: 8 }}>
+          <button onClick={() => { setEditing('new'); setForm(EMPTY_FORM) }} disabled={busy} style={buttonStyle(!busy)}>
+            New rule
+          </button>
+          <button onClick={runRules} disabled={busy || eligible.length === 0} style={buttonStyle(!busy && eligible.length > 0, GREEN)}>
+            {busy ? 'Working…' : `Run rules on backlog (${eligible.length})`}
+          </button>
+        </div>
+      </div>
+      {error && <div style={{ padding: '8px 18px', fontSize: 12, color: RED }}>{error}</div>}
+      {message && <div style={{ padding: '8px 18px', fontSize: 12, color: GREEN }}>{message}</div>}
+
+      {/* ── Rule form ─────────────────────────────────────────────────────── */}
+      {editing !== null && (
+        <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, background: SURFACE2 }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: 10, marginBottom: 10 }}>
+            {field('name', 'Name', 'e.g. Openrent rent receipts')}
+            {field('priority', 'Priority (lowest first)')}
+          </div>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '1.5px', margin: '4px 0 8px' }}>
+            When all of these match
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 10, marginBottom: 10 }}>
+            {field('counter_party_pattern', 'Counter party contains')}
+            {field('reference_pattern', 'Reference contains')}
+            {field('txn_type', 'Type is', 'e.g. FASTER PAYMENT')}
+            {field('min_amount', 'Min amount £', 'e.g. -500')}
+            {field('max_amount', 'Max amount £')}
+          </div>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '1.5px', margin: '4px 0 8px' }}>
+            Set
+          </div>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: 10, marginBottom: 12 }}>
+            <div>
+              <div style={label}>Property</div>
+              <select value={form.set_property_id} onChange={e => setForm(f => ({ ...f, set_property_id: e.target.value }))} style={inputStyle}>
+                <option value="">No property</option>
+                {properties.map(p => <option key={p.property_id} value={p.property_id}>{p.address}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={label}>Category</div>
+              <select value={form.set_dashboard_category} onChange={e => setForm(f => ({ ...f, set_dashboard_category: e.target.value }))} style={inputStyle}>
+                <option value="">No category</option>
+                {DASHBOARD_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <div style={label}>Status</div>
+              <select value={form.set_status} onChange={e => setForm(f => ({ ...f, set_status: e.target.value }))} style={inputStyle}>
+                {CATEGORISATION_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+              </select>
+            </div>
+          </div>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+            <button onClick={saveForm} disabled={busy} style={buttonStyle(!busy)}>
+              {busy ? 'Saving…' : editing === 'new' ? 'Create rule' : 'Save rule'}
+            </button>
+            <button onClick={() => { setEditing(null); setError('') }} style={buttonStyle(true, TEXT2)}>
+              Cancel
+            </button>
+            <span style={{ fontSize: 11, color: TEXT3 }}>
+              {hasCondition
+                ? `Matches ${formMatches} of ${eligible.length} uncategorised rows`
+                : 'Add at least one condition'}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* ── Rules table ───────────────────────────────────────────────────── */}
+      {rules.length === 0 ? (
+        <div style={{ padding: '14px 18px', fontSize: 12, color: TEXT3 }}>No rules yet</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {['Priority', 'Name', 'When', 'Set', 'Would match', 'Enabled', ''].map((h, i) => (
+                <th key={i} align={i === 4 ? 'right' : 'left'} style={{
+                  background: SURFACE2, padding: i === 0 ? '9px 10px 9px 18px' : '9px 10px',
+                  fontWeight: 600, fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.2px',
+                  borderBottom: `1px solid ${BORDER2}`,
+                }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((r, idx) => (
+              <tr key={r.id} style={{ background: idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)', opacity: r.enabled ? 1 : 0.5 }}>
+                <td style={{ ...cell, paddingLeft: 18, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{r.priority}</td>
+                <td style={{ ...cell, color: TEXT, fontWeight: 500 }}>{r.name}</td>
+                <td style={{ ...cell, color: TEXT2 }}>{describeConditions(r)}</td>
+                <td style={{ ...cell, color: TEXT2 }}>
+                  {[propertyAddress(r.set_property_id), r.set_dashboard_category, STATUS_LABELS[r.set_status]]
+                    .filter(Boolean).join(' · ')}
+                </td>
+                <td align="right" style={{ ...cell, color: previewCounts[r.id] ? GREEN : TEXT3, fontVariantNumeric: 'tabular-nums' }}>
+                  {r.enabled ? (previewCounts[r.id] ?? 0) : '—'}
+                </td>
+                <td style={cell}>
+                  <input type="checkbox" checked={r.enabled} disabled={busy} onChange={() => toggleEnabled(r)} />
+                </td>
+                <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+                  <div style={{ display: 'flex', gap: 6 }}>
+                    <button onClick={() => { setEditing(r.id); setForm(toForm(r)) }} disabled={busy} style={buttonStyle(!busy, TEXT2)}>
+                      Edit
+                    </button>
+                    <button onClick={() => remove(r)} disabled={busy} style={buttonStyle(!busy, RED)}>
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,538 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  CATEGORISATION_STATUSES,
+  type CategorisationStatus, type Property, type StarlingTransaction,
+} from '@/lib/models'
+import {
+  DASHBOARD_CATEGORIES, STATUS_LABELS, categorisationError, postingError, type CategorisationChange,
+} from '@/lib/starling'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const BLUE     = '#4a9eff'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmtDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00')
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' })
+}
+
+const STATUS_STYLES: Record<CategorisationStatus, { color: string; bg: string }> = {
+  mapped:       { color: GREEN, bg: 'rgba(34,197,94,0.1)' },
+  mapped_msl:   { color: BLUE,  bg: 'rgba(74,158,255,0.1)' },
+  needs_review: { color: AMBER, bg: 'rgba(245,158,11,0.1)' },
+  pending:      { color: TEXT3, bg: 'rgba(255,255,255,0.05)' },
+}
+
+function postedBadge(row: StarlingTransaction) {
+  if (!row.posted_to) return null
+  return (
+    <span
+      title={row.posted_to === 'capital_transactions' ? 'Posted to capital transactions' : 'Posted to the ledger'}
+      style={{
+        fontSize: 10, fontWeight: 600, letterSpacing: '0.5px', textTransform: 'uppercase', marginLeft: 6,
+        color: GOLD, background: 'rgba(201,168,66,0.1)', borderRadius: 3, padding: '2px 6px',
+      }}
+    >
+      Posted
+    </span>
+  )
+}
+
+function statusBadge(status: CategorisationStatus | null) {
+  if (!status) return <span style={{ color: TEXT3 }}>—</span>
+  const s = STATUS_STYLES[status]
+  return (
+    <span style={{
+      fontSize: 10, fontWeight: 600, letterSpacing: '0.5px', textTransform: 'uppercase',
+      color: s.color, background: s.bg, borderRadius: 3, padding: '2px 6px',
+    }}>
+      {STATUS_LABELS[status]}
+    </span>
+  )
+}
+
+const STATUS_FILTERS: { label: string; status: CategorisationStatus | null }[] = [
+  { label: 'All',          status: null },
+  { label: 'Needs Review', status: 'needs_review' },
+  { label: 'Pending',      status: 'pending' },
+  { label: 'Mapped',       status: 'mapped' },
+  { label: 'MSL',          status: 'mapped_msl' },
+]
+
+const selectStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT2, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '3px 6px', fontSize: 11, fontFamily: FONT, outline: 'none', maxWidth: 160,
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function StarlingTransactions({ transactions, properties, canEdit }: {
+  transactions: StarlingTransaction[]
+  properties: Property[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  const [statusFilter, setStatusFilter] = useState<CategorisationStatus | null>(null)
+  // Saved edits layered over the server rows so counts and badges update immediately
+  const [edits, setEdits] = useState<Record<string, CategorisationChange>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [bulk, setBulk] = useState<{ property_id: string; dashboard_category: string; categorisation_status: string }>({
+    property_id: '', dashboard_category: '', categorisation_status: '',
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const rows: StarlingTransaction[] = transactions.map(t => {
+    const e = edits[t.id]
+    if (!e) return t
+    const property_id = e.property_id !== undefined ? e.property_id : t.property_id
+    return {
+      ...t,
+      ...e,
+      property_id,
+      property_address: e.property_id !== undefined
+        ? (properties.find(p => p.property_id === property_id)?.address ?? null)
+        : t.property_address,
+      categorisation_status: e.categorisation_status ?? t.categorisation_status,
+    }
+  })
+
+  const totalIn = rows.reduce((s, r) => s + (r.amount_gbp > 0 ? r.amount_gbp : 0), 0)
+  const totalOut = rows.reduce((s, r) => s + (r.amount_gbp < 0 ? r.amount_gbp : 0), 0)
+  const closingBalance = rows.length > 0 ? rows[0].balance_gbp : 0
+  const dates = rows.map(r => r.date).filter((d): d is string => !!d).sort()
+  const dateRange = dates.length > 0
+    ? `${fmtDate(dates[0])} – ${fmtDate(dates[dates.length - 1])}`
+    : '—'
+
+  const statusCounts = rows.reduce<Record<string, number>>((acc, r) => {
+    const key = r.categorisation_status ?? 'none'
+    acc[key] = (acc[key] ?? 0) + 1
+    return acc
+  }, {})
+  const outstanding = (statusCounts.pending ?? 0) + (statusCounts.needs_review ?? 0)
+
+  const postable = rows.filter(r => !postingError(r))
+
+  const filteredStarling = statusFilter === null
+    ? rows
+    : rows.filter(r => r.categorisation_status === statusFilter)
+
+  const categoryOptions = Array.from(new Set([
+    ...DASHBOARD_CATEGORIES,
+    ...transactions.map(t => t.dashboard_category).filter((c): c is string => !!c),
+  ]))
+
+  // ─── Saving ────────────────────────────────────────────────────────────────
+  async function save(ids: string[], changes: CategorisationChange) {
+    // Check locally first so the user sees the reason without a round trip
+    for (const id of ids) {
+      const row = rows.find(r => r.id === id)
+      const problem = row && categorisationError({ ...row, ...changes })
+      if (problem) { setError(problem); return false }
+    }
+    setSaving(true)
+    setError('')
+    const previous = edits
+    setEdits(prev => {
+      const next = { ...prev }
+      for (const id of ids) next[id] = { ...next[id], ...changes }
+      return next
+    })
+    const res = await fetch('/api/starling-transactions', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids, changes }),
+    }).catch(() => null)
+    setSaving(false)
+    if (!res?.ok) {
+      const body = await res?.json().catch(() => null)
+      setError(body?.error ?? 'Could not save changes')
+      setEdits(previous)
+      return false
+    }
+    return true
+  }
+
+  async function applyBulk() {
+    const changes: CategorisationChange = {}
+    if (bulk.property_id) changes.property_id = bulk.property_id
+    if (bulk.dashboard_category) changes.dashboard_category = bulk.dashboard_category
+    if (bulk.categorisation_status) changes.categorisation_status = bulk.categorisation_status as CategorisationStatus
+    if (Object.keys(changes).length === 0) return
+    if (await save(Array.from(selected), changes)) {
+      setSelected(new Set())
+      setBulk({ property_id: '', dashboard_category: '', categorisation_status: '' })
+    }
+  }
+
+  // ─── Posting ───────────────────────────────────────────────────────────────
+  async function posting(ids: string[], method: 'POST' | 'DELETE') {
+    setSaving(true)
+    setError('')
+    const res = await fetch('/api/starling-postings', {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ids }),
+    }).catch(() => null)
+    setSaving(false)
+    if (!res?.ok) {
+      const body = await res?.json().catch(() => null)
+      setError(body?.error ?? (method === 'POST' ? 'Could not post transactions' : 'Could not un-post transactions'))
+      return
+    }
+    setSelected(new Set())
+    router.refresh()
+  }
+
+  function toggleSelected(id: string) {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+  const allVisibleSelected = filteredStarling.length > 0 && filteredStarling.every(r => selected.has(r.id))
+  function toggleAllVisible() {
+    setSelected(allVisibleSelected ? new Set() : new Set(filteredStarling.map(r => r.id)))
+  }
+
+  const columns = [
+    ...(canEdit ? [{ label: '', right: false, pl: true }] : []),
+    { label: 'Date', right: false, pl: !canEdit },
+    { label: 'Counter Party', right: false },
+    { label: 'Reference', right: false },
+    { label: 'Type', right: false },
+    { label: 'Amount', right: true },
+    { label: 'Balance', right: true },
+    { label: 'Spending Cat.', right: false },
+    { label: 'Property', right: false },
+    { label: 'Category', right: false },
+    { label: 'Status', right: false },
+  ]
+
+  return (
+    <>
+      {/* Section divider */}
+      <div style={{ margin: '52px 0 28px', display: 'flex', alignItems: 'center', gap: 16 }}>
+        <div style={{ width: 3, height: 18, background: GOLD, borderRadius: 2 }} />
+        <span style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '3px', fontWeight: 600 }}>
+          Starling Bank Transactions
+        </span>
+        {outstanding > 0 && (
+          <span style={{
+            fontSize: 10, fontWeight: 700, letterSpacing: '1px', textTransform: 'uppercase',
+            color: '#070c14', background: GOLD, borderRadius: 3, padding: '2px 7px',
+          }}>
+            {outstanding} Pending Categorisation
+          </span>
+        )}
+        <div style={{ flex: 1, height: 1, background: BORDER }} />
+        {canEdit && (
+          <Link href="/import/starling" style={{
+            fontSize: 11, fontWeight: 600, color: GOLD, textDecoration: 'none',
+            border: `1px solid ${GOLD}`, borderRadius: 3, padding: '4px 10px',
+          }}>
+            Import statement
+          </Link>
+        )}
+      </div>
+
+      <div style={{ fontSize: 12, color: TEXT3, marginBottom: 20, fontStyle: 'italic' }}>
+        Mapped transactions are included in portfolio reporting once posted to the ledger or capital transactions.
+      </div>
+
+      {/* Summary bar */}
+      <div style={{
+        display: 'flex', gap: 0, marginBottom: 20,
+        background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden',
+      }}>
+        {[
+          { label: 'Transactions', value: String(rows.length), color: TEXT },
+          { label: 'Date Range', value: dateRange, color: TEXT2 },
+          { label: 'Total In', value: `£${totalIn.toLocaleString('en-GB', { maximumFractionDigits: 0 })}`, color: GREEN },
+          { label: 'Total Out', value: `£${Math.abs(totalOut).toLocaleString('en-GB', { maximumFractionDigits: 0 })}`, color: RED },
+          { label: 'Closing Balance', value: `£${closingBalance.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, color: GOLD },
+        ].map((item, i) => (
+          <div key={i} style={{
+            flex: 1, padding: '14px 18px',
+            borderRight: i < 4 ? `1px solid ${BORDER}` : 'none',
+          }}>
+            <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.5px', fontWeight: 600, marginBottom: 6 }}>
+              {item.label}
+            </div>
+            <div style={{ fontSize: 16, fontWeight: 700, color: item.color, fontVariantNumeric: 'tabular-nums' }}>
+              {item.value}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Filter bar */}
+      <div style={{
+        display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12,
+        padding: '8px 14px', background: SURFACE, border: `1px solid ${BORDER}`,
+        borderRadius: 4,
+      }}>
+        <span style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.5px', fontWeight: 600, marginRight: 4 }}>
+          Status
+        </span>
+        {STATUS_FILTERS.map(({ label, status }) => {
+          const active = statusFilter === status
+          const count = status === null ? rows.length : (statusCounts[status] ?? 0)
+          return (
+            <button
+              key={label}
+              onClick={() => setStatusFilter(status)}
+              style={{
+                fontSize: 11, fontWeight: 600, padding: '4px 12px', borderRadius: 3,
+                cursor: 'pointer', fontFamily: FONT, letterSpacing: '0.5px',
+                border: `1px solid ${active ? GOLD : BORDER2}`,
+                background: active ? 'rgba(201,168,66,0.1)' : 'transparent',
+                color: active ? GOLD : TEXT3,
+              }}
+            >
+              {label} <span style={{ opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>{count}</span>
+            </button>
+          )
+        })}
+        <span style={{ marginLeft: 'auto', fontSize: 11, color: TEXT3 }}>
+          {filteredStarling.length} records
+        </span>
+        {canEdit && postable.length > 0 && (
+          <button
+            onClick={() => posting(postable.map(r => r.id), 'POST')}
+            disabled={saving}
+            style={{
+              background: 'rgba(201,168,66,0.1)', border: `1px solid ${GOLD}`, color: GOLD,
+              borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            Post {postable.length} mapped
+          </button>
+        )}
+      </div>
+
+      {/* Bulk categorisation bar */}
+      {canEdit && selected.size > 0 && (
+        <div style={{
+          display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, flexWrap: 'wrap',
+          padding: '8px 14px', background: 'rgba(201,168,66,0.06)', border: `1px solid ${GOLD}`, borderRadius: 4,
+        }}>
+          <span style={{ fontSize: 11, color: GOLD, fontWeight: 600, marginRight: 4 }}>
+            {selected.size} selected
+          </span>
+          <select value={bulk.property_id} onChange={e => setBulk(b => ({ ...b, property_id: e.target.value }))} style={selectStyle}>
+            <option value="">Property…</option>
+            {properties.map(p => <option key={p.property_id} value={p.property_id}>{p.address}</option>)}
+          </select>
+          <select value={bulk.dashboard_category} onChange={e => setBulk(b => ({ ...b, dashboard_category: e.target.value }))} style={selectStyle}>
+            <option value="">Category…</option>
+            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select value={bulk.categorisation_status} onChange={e => setBulk(b => ({ ...b, categorisation_status: e.target.value }))} style={selectStyle}>
+            <option value="">Status…</option>
+            {CATEGORISATION_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+          </select>
+          <button
+            onClick={applyBulk}
+            disabled={saving || (!bulk.property_id && !bulk.dashboard_category && !bulk.categorisation_status)}
+            style={{
+              background: GOLD, border: 'none', color: '#070c14', borderRadius: 3,
+              padding: '5px 12px', fontSize: 11, fontWeight: 700, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            {saving ? 'Saving…' : `Apply to ${selected.size}`}
+          </button>
+          <button
+            onClick={() => posting(Array.from(selected), 'POST')}
+            disabled={saving}
+            style={{
+              background: 'none', border: `1px solid ${GOLD}`, color: GOLD,
+              borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            Post
+          </button>
+          <button
+            onClick={() => posting(Array.from(selected), 'DELETE')}
+            disabled={saving}
+            style={{
+              background: 'none', border: `1px solid ${BORDER2}`, color: TEXT2,
+              borderRadius: 3, padding: '4px 10px', fontSize: 11, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            Un-post
+          </button>
+          <button
+            onClick={() => setSelected(new Set())}
+            style={{
+              background: 'none', border: `1px solid ${BORDER2}`, color: TEXT3,
+              borderRadius: 3, padding: '4px 10px', fontSize: 11, cursor: 'pointer', fontFamily: FONT,
+            }}
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div style={{ fontSize: 12, color: RED, marginBottom: 12 }}>{error}</div>
+      )}
+
+      {/* Transactions table */}
+      <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 16 }}>
+        <div style={{ maxHeight: 480, overflowY: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                {columns.map(({ label, right, pl }, i) => (
+                  <th key={label || i} align={right ? 'right' : 'left'} style={{
+                    position: 'sticky', top: 0, background: SURFACE2, zIndex: 2,
+                    padding: pl ? '9px 10px 9px 18px' : '9px 10px',
+                    fontWeight: 600, fontSize: 10, color: TEXT3,
+                    textTransform: 'uppercase', letterSpacing: '1.2px',
+                    borderBottom: `1px solid ${BORDER2}`,
+                  }}>
+                    {label || (
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllVisible}
+                        aria-label="Select all visible"
+                        style={{ accentColor: GOLD, width: 12, height: 12 }}
+                      />
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {filteredStarling.map((row, idx) => {
+                const amt = row.amount_gbp
+                const isIn = amt >= 0
+                const isSelected = selected.has(row.id)
+                return (
+                  <tr key={row.id} style={{ background: isSelected ? 'rgba(201,168,66,0.06)' : idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)' }}>
+                    {canEdit && (
+                      <td style={{ padding: '7px 4px 7px 18px', borderBottom: `1px solid ${BORDER}` }}>
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleSelected(row.id)}
+                          aria-label="Select transaction"
+                          style={{ accentColor: GOLD, width: 12, height: 12 }}
+                        />
+                      </td>
+                    )}
+                    <td style={{ padding: canEdit ? '7px 10px' : '7px 10px 7px 18px', fontSize: 12, color: TEXT3, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }}>
+                      {row.date ? fmtDate(row.date) : '—'}
+                    </td>
+                    <td style={{ padding: '7px 10px', fontSize: 12, color: TEXT2, borderBottom: `1px solid ${BORDER}`, maxWidth: 160, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {row.counter_party || '—'}
+                    </td>
+                    <td style={{ padding: '7px 10px', fontSize: 12, color: TEXT2, borderBottom: `1px solid ${BORDER}`, maxWidth: 180, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {row.reference || '—'}
+                    </td>
+                    <td style={{ padding: '7px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                      <span style={{
+                        fontSize: 10, fontWeight: 600, letterSpacing: '0.5px', textTransform: 'uppercase',
+                        color: TEXT2, background: 'rgba(255,255,255,0.05)',
+                        borderRadius: 3, padding: '2px 6px',
+                      }}>
+                        {row.type || '—'}
+                      </span>
+                    </td>
+                    <td align="right" style={{
+                      padding: '7px 10px', fontSize: 12, fontWeight: 700,
+                      color: isIn ? GREEN : RED, fontVariantNumeric: 'tabular-nums',
+                      borderBottom: `1px solid ${BORDER}`,
+                    }}>
+                      {isIn ? '+' : ''}£{Math.abs(amt).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    <td align="right" style={{
+                      padding: '7px 10px', fontSize: 12, color: TEXT2,
+                      fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}`,
+                    }}>
+                      £{row.balance_gbp.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    </td>
+                    <td style={{ padding: '7px 10px', fontSize: 12, color: row.spending_category ? GOLD : TEXT3, borderBottom: `1px solid ${BORDER}` }}>
+                      {row.spending_category || <span style={{ color: TEXT3, fontStyle: 'italic' }}>—</span>}
+                    </td>
+                    {canEdit ? (
+                      <>
+                        <td style={{ padding: '5px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                          <select
+                            value={row.property_id ?? ''}
+                            onChange={e => save([row.id], { property_id: e.target.value || null })}
+                            disabled={saving || !!row.posted_to}
+                            title={row.property_address ?? undefined}
+                            style={{ ...selectStyle, color: row.property_id ? TEXT2 : TEXT3 }}
+                          >
+                            <option value="">{row.property_address && !row.property_id ? `? ${row.property_address}` : '—'}</option>
+                            {properties.map(p => <option key={p.property_id} value={p.property_id}>{p.address.split(',')[0]}</option>)}
+                          </select>
+                        </td>
+                        <td style={{ padding: '5px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                          <select
+                            value={row.dashboard_category ?? ''}
+                            onChange={e => save([row.id], { dashboard_category: e.target.value || null })}
+                            disabled={saving || !!row.posted_to}
+                            style={{ ...selectStyle, color: row.dashboard_category ? TEXT2 : TEXT3 }}
+                          >
+                            <option value="">—</option>
+                            {categoryOptions.map(c => <option key={c} value={c}>{c}</option>)}
+                          </select>
+                        </td>
+                        <td style={{ padding: '5px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                          <select
+                            value={row.categorisation_status ?? ''}
+                            onChange={e => save([row.id], { categorisation_status: e.target.value as CategorisationStatus })}
+                            disabled={saving || !!row.posted_to}
+                            style={{ ...selectStyle, color: row.categorisation_status ? STATUS_STYLES[row.categorisation_status].color : TEXT3 }}
+                          >
+                            {!row.categorisation_status && <option value="">—</option>}
+                            {CATEGORISATION_STATUSES.map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                          </select>
+                          {postedBadge(row)}
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td style={{ padding: '7px 10px', fontSize: 12, color: row.property_address ? TEXT2 : TEXT3, borderBottom: `1px solid ${BORDER}`, maxWidth: 160, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {row.property_address || <span style={{ color: TEXT3 }}>—</span>}
+                        </td>
+                        <td style={{ padding: '7px 10px', fontSize: 12, color: row.dashboard_category ? TEXT2 : TEXT3, borderBottom: `1px solid ${BORDER}`, maxWidth: 140, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {row.dashboard_category || <span style={{ color: TEXT3 }}>—</span>}
+                        </td>
+                        <td style={{ padding: '7px 10px', borderBottom: `1px solid ${BORDER}` }}>
+                          {statusBadge(row.categorisation_status)}
+                          {postedBadge(row)}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,325 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { OWNER_KINDS, type Mortgage, type Owner, type Property, type PropertyOwner, type TaxBand } from '@/lib/models'
+import { FINANCE_COST_CREDIT_RATE, portfolioTax } from '@/lib/tax'
+import { HOLDING_STRUCTURE_LABELS, OWNER_KIND_LABELS, holdingStructure } from '@/lib/ownership'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtShare(n: number) {
+  return `${Number((n * 100).toFixed(2))}%`
+}
+
+// Form state keeps every field as a string, as the inputs do
+type OwnerForm = Record<'name' | 'kind' | 'other_income', string>
+type ShareRow = Record<'owner_id' | 'share', string>
+type BandRow = Record<'label' | 'lower' | 'rate', string>
+
+function toBandRows(bands: TaxBand[]): BandRow[] {
+  return bands.map(b => ({ label: b.label, lower: String(b.lower), rate: String(b.rate) }))
+}
+
+const inputStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '5px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', width: '100%', boxSizing: 'border-box',
+}
+
+function buttonStyle(color: string): React.CSSProperties {
+  return {
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '2px 8px', fontSize: 10, fontWeight: 600, fontFamily: FONT, cursor: 'pointer', whiteSpace: 'nowrap',
+  }
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function TaxSettings({ properties, mortgages, owners, propertyOwners, taxBands }: {
+  properties: Property[]
+  mortgages: Mortgage[]
+  owners: Owner[]
+  propertyOwners: PropertyOwner[]
+  taxBands: TaxBand[]
+}) {
+  const router = useRouter()
+  // The owner being edited; a null id when adding one
+  const [ownerEdit, setOwnerEdit] = useState<{ id: string | null } | null>(null)
+  const [ownerForm, setOwnerForm] = useState<OwnerForm>({ name: '', kind: 'individual', other_income: '' })
+  const [shareEdit, setShareEdit] = useState<{ propertyId: string; rows: ShareRow[] } | null>(null)
+  const [bandRows, setBandRows] = useState<BandRow[]>(toBandRows(taxBands))
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const today = new Date().toISOString().slice(0, 10)
+  const tax = portfolioTax(properties, mortgages, owners, propertyOwners, taxBands, today)
+  const ownerName = (id: string) => owners.find(o => o.id === id)?.name ?? 'Unknown'
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return false
+    }
+    router.refresh()
+    return true
+  }
+
+  function editOwner(o?: Owner) {
+    setOwnerEdit({ id: o?.id ?? null })
+    setOwnerForm({ name: o?.name ?? '', kind: o?.kind ?? 'individual', other_income: o ? String(o.other_income) : '' })
+    setError('')
+  }
+
+  async function saveOwner() {
+    if (!ownerEdit) return
+    const ok = ownerEdit.id === null
+      ? await send('/api/owners', 'POST', ownerForm)
+      : await send(`/api/owners/${encodeURIComponent(ownerEdit.id)}`, 'PATCH', ownerForm)
+    if (ok) setOwnerEdit(null)
+  }
+
+  async function removeOwner(o: Owner) {
+    if (!window.confirm(`Delete ${o.name}? Their shares in every property are removed too.`)) return
+    await send(`/api/owners/${encodeURIComponent(o.id)}`, 'DELETE')
+  }
+
+  function editShares(p: Property) {
+    setShareEdit({
+      propertyId: p.property_id,
+      rows: propertyOwners
+        .filter(s => s.property_id === p.property_id)
+        .map(s => ({ owner_id: s.owner_id, share: String(s.share) })),
+    })
+    setError('')
+  }
+
+  async function saveShares() {
+    if (!shareEdit) return
+    const ok = await send(`/api/properties/${encodeURIComponent(shareEdit.propertyId)}/owners`, 'PUT', { shares: shareEdit.rows })
+    if (ok) setShareEdit(null)
+  }
+
+  const setShareRow = (i: number, key: keyof ShareRow, value: string) =>
+    setShareEdit(e => e && { ...e, rows: e.rows.map((r, j) => (j === i ? { ...r, [key]: value } : r)) })
+  const setBandRow = (i: number, key: keyof BandRow, value: string) =>
+    setBandRows(rows => rows.map((r, j) => (j === i ? { ...r, [key]: value } : r)))
+
+  const cell: React.CSSProperties = { padding: '8px 14px', fontSize: 12, borderBottom: `1px solid ${BORDER}`, fontVariantNumeric: 'tabular-nums' }
+  const head = (labels: string[]) => (
+    <thead>
+      <tr style={{ background: SURFACE2 }}>
+        {labels.map((h, i) => (
+          <th key={i} align={i === 0 || h === '' ? 'left' : 'right'} style={{
+            padding: '8px 14px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+            letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+          }}>{h}</th>
+        ))}
+      </tr>
+    </thead>
+  )
+  const panelHeader = (title: string, sub: string, action?: React.ReactNode) => (
+    <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+      <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>{title}</div>
+      <div style={{ fontSize: 11, color: TEXT3 }}>{sub}</div>
+      {action && <div style={{ marginLeft: 'auto' }}>{action}</div>}
+    </div>
+  )
+  const panel: React.CSSProperties = { background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 28 }
+
+  const ownerFormRow = (
+    <tr style={{ background: SURFACE2 }}>
+      <td style={cell}>
+        <input value={ownerForm.name} placeholder="Name" onChange={e => setOwnerForm(f => ({ ...f, name: e.target.value }))} style={inputStyle} />
+      </td>
+      <td style={cell}>
+        <select value={ownerForm.kind} onChange={e => setOwnerForm(f => ({ ...f, kind: e.target.value }))} style={inputStyle}>
+          {OWNER_KINDS.map(k => <option key={k} value={k}>{OWNER_KIND_LABELS[k]}</option>)}
+        </select>
+      </td>
+      <td style={cell}>
+        <input value={ownerForm.other_income} placeholder={ownerForm.kind === 'company' ? 'Other profits £ p.a.' : 'Other income £ p.a.'} onChange={e => setOwnerForm(f => ({ ...f, other_income: e.target.value }))} style={{ ...inputStyle, textAlign: 'right' }} />
+      </td>
+      <td colSpan={4} style={cell} />
+      <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+        <button onClick={saveOwner} disabled={busy} style={{ ...buttonStyle(GOLD), marginRight: 6 }}>
+          {busy ? 'Saving…' : ownerEdit?.id === null ? 'Add' : 'Save'}
+        </button>
+        <button onClick={() => { setOwnerEdit(null); setError('') }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+      </td>
+    </tr>
+  )
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+        marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}`,
+      }}>
+        <div>
+          <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+          <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            Ownership & Tax
+          </h1>
+        </div>
+        <div style={{ fontSize: 12, color: TEXT3, maxWidth: 460, textAlign: 'right', lineHeight: 1.5 }}>
+          Estimated on the projected annual figures. Individuals pay income tax: mortgage interest is not
+          deducted (Section 24) but earns a {FINANCE_COST_CREDIT_RATE * 100}% credit. Companies pay corporation
+          tax on the profit after interest.
+        </div>
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+
+      {/* ── OWNERSHIP ENTITIES ──────────────────────────────────────────── */}
+      <div style={panel}>
+        {panelHeader('Ownership Entities', 'People and companies · other income sets the rate the property profit is taxed at',
+          !ownerEdit && <button onClick={() => editOwner()} style={buttonStyle(TEXT2)}>Add entity</button>)}
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          {head(['Entity', 'Type', 'Other Income', 'Property Profit', 'Finance Costs', 'S24 Credit', 'Tax on Property', ''])}
+          <tbody>
+            {tax.owners.map(t => ownerEdit?.id === t.owner.id ? <Fragment key={t.owner.id}>{ownerFormRow}</Fragment> : (
+              <tr key={t.owner.id}>
+                <td style={{ ...cell, color: TEXT }}>{t.owner.name}</td>
+                <td align="right" style={{ ...cell, color: TEXT2 }}>{OWNER_KIND_LABELS[t.owner.kind]}</td>
+                <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(t.owner.other_income)}</td>
+                <td align="right" style={{ ...cell, color: t.propertyProfit >= 0 ? TEXT : RED }}>£{fmt(t.propertyProfit)}</td>
+                <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(t.financeCosts)}</td>
+                <td align="right" style={{ ...cell, color: t.owner.kind === 'company' ? TEXT3 : GREEN }}>
+                  {t.owner.kind === 'company' ? 'Deducted' : `£${fmt(t.financeCredit)}`}
+                </td>
+                <td align="right" style={{ ...cell, color: AMBER, fontWeight: 600 }}>£{fmt(t.taxOnProperty)}</td>
+                <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+                  <button onClick={() => editOwner(t.owner)} disabled={busy} style={{ ...buttonStyle(TEXT2), marginRight: 6 }}>Edit</button>
+                  <button onClick={() => removeOwner(t.owner)} disabled={busy} style={buttonStyle(RED)}>Delete</button>
+                </td>
+              </tr>
+            ))}
+            {ownerEdit?.id === null && ownerFormRow}
+            {owners.length === 0 && !ownerEdit && (
+              <tr><td colSpan={8} style={{ ...cell, color: TEXT3 }}>No entities yet — add one, then record their shares below.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── OWNERSHIP ───────────────────────────────────────────────────── */}
+      <div style={panel}>
+        {panelHeader('Ownership', 'Shares as fractions · tax is spread over properties by profit')}
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          {head(['Property', 'Holding', 'Owners', 'Ann. Cashflow', 'Tax (est.)', 'Post-tax CF', ''])}
+          <tbody>
+            {tax.properties.map(t => {
+              const p = t.property
+              const shares = propertyOwners.filter(s => s.property_id === p.property_id)
+              const structure = holdingStructure(p.property_id, owners, propertyOwners)
+              if (shareEdit?.propertyId === p.property_id) {
+                return (
+                  <tr key={p.property_id} style={{ background: SURFACE2 }}>
+                    <td style={{ ...cell, color: TEXT, verticalAlign: 'top' }}>{p.address}</td>
+                    <td colSpan={6} style={cell}>
+                      {shareEdit.rows.map((r, i) => (
+                        <div key={i} style={{ display: 'flex', gap: 6, marginBottom: 6 }}>
+                          <select value={r.owner_id} onChange={e => setShareRow(i, 'owner_id', e.target.value)} style={{ ...inputStyle, width: 200 }}>
+                            <option value="">Choose entity</option>
+                            {owners.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                          </select>
+                          <input value={r.share} placeholder="Share, e.g. 0.5" onChange={e => setShareRow(i, 'share', e.target.value)} style={{ ...inputStyle, width: 120 }} />
+                          <button
+                            onClick={() => setShareEdit(e => e && { ...e, rows: e.rows.filter((_, j) => j !== i) })}
+                            style={buttonStyle(RED)}
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <div style={{ display: 'flex', gap: 6 }}>
+                        <button onClick={() => setShareEdit(e => e && { ...e, rows: [...e.rows, { owner_id: '', share: '' }] })} style={buttonStyle(TEXT2)}>
+                          Add entity
+                        </button>
+                        <button onClick={saveShares} disabled={busy} style={buttonStyle(GOLD)}>{busy ? 'Saving…' : 'Save'}</button>
+                        <button onClick={() => { setShareEdit(null); setError('') }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              }
+              return (
+                <tr key={p.property_id}>
+                  <td style={{ ...cell, color: TEXT }}>{p.address}</td>
+                  <td align="right" style={{ ...cell, color: TEXT2 }}>{structure ? HOLDING_STRUCTURE_LABELS[structure] : '—'}</td>
+                  <td align="right" style={{ ...cell, color: shares.length === 0 ? AMBER : t.owned < 1 ? AMBER : TEXT2 }}>
+                    {shares.length === 0
+                      ? 'None recorded'
+                      : shares.map(s => `${ownerName(s.owner_id)} ${fmtShare(s.share)}`).join(' · ') + (t.owned < 1 ? ` · ${fmtShare(1 - t.owned)} unrecorded` : '')}
+                  </td>
+                  <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(t.cashflow)}</td>
+                  <td align="right" style={{ ...cell, color: AMBER }}>{t.tax === null ? '—' : `£${fmt(t.tax)}`}</td>
+                  <td align="right" style={{ ...cell, fontWeight: 600, color: t.postTaxCashflow === null ? TEXT3 : t.postTaxCashflow >= 0 ? GREEN : RED }}>
+                    {t.postTaxCashflow === null ? '—' : `£${fmt(t.postTaxCashflow)}`}
+                  </td>
+                  <td style={cell}>
+                    <button onClick={() => editShares(p)} disabled={busy || owners.length === 0 || !!shareEdit} style={buttonStyle(TEXT2)}>Edit</button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── TAX BANDS ───────────────────────────────────────────────────── */}
+      <div style={{ ...panel, maxWidth: 620 }}>
+        {panelHeader('Income Tax Bands', 'Rates as fractions · the 0% band from £0 is the personal allowance')}
+        <div style={{ padding: '12px 18px' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 120px 90px 60px', gap: 6, marginBottom: 6 }}>
+            {['Band', 'From £', 'Rate', ''].map((h, i) => (
+              <div key={i} style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px' }}>{h}</div>
+            ))}
+          </div>
+          {bandRows.map((b, i) => (
+            <div key={i} style={{ display: 'grid', gridTemplateColumns: '1fr 120px 90px 60px', gap: 6, marginBottom: 6 }}>
+              <input value={b.label} onChange={e => setBandRow(i, 'label', e.target.value)} style={inputStyle} />
+              <input value={b.lower} onChange={e => setBandRow(i, 'lower', e.target.value)} style={{ ...inputStyle, textAlign: 'right' }} />
+              <input value={b.rate} onChange={e => setBandRow(i, 'rate', e.target.value)} style={{ ...inputStyle, textAlign: 'right' }} />
+              <button onClick={() => setBandRows(rows => rows.filter((_, j) => j !== i))} style={buttonStyle(RED)}>Remove</button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 6, marginTop: 10 }}>
+            <button onClick={() => setBandRows(rows => [...rows, { label: '', lower: '', rate: '' }])} style={buttonStyle(TEXT2)}>Add band</button>
+            <button onClick={() => send('/api/tax-bands', 'PUT', { bands: bandRows })} disabled={busy} style={buttonStyle(GOLD)}>
+              {busy ? 'Saving…' : 'Save bands'}
+            </button>
+            <button onClick={() => setBandRows(toBandRows(taxBands))} disabled={busy} style={buttonStyle(TEXT3)}>Reset</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
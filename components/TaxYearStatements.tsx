@@ -0,0 +1,246 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import Link from 'next/link'
+import type { LedgerEntry, Mortgage, Owner, Property, PropertyOwner, TaxBand } from '@/lib/models'
+import { taxYearBounds, taxYearLabel } from '@/lib/periods'
+import { holdingsStatement, incomeStatement, statementYears, type IncomeStatement } from '@/lib/statements'
+import { OWNER_KIND_LABELS, holdings } from '@/lib/ownership'
+import { taxOnProfit } from '@/lib/tax'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+const PORTFOLIO = ''
+const ENTITY = 'entity:'   // scope prefix for an ownership entity's id
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+// Accounting style: costs and losses in brackets
+function fmtAcc(n: number) {
+  const rounded = Math.round(n)
+  return rounded < 0 ? `(£${fmt(-rounded)})` : `£${fmt(rounded)}`
+}
+function fmtDate(dateStr: string) {
+  return new Date(dateStr + 'T00:00:00').toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function TaxYearStatements({ properties, ledger, mortgages, owners, propertyOwners, taxBands }: {
+  properties: Property[]
+  ledger: LedgerEntry[]
+  mortgages: Mortgage[]
+  owners: Owner[]             // empty for restricted viewers
+  propertyOwners: PropertyOwner[]
+  taxBands: TaxBand[]
+}) {
+  const today = new Date().toISOString().slice(0, 10)
+  const years = statementYears(ledger, today)
+  // Default to the last complete year, which is the one being filed
+  const [taxYear, setTaxYear] = useState(years[1] ?? years[0])
+  const [scope, setScope] = useState(PORTFOLIO)
+
+  // An entity's statement is its share of each property it holds
+  const entities = owners.filter(o => holdings(o, properties, propertyOwners).length > 0)
+  const entity = scope.startsWith(ENTITY) ? entities.find(o => ENTITY + o.id === scope) : undefined
+  const held = entity
+    ? holdings(entity, properties, propertyOwners)
+    : (scope === PORTFOLIO ? properties : properties.filter(p => p.property_id === scope)).map(property => ({ property, share: 1 }))
+  const scoped = held.map(h => h.property)
+  const current = entity ? holdingsStatement(held, ledger, mortgages, taxYear) : incomeStatement(scoped, ledger, mortgages, taxYear)
+  const prior = entity ? holdingsStatement(held, ledger, mortgages, taxYear - 1) : incomeStatement(scoped, ledger, mortgages, taxYear - 1)
+  const { from, to } = taxYearBounds(taxYear)
+
+  // Every category seen in either year, in this year's order
+  const categories = [
+    ...current.expenses.map(e => e.category),
+    ...prior.expenses.map(e => e.category).filter(c => !current.expenses.some(e => e.category === c)),
+  ]
+  const expenseIn = (s: IncomeStatement, category: string) => s.expenses.find(e => e.category === category)?.amount ?? 0
+  // Income tax with the Section 24 credit for people, corporation tax for companies
+  const taxOn = (s: IncomeStatement) => entity
+    ? taxOnProfit(entity, s.rentalIncome - s.totalExpenses, s.financeCosts, taxBands)
+    : { tax: 0, financeCredit: 0 }
+  const currentTax = taxOn(current)
+  const priorTax = taxOn(prior)
+
+  const selectStyle: React.CSSProperties = {
+    background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+    padding: '6px 10px', fontSize: 12, fontFamily: FONT, outline: 'none', cursor: 'pointer',
+  }
+  const cell: React.CSSProperties = { padding: '7px 18px', fontSize: 12, fontVariantNumeric: 'tabular-nums', borderBottom: `1px solid ${BORDER}` }
+  const heading = (label: string) => (
+    <tr>
+      <td colSpan={4} style={{ ...cell, paddingTop: 16, fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '1.5px', fontWeight: 600 }}>
+        {label}
+      </td>
+    </tr>
+  )
+  // Costs are shown as negatives; for them a fall is the improvement
+  const line = (label: string, now: number, before: number, opts: { cost?: boolean; total?: boolean; indent?: boolean } = {}) => {
+    const sign = opts.cost ? -1 : 1
+    const diff = (now - before) * sign
+    const better = opts.cost ? now < before : now > before
+    return (
+      <tr style={{ background: opts.total ? SURFACE2 : 'transparent' }}>
+        <td style={{ ...cell, color: opts.total ? TEXT : TEXT2, fontWeight: opts.total ? 700 : 400, paddingLeft: opts.indent ? 34 : 18 }}>{label}</td>
+        <td align="right" style={{ ...cell, color: TEXT, fontWeight: opts.total ? 700 : 500 }}>{fmtAcc(now * sign)}</td>
+        <td align="right" style={{ ...cell, color: TEXT3, fontWeight: opts.total ? 700 : 400 }}>{fmtAcc(before * sign)}</td>
+        <td align="right" style={{ ...cell, color: Math.round(diff) === 0 ? TEXT3 : better ? GREEN : RED }}>
+          {Math.round(diff) === 0 ? '—' : `${diff > 0 ? '+' : '-'}£${fmt(Math.abs(diff))}`}
+        </td>
+      </tr>
+    )
+  }
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+        marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}`,
+      }}>
+        <div>
+          <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+          <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            Tax-Year P&L
+          </h1>
+        </div>
+        <div style={{ display: 'flex', gap: 10 }}>
+          <select value={scope} onChange={e => setScope(e.target.value)} style={{ ...selectStyle, minWidth: 240 }}>
+            <option value={PORTFOLIO}>Portfolio · {properties.length} properties</option>
+            {entities.length > 0 && (
+              <optgroup label="Ownership entities">
+                {entities.map(o => <option key={o.id} value={ENTITY + o.id}>{o.name} · {OWNER_KIND_LABELS[o.kind]}</option>)}
+              </optgroup>
+            )}
+            <optgroup label="Properties">
+              {properties.map(p => <option key={p.property_id} value={p.property_id}>{p.address}, {p.city}</option>)}
+            </optgroup>
+          </select>
+          <select value={taxYear} onChange={e => setTaxYear(Number(e.target.value))} style={selectStyle}>
+            {years.map(y => <option key={y} value={y}>{taxYearLabel(y)}{y === years[0] ? ' (to date)' : ''}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {/* ── INCOME STATEMENT ────────────────────────────────────────────── */}
+      <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', maxWidth: 820 }}>
+        <div style={{ padding: '16px 18px', borderBottom: `1px solid ${BORDER2}` }}>
+          <div style={{ fontSize: 14, fontWeight: 600, color: TEXT }}>
+            Income statement · {entity ? entity.name : scope === PORTFOLIO ? 'Portfolio' : scoped[0]?.address}
+          </div>
+          <div style={{ fontSize: 11, color: TEXT3, marginTop: 4 }}>
+            Year ended {fmtDate(to)} · from {fmtDate(from)}
+          </div>
+        </div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr style={{ background: SURFACE2 }}>
+              {['', taxYearLabel(taxYear), taxYearLabel(taxYear - 1), 'Change'].map((h, i) => (
+                <th key={i} align={i === 0 ? 'left' : 'right'} style={{
+                  padding: '8px 18px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+                  letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+                }}>{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {heading('Income')}
+            {line('Rental income', current.rentalIncome, prior.rentalIncome, { total: true })}
+
+            {heading('Allowable expenses')}
+            {categories.length === 0 && (
+              <tr><td colSpan={4} style={{ ...cell, color: TEXT3, paddingLeft: 34 }}>No expenses recorded</td></tr>
+            )}
+            {categories.map(c => (
+              <Fragment key={c}>{line(c, expenseIn(current, c), expenseIn(prior, c), { cost: true, indent: true })}</Fragment>
+            ))}
+            {line('Total allowable expenses', current.totalExpenses, prior.totalExpenses, { cost: true, total: true })}
+            {line('Profit before finance costs', current.rentalIncome - current.totalExpenses, prior.rentalIncome - prior.totalExpenses, { total: true })}
+
+            {heading('Finance costs')}
+            {line('Mortgage interest', current.financeCosts, prior.financeCosts, { cost: true, indent: true })}
+
+            {heading('Result')}
+            {line('Net profit', current.netProfit, prior.netProfit, { total: true })}
+
+            {entity && heading(entity.kind === 'company' ? 'Corporation tax (est.)' : 'Income tax (est.)')}
+            {entity?.kind === 'individual' && (
+              <>
+                {line('Tax on profit before finance costs', currentTax.tax + currentTax.financeCredit, priorTax.tax + priorTax.financeCredit, { cost: true, indent: true })}
+                {line('Section 24 finance-cost credit', currentTax.financeCredit, priorTax.financeCredit, { indent: true })}
+              </>
+            )}
+            {entity?.kind === 'company' && line('Corporation tax on net profit', currentTax.tax, priorTax.tax, { cost: true, indent: true })}
+            {entity && line('Profit after tax', current.netProfit - currentTax.tax, prior.netProfit - priorTax.tax, { total: true })}
+          </tbody>
+        </table>
+        {current.noMortgage.length > 0 && (
+          <div style={{ padding: '10px 18px', fontSize: 11, color: AMBER, borderTop: `1px solid ${BORDER}` }}>
+            No mortgage recorded for {current.noMortgage.length === 1 ? current.noMortgage[0].address : `${current.noMortgage.length} properties`} — finance costs for{' '}
+            {current.noMortgage.length === 1 ? 'it' : 'them'} are not included.
+          </div>
+        )}
+        <div style={{ padding: '10px 18px', fontSize: 11, color: TEXT3, borderTop: `1px solid ${BORDER}` }}>
+          Income and expenses are the transactions ledger by item type, on the dates recorded. Mortgage interest is taken
+          from the recorded repayment schedules; capital repayments are not an expense.
+          {entity && (
+            <> Figures are {entity.name}’s share of each property. Tax is on top of other
+              {entity.kind === 'company' ? ' profits' : ' income'} of £{fmt(entity.other_income)}, at today’s rates, before any losses brought forward.</>
+          )}
+        </div>
+      </div>
+
+      {/* ── PER-PROPERTY SUMMARY ────────────────────────────────────────── */}
+      {(scope === PORTFOLIO || entity) && held.length > 1 && (
+        <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', maxWidth: 820, marginTop: 24 }}>
+          <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+            By Property · {taxYearLabel(taxYear)}
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: SURFACE2 }}>
+                {['Property', ...(entity ? ['Share'] : []), 'Rental Income', 'Expenses', 'Finance Costs', 'Net Profit'].map((h, i) => (
+                  <th key={h} align={i === 0 ? 'left' : 'right'} style={{
+                    padding: '8px 18px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+                    letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`,
+                  }}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {held.map(({ property: p, share }) => {
+                const s = holdingsStatement([{ property: p, share }], ledger, mortgages, taxYear)
+                return (
+                  <tr key={p.property_id} onClick={() => setScope(p.property_id)} style={{ cursor: 'pointer' }}>
+                    <td style={{ ...cell, color: TEXT2 }}>{p.address}</td>
+                    {entity && <td align="right" style={{ ...cell, color: TEXT3 }}>{Number((share * 100).toFixed(2))}%</td>}
+                    <td align="right" style={{ ...cell, color: TEXT }}>{fmtAcc(s.rentalIncome)}</td>
+                    <td align="right" style={{ ...cell, color: TEXT2 }}>{fmtAcc(-s.totalExpenses)}</td>
+                    <td align="right" style={{ ...cell, color: TEXT2 }}>{fmtAcc(-s.financeCosts)}</td>
+                    <td align="right" style={{ ...cell, fontWeight: 600, color: s.netProfit >= 0 ? GREEN : RED }}>{fmtAcc(s.netProfit)}</td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
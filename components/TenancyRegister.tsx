@@ -0,0 +1,392 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import {
+  DEPOSIT_SCHEMES, OCCUPANCY_STATUSES, RENT_FREQUENCIES,
+  type LedgerEntry, type OccupancyPeriod, type Property, type Tenancy,
+} from '@/lib/models'
+import {
+  DEPOSIT_SCHEME_LABELS, RENT_FREQUENCY_LABELS, annualRent, isCurrent, rentRoll,
+} from '@/lib/tenancies'
+import { OCCUPANCY_STATUS_LABELS, occupancyStats } from '@/lib/occupancy'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const BG       = '#070c14'
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+function fmt(n: number) {
+  return n.toLocaleString('en-GB', { maximumFractionDigits: 0 })
+}
+function fmtDate(dateStr: string) {
+  const d = new Date(dateStr + 'T00:00:00')
+  return d.toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: '2-digit' })
+}
+
+// Form state keeps every field as a string, as the inputs do
+type TenancyForm = Record<
+  'tenant_name' | 'room' | 'rent' | 'rent_frequency' | 'start_date' | 'end_date' | 'deposit_amount' | 'deposit_scheme',
+  string
+>
+
+function toForm(t?: Tenancy): TenancyForm {
+  return {
+    tenant_name: t?.tenant_name ?? '', room: t?.room ?? '',
+    rent: t ? String(t.rent) : '', rent_frequency: t?.rent_frequency ?? 'monthly',
+    start_date: t?.start_date ?? '', end_date: t?.end_date ?? '',
+    deposit_amount: t?.deposit_amount === null || !t ? '' : String(t.deposit_amount),
+    deposit_scheme: t?.deposit_scheme ?? '',
+  }
+}
+
+const inputStyle: React.CSSProperties = {
+  background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+  padding: '5px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', width: '100%', boxSizing: 'border-box',
+}
+
+function buttonStyle(color: string): React.CSSProperties {
+  return {
+    background: 'none', border: `1px solid ${BORDER2}`, color, borderRadius: 3,
+    padding: '2px 8px', fontSize: 10, fontWeight: 600, fontFamily: FONT, cursor: 'pointer', whiteSpace: 'nowrap',
+  }
+}
+
+// ─── Manual occupancy entries ─────────────────────────────────────────────────
+// Beds let outside the register, or voids it doesn't show; they override tenancy dates
+function OccupancyEntries({ property, periods, canEdit, busy, send }: {
+  property: Property
+  periods: OccupancyPeriod[]
+  canEdit: boolean
+  busy: boolean
+  send: (url: string, method: string, body?: unknown) => Promise<boolean>
+}) {
+  const blank = { room: '', status: 'void', start_date: '', end_date: '', note: '' }
+  const [adding, setAdding] = useState(false)
+  const [form, setForm] = useState(blank)
+
+  if (periods.length === 0 && !canEdit) return null
+
+  async function add() {
+    if (await send('/api/occupancy', 'POST', { ...form, property_id: property.property_id })) {
+      setAdding(false)
+      setForm(blank)
+    }
+  }
+
+  const input = (key: keyof typeof blank, placeholder: string, type = 'text', width = 110) => (
+    <input
+      type={type} value={form[key]} placeholder={placeholder}
+      onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))}
+      style={{ ...inputStyle, width }}
+    />
+  )
+
+  return (
+    <div style={{ padding: '10px 18px', borderTop: `1px solid ${BORDER}` }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: periods.length > 0 || adding ? 8 : 0 }}>
+        <div style={{ fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', fontWeight: 600 }}>
+          Occupancy entries
+        </div>
+        {periods.length === 0 && <div style={{ fontSize: 11, color: TEXT3 }}>None — occupancy follows the tenancy dates.</div>}
+        {canEdit && !adding && (
+          <button onClick={() => setAdding(true)} style={{ ...buttonStyle(TEXT2), marginLeft: 'auto' }}>Add entry</button>
+        )}
+      </div>
+      {periods.map(o => (
+        <div key={o.id} style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 12, padding: '3px 0' }}>
+          <span style={{ color: o.status === 'void' ? AMBER : GREEN, minWidth: 64 }}>{OCCUPANCY_STATUS_LABELS[o.status]}</span>
+          <span style={{ color: TEXT2, minWidth: 90 }}>{o.room ?? 'Whole property'}</span>
+          <span style={{ color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>
+            {fmtDate(o.start_date)} – {o.end_date ? fmtDate(o.end_date) : 'ongoing'}
+          </span>
+          {o.note && <span style={{ color: TEXT3, fontStyle: 'italic' }}>{o.note}</span>}
+          {canEdit && (
+            <button
+              onClick={() => send(`/api/occupancy/${encodeURIComponent(o.id)}`, 'DELETE')}
+              disabled={busy}
+              style={{ ...buttonStyle(RED), marginLeft: 'auto' }}
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      ))}
+      {adding && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+          <select value={form.status} onChange={e => setForm(f => ({ ...f, status: e.target.value }))} style={{ ...inputStyle, width: 100 }}>
+            {OCCUPANCY_STATUSES.map(st => <option key={st} value={st}>{OCCUPANCY_STATUS_LABELS[st]}</option>)}
+          </select>
+          {input('room', 'Room (blank = all)')}
+          {input('start_date', 'Start', 'date', 130)}
+          {input('end_date', 'End', 'date', 130)}
+          {input('note', 'Note', 'text', 180)}
+          <button onClick={add} disabled={busy} style={buttonStyle(GOLD)}>{busy ? 'Saving…' : 'Add'}</button>
+          <button onClick={() => { setAdding(false); setForm(blank) }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ─── Main component ───────────────────────────────────────────────────────────
+export default function TenancyRegister({ properties, tenancies, occupancyPeriods, ledger, canEdit }: {
+  properties: Property[]
+  tenancies: Tenancy[]
+  occupancyPeriods: OccupancyPeriod[]
+  ledger: LedgerEntry[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  // Which form is open: a property id when adding, otherwise the tenancy id being edited
+  const [editing, setEditing] = useState<{ propertyId: string; id: string | null } | null>(null)
+  const [form, setForm] = useState<TenancyForm>(toForm())
+  const [showEnded, setShowEnded] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const today = new Date().toISOString().slice(0, 10)
+  const roll = rentRoll(properties, tenancies, ledger, today)
+  const totals = {
+    contracted: roll.reduce((s, r) => s + r.contracted, 0),
+    projected:  roll.reduce((s, r) => s + r.projected, 0),
+    actual:     roll.reduce((s, r) => s + (r.actual ?? 0), 0),
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true)
+    setError('')
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    }).catch(() => null)
+    const json = await res?.json().catch(() => null)
+    setBusy(false)
+    if (!res?.ok) {
+      setError(json?.error ?? 'Request failed')
+      return false
+    }
+    router.refresh()
+    return true
+  }
+
+  async function save() {
+    if (!editing) return
+    const ok = editing.id === null
+      ? await send('/api/tenancies', 'POST', { ...form, property_id: editing.propertyId })
+      : await send(`/api/tenancies/${encodeURIComponent(editing.id)}`, 'PATCH', form)
+    if (ok) setEditing(null)
+  }
+
+  async function remove(t: Tenancy) {
+    if (!window.confirm(`Delete ${t.tenant_name}’s tenancy? To record that it has ended, set an end date instead.`)) return
+    await send(`/api/tenancies/${encodeURIComponent(t.id)}`, 'DELETE')
+  }
+
+  const cell: React.CSSProperties = { padding: '8px 14px', fontSize: 12, borderBottom: `1px solid ${BORDER}`, fontVariantNumeric: 'tabular-nums' }
+  const head = (labels: string[], rightFrom: number) => (
+    <thead>
+      <tr style={{ background: SURFACE2 }}>
+        {labels.map((h, i) => (
+          <th key={i} align={i >= rightFrom && h !== '' ? 'right' : 'left'} style={{
+            padding: '8px 14px', fontSize: 10, color: TEXT3, textTransform: 'uppercase',
+            letterSpacing: '1px', fontWeight: 600, borderBottom: `1px solid ${BORDER2}`, whiteSpace: 'nowrap',
+          }}>{h}</th>
+        ))}
+      </tr>
+    </thead>
+  )
+  const label: React.CSSProperties = { fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1px', marginBottom: 4 }
+  const field = (key: keyof TenancyForm, title: string, type = 'text') => (
+    <div>
+      <div style={label}>{title}</div>
+      <input type={type} value={form[key]} onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))} style={inputStyle} />
+    </div>
+  )
+  const select = (key: keyof TenancyForm, title: string, options: readonly string[], labels: Record<string, string>, blank?: string) => (
+    <div>
+      <div style={label}>{title}</div>
+      <select value={form[key]} onChange={e => setForm(f => ({ ...f, [key]: e.target.value }))} style={inputStyle}>
+        {blank !== undefined && <option value="">{blank}</option>}
+        {options.map(o => <option key={o} value={o}>{labels[o]}</option>)}
+      </select>
+    </div>
+  )
+  const variance = (a: number, b: number) => {
+    const diff = a - b
+    return <span style={{ color: diff >= 0 ? GREEN : RED }}>{diff >= 0 ? '+' : '-'}£{fmt(Math.abs(diff))}</span>
+  }
+
+  const tenancyForm = (
+    <div style={{ padding: '14px 18px', background: SURFACE2, borderBottom: `1px solid ${BORDER2}` }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 10, marginBottom: 10 }}>
+        {field('tenant_name', 'Tenant')}
+        {field('room', 'Room / bed')}
+        {field('rent', 'Rent £')}
+        {select('rent_frequency', 'Per', RENT_FREQUENCIES, RENT_FREQUENCY_LABELS)}
+        {field('start_date', 'Start', 'date')}
+        {field('end_date', 'End (blank if periodic)', 'date')}
+        {field('deposit_amount', 'Deposit £')}
+        {select('deposit_scheme', 'Protection scheme', DEPOSIT_SCHEMES, DEPOSIT_SCHEME_LABELS, 'Not protected')}
+      </div>
+      <div style={{ display: 'flex', gap: 6 }}>
+        <button onClick={save} disabled={busy} style={buttonStyle(GOLD)}>
+          {busy ? 'Saving…' : editing?.id === null ? 'Add' : 'Save'}
+        </button>
+        <button onClick={() => { setEditing(null); setError('') }} disabled={busy} style={buttonStyle(TEXT3)}>Cancel</button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div style={{ padding: '36px 48px', fontFamily: FONT, background: BG, minHeight: '100vh', color: TEXT }}>
+
+      {/* ── PAGE HEADER ─────────────────────────────────────────────────── */}
+      <div style={{
+        display: 'flex', alignItems: 'flex-end', justifyContent: 'space-between',
+        marginBottom: 32, paddingBottom: 24, borderBottom: `1px solid ${BORDER}`,
+      }}>
+        <div>
+          <Link href="/" style={{ fontSize: 11, color: TEXT3, textDecoration: 'none' }}>← Portfolio Performance</Link>
+          <h1 style={{ margin: '10px 0 0', fontSize: 26, fontWeight: 700, color: TEXT, letterSpacing: '-0.5px', lineHeight: 1 }}>
+            Tenancies
+          </h1>
+        </div>
+        <label style={{ fontSize: 12, color: TEXT3, display: 'flex', alignItems: 'center', gap: 6, cursor: 'pointer' }}>
+          <input type="checkbox" checked={showEnded} onChange={e => setShowEnded(e.target.checked)} style={{ accentColor: GOLD }} />
+          Show ended and future tenancies
+        </label>
+      </div>
+
+      {error && <div style={{ fontSize: 12, color: RED, marginBottom: 16 }}>{error}</div>}
+
+      {/* ── RENT ROLL ───────────────────────────────────────────────────── */}
+      <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 28 }}>
+        <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+          <div style={{ fontSize: 10, color: GOLD, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>Rent Roll</div>
+          <div style={{ fontSize: 11, color: TEXT3 }}>Annual figures · contracted from tenancies current today</div>
+        </div>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          {head(['Property', 'Rooms Let', 'Contracted', 'Projected', 'vs Projected', 'Actual (ann.)', 'vs Actual', 'Deposits'], 1)}
+          <tbody>
+            {roll.map(r => (
+              <tr key={r.property.property_id}>
+                <td style={{ ...cell, color: TEXT }}>{r.property.address}</td>
+                <td align="right" style={{ ...cell, color: r.tenancies.length < r.property.beds_phase2 ? AMBER : TEXT2 }}>
+                  {r.tenancies.length} / {r.property.beds_phase2}
+                </td>
+                <td align="right" style={{ ...cell, color: TEXT, fontWeight: 600 }}>£{fmt(r.contracted)}</td>
+                <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(r.projected)}</td>
+                <td align="right" style={cell}>{variance(r.contracted, r.projected)}</td>
+                <td align="right" style={{ ...cell, color: TEXT2 }}>{r.actual === null ? '—' : `£${fmt(r.actual)}`}</td>
+                <td align="right" style={cell}>{r.actual === null ? <span style={{ color: TEXT3 }}>—</span> : variance(r.contracted, r.actual)}</td>
+                <td align="right" style={{ ...cell, color: r.unprotected > 0 ? RED : TEXT3 }}>
+                  {r.unprotected > 0 ? `${r.unprotected} unprotected` : r.tenancies.length > 0 ? 'Protected' : '—'}
+                </td>
+              </tr>
+            ))}
+            <tr style={{ background: SURFACE2 }}>
+              <td style={{ ...cell, color: TEXT, fontWeight: 700 }}>Portfolio</td>
+              <td align="right" style={{ ...cell, color: TEXT2 }}>
+                {roll.reduce((s, r) => s + r.tenancies.length, 0)} / {roll.reduce((s, r) => s + r.property.beds_phase2, 0)}
+              </td>
+              <td align="right" style={{ ...cell, color: TEXT, fontWeight: 700 }}>£{fmt(totals.contracted)}</td>
+              <td align="right" style={{ ...cell, color: TEXT2, fontWeight: 700 }}>£{fmt(totals.projected)}</td>
+              <td align="right" style={{ ...cell, fontWeight: 700 }}>{variance(totals.contracted, totals.projected)}</td>
+              <td align="right" style={{ ...cell, color: TEXT2, fontWeight: 700 }}>£{fmt(totals.actual)}</td>
+              <td align="right" style={{ ...cell, fontWeight: 700 }}>{variance(totals.contracted, totals.actual)}</td>
+              <td style={cell} />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── REGISTER ────────────────────────────────────────────────────── */}
+      {properties.map(p => {
+        const own = tenancies
+          .filter(t => t.property_id === p.property_id && (showEnded || isCurrent(t, today)))
+          .sort((a, b) => (a.room ?? '').localeCompare(b.room ?? '') || a.start_date.localeCompare(b.start_date))
+        const occupancy = occupancyStats(p, tenancies, occupancyPeriods, today)
+        return (
+          <div key={p.property_id} style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderRadius: 4, overflow: 'hidden', marginBottom: 16 }}>
+            <div style={{ padding: '12px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+              <div style={{ fontSize: 13, fontWeight: 600, color: TEXT }}>{p.address}</div>
+              <div style={{ fontSize: 11, color: TEXT3 }}>{p.beds_phase2} beds · {p.city}</div>
+              {occupancy && (
+                <div style={{ fontSize: 11, color: TEXT3 }}>
+                  Occupancy (12 mo){' '}
+                  <span style={{ color: occupancy.rentLostAnn <= p.provision_voids_phase2 ? GREEN : AMBER, fontWeight: 600 }}>
+                    {occupancy.occupancyPct.toFixed(1)}%
+                  </span>
+                  {' '}· {fmt(occupancy.voidBedDays)} void bed-days · £{fmt(occupancy.rentLostAnn)} lost p.a. vs £{fmt(p.provision_voids_phase2)} provision
+                </div>
+              )}
+              {canEdit && editing === null && (
+                <button
+                  onClick={() => { setEditing({ propertyId: p.property_id, id: null }); setForm(toForm()); setError('') }}
+                  style={{ ...buttonStyle(GOLD), marginLeft: 'auto' }}
+                >
+                  Add tenancy
+                </button>
+              )}
+            </div>
+            {editing?.propertyId === p.property_id && editing.id === null && tenancyForm}
+            {own.length === 0 ? (
+              <div style={{ padding: '10px 18px', fontSize: 12, color: TEXT3 }}>No {showEnded ? '' : 'current '}tenancies recorded.</div>
+            ) : (
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                {head(['Room', 'Tenant', 'Rent', 'Annual', 'Start', 'End', 'Deposit', ''], 2)}
+                <tbody>
+                  {own.map(t => editing?.id === t.id ? (
+                    <tr key={t.id}><td colSpan={8} style={{ padding: 0 }}>{tenancyForm}</td></tr>
+                  ) : (
+                    <tr key={t.id} style={{ opacity: isCurrent(t, today) ? 1 : 0.5 }}>
+                      <td style={{ ...cell, color: TEXT2 }}>{t.room ?? '—'}</td>
+                      <td style={{ ...cell, color: TEXT }}>{t.tenant_name}</td>
+                      <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(t.rent)} {RENT_FREQUENCY_LABELS[t.rent_frequency]}</td>
+                      <td align="right" style={{ ...cell, color: TEXT2 }}>£{fmt(annualRent(t))}</td>
+                      <td align="right" style={{ ...cell, color: TEXT3 }}>{fmtDate(t.start_date)}</td>
+                      <td align="right" style={{ ...cell, color: TEXT3 }}>{t.end_date ? fmtDate(t.end_date) : 'Periodic'}</td>
+                      <td align="right" style={{ ...cell, color: t.deposit_amount && !t.deposit_scheme ? RED : TEXT3 }}>
+                        {t.deposit_amount ? `£${fmt(t.deposit_amount)} · ${t.deposit_scheme ? DEPOSIT_SCHEME_LABELS[t.deposit_scheme] : 'not protected'}` : '—'}
+                      </td>
+                      <td align="right" style={cell}>
+                        {canEdit && editing === null && (
+                          <div style={{ display: 'flex', gap: 4, justifyContent: 'flex-end' }}>
+                            <button onClick={() => { setEditing({ propertyId: p.property_id, id: t.id }); setForm(toForm(t)); setError('') }} style={buttonStyle(TEXT2)}>
+                              Edit
+                            </button>
+                            <button onClick={() => remove(t)} disabled={busy} style={buttonStyle(RED)}>Delete</button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <OccupancyEntries
+              property={p}
+              periods={occupancyPeriods.filter(o => o.property_id === p.property_id)}
+              canEdit={canEdit}
+              busy={busy}
+              send={send}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
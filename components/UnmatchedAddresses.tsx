@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { LedgerEntry, Property, StarlingTransaction } from '@/lib/models'
+
+// ─── Design tokens ────────────────────────────────────────────────────────────
+const SURFACE  = '#0c1322'
+const SURFACE2 = '#111927'
+const BORDER   = '#1c2535'
+const BORDER2  = '#243045'
+const GOLD     = '#c9a842'
+const GREEN    = '#22c55e'
+const RED      = '#ef4444'
+const AMBER    = '#f59e0b'
+const TEXT     = '#dde2ed'
+const TEXT2    = '#8e9ab5'
+const TEXT3    = '#4a5570'
+const FONT     = 'var(--font-geist-sans), system-ui, -apple-system, sans-serif'
+
+interface UnmatchedGroup {
+  address: string
+  source: 'Ledger' | 'Starling'
+  count: number
+  total: number
+  lastDate: string | null
+}
+
+// Group rows whose free-text address did not resolve to any property
+function groupUnmatched(ledger: LedgerEntry[], starling: StarlingTransaction[]): UnmatchedGroup[] {
+  const groups = new Map<string, UnmatchedGroup>()
+  const add = (source: UnmatchedGroup['source'], address: string, amount: number, date: string | null) => {
+    const key = `${source}|${address}`
+    const g = groups.get(key) ?? { address, source, count: 0, total: 0, lastDate: null }
+    g.count += 1
+    g.total += amount
+    if (date && (!g.lastDate || date > g.lastDate)) g.lastDate = date
+    groups.set(key, g)
+  }
+  for (const t of ledger) if (!t.property_id) add('Ledger', t.property_address.trim(), t.amount, t.date)
+  // Starling rows without an address are simply uncategorised, not unmatched
+  for (const t of starling) if (!t.property_id && t.property_address) add('Starling', t.property_address.trim(), t.amount_gbp, t.date)
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count)
+}
+
+export default function UnmatchedAddresses({ ledger, starling, properties, canEdit }: {
+  ledger: LedgerEntry[]
+  starling: StarlingTransaction[]
+  properties: Property[]
+  canEdit: boolean
+}) {
+  const router = useRouter()
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const groups = groupUnmatched(ledger, starling)
+  if (groups.length === 0) return null
+
+  async function assign(address: string) {
+    const propertyId = choices[address]
+    if (!propertyId) return
+    setSaving(address)
+    setError('')
+    const res = await fetch('/api/address-aliases', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ alias: address, property_id: propertyId }),
+    })
+    if (res.ok) {
+      router.refresh()
+    } else {
+      const body = await res.json().catch(() => null)
+      setError(body?.error ?? 'Could not save alias')
+    }
+    setSaving(null)
+  }
+
+  const cell: React.CSSProperties = { padding: '7px 10px', fontSize: 12, borderBottom: `1px solid ${BORDER}` }
+
+  return (
+    <div style={{ background: SURFACE, border: `1px solid ${BORDER}`, borderLeft: `3px solid ${AMBER}`, borderRadius: 4, overflow: 'hidden', marginTop: 16 }}>
+      <div style={{ padding: '14px 18px', borderBottom: `1px solid ${BORDER2}`, display: 'flex', alignItems: 'center', gap: 12 }}>
+        <div style={{ fontSize: 10, color: AMBER, textTransform: 'uppercase', letterSpacing: '2px', fontWeight: 600 }}>
+          Unmatched Addresses
+        </div>
+        <div style={{ fontSize: 11, color: TEXT3 }}>
+          These rows are excluded from per-property figures until their address is assigned to a property
+        </div>
+        <div style={{ marginLeft: 'auto', fontSize: 11, color: TEXT3 }}>
+          {groups.reduce((s, g) => s + g.count, 0)} records
+        </div>
+      </div>
+      {error && <div style={{ padding: '8px 18px', fontSize: 12, color: RED }}>{error}</div>}
+      <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              {['Address as recorded', 'Source', 'Rows', 'Total', 'Latest', ...(canEdit ? ['Assign to property'] : [])].map((h, i) => (
+                <th key={h} align={i >= 2 && i <= 3 ? 'right' : 'left'} style={{
+                  position: 'sticky', top: 0, background: SURFACE2, zIndex: 2,
+                  padding: i === 0 ? '9px 10px 9px 18px' : '9px 10px',
+                  fontWeight: 600, fontSize: 10, color: TEXT3, textTransform: 'uppercase', letterSpacing: '1.2px',
+                  borderBottom: `1px solid ${BORDER2}`,
+                }}>
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((g, idx) => (
+              <tr key={`${g.source}|${g.address}`} style={{ background: idx % 2 === 0 ? 'transparent' : 'rgba(255,255,255,0.012)' }}>
+                <td style={{ ...cell, paddingLeft: 18, color: g.address ? TEXT : TEXT3, fontStyle: g.address ? 'normal' : 'italic' }}>
+                  {g.address || 'No address recorded'}
+                </td>
+                <td style={{ ...cell, color: TEXT3 }}>{g.source}</td>
+                <td align="right" style={{ ...cell, color: TEXT2, fontVariantNumeric: 'tabular-nums' }}>{g.count}</td>
+                <td align="right" style={{ ...cell, color: g.total >= 0 ? GREEN : RED, fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}>
+                  £{g.total.toLocaleString('en-GB', { maximumFractionDigits: 0 })}
+                </td>
+                <td style={{ ...cell, color: TEXT3, fontVariantNumeric: 'tabular-nums' }}>{g.lastDate ?? '—'}</td>
+                {canEdit && (
+                  <td style={cell}>
+                    {g.address && (
+                      <div style={{ display: 'flex', gap: 6 }}>
+                        <select
+                          value={choices[g.address] ?? ''}
+                          onChange={e => setChoices(c => ({ ...c, [g.address]: e.target.value }))}
+                          style={{
+                            background: SURFACE2, color: TEXT, border: `1px solid ${BORDER2}`, borderRadius: 3,
+                            padding: '4px 8px', fontSize: 11, fontFamily: FONT, outline: 'none', minWidth: 200,
+                          }}
+                        >
+                          <option value="">Select property…</option>
+                          {properties.map(p => (
+                            <option key={p.property_id} value={p.property_id}>{p.address}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => assign(g.address)}
+                          disabled={!choices[g.address] || saving !== null}
+                          style={{
+                            background: choices[g.address] ? 'rgba(201,168,66,0.1)' : 'transparent',
+                            border: `1px solid ${choices[g.address] ? GOLD : BORDER2}`,
+                            color: choices[g.address] ? GOLD : TEXT3,
+                            borderRadius: 3, padding: '4px 10px', fontSize: 11, fontWeight: 600, fontFamily: FONT,
+                            cursor: choices[g.address] ? 'pointer' : 'default',
+                          }}
+                        >
+                          {saving === g.address ? 'Saving…' : 'Assign'}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { cache } from 'react'
+import { NextResponse } from 'next/server'
+import { getSession } from '@/lib/session'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { ROLE_LABELS, canEdit, type Role, type Viewer } from '@/lib/roles'
+
+// Loaded on every request (deduped per render) so role changes apply without re-login
+export const getViewer = cache(async (): Promise<Viewer | null> => {
+  const session = await getSession()
+  if (!session) return null
+
+  const { data: row, error } = await supabaseAdmin
+    .from('dashboard_users')
+    .select('id, email, display_name, role, all_properties, property_ids')
+    .eq('id', session.sub)
+    .maybeSingle()
+  if (error) throw error
+  if (!row) return null
+
+  const role = row.role as Role
+  return {
+    id: row.id,
+    email: row.email,
+    displayName: row.display_name,
+    role,
+    propertyIds: role === 'owner' || row.all_properties ? null : (row.property_ids ?? []),
+    canEdit: canEdit(role),
+  }
+})
+
+// ─── Route handler guard ──────────────────────────────────────────────────────
+// const viewer = await requireViewer({ edit: true }); if (viewer instanceof NextResponse) return viewer
+export async function requireViewer({ edit = false }: { edit?: boolean } = {}): Promise<Viewer | NextResponse> {
+  const viewer = await getViewer()
+  if (!viewer) return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  if (edit && !viewer.canEdit) {
+    return NextResponse.json({ error: `${ROLE_LABELS[viewer.role]} accounts cannot make changes` }, { status: 403 })
+  }
+  return viewer
+}
@@ -0,0 +1,46 @@
+import type { AddressAlias } from '@/lib/models'
+
+// Resolves free-text agent / bank addresses to a property_id by exact match on a
+// normalised form. Substring matching is deliberately avoided: "6 Pennington Grove"
+// must never match "16 Pennington Grove".
+
+// Common agent abbreviations, expanded before comparing. 'St' is left alone because
+// it is as often "Saint" (St Michaels Road) as "Street".
+const ABBREVIATIONS: Record<string, string> = {
+  rd: 'road', ave: 'avenue', av: 'avenue', tce: 'terrace', terr: 'terrace',
+  gr: 'grove', gro: 'grove', mt: 'mount', ln: 'lane', cres: 'crescent',
+  dr: 'drive', pl: 'place', ct: 'court', gdns: 'gardens', sq: 'square',
+}
+
+export function normaliseAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[.,'’]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(w => ABBREVIATIONS[w] ?? w)
+    .join(' ')
+}
+
+// First line only: "6 Pennington Grove, Leeds LS6 2JP" → "6 pennington grove"
+function firstLine(address: string): string {
+  return normaliseAddress(address.split(',')[0])
+}
+
+export function buildAddressResolver(
+  properties: { property_id: string; address: string }[],
+  aliases: AddressAlias[],
+) {
+  const byKey = new Map<string, string>()
+  for (const p of properties) {
+    byKey.set(normaliseAddress(p.address), p.property_id)
+    byKey.set(firstLine(p.address), p.property_id)
+  }
+  // Explicit aliases win over the automatic keys
+  for (const a of aliases) byKey.set(normaliseAddress(a.alias), a.property_id)
+
+  return (address: string | null | undefined): string | null => {
+    if (!address) return null
+    return byKey.get(normaliseAddress(address)) ?? byKey.get(firstLine(address)) ?? null
+  }
+}
@@ -0,0 +1,88 @@
+import type { LedgerEntry } from '@/lib/models'
+import { normaliseAddress } from '@/lib/addresses'
+import { parseMoney, parseUkDate } from '@/lib/csv'
+
+// Parses letting-agent statement exports (CSV or XLSX, already read into a grid
+// of strings) and diffs them against the ledger. Client-safe.
+
+// ─── Statement rows ───────────────────────────────────────────────────────────
+export type AgentRow = Omit<LedgerEntry, 'id' | 'property_id' | 'source_starling_id'> & {
+  line: number   // 1-based row in the file, for errors and the diff
+}
+
+// The agent's column names, which the transactions table keeps
+export const AGENT_COLUMNS = {
+  date:             'Item date',
+  property_address: 'Property address',
+  description:      'Item description',
+  type:             'Item type',
+  amount:           'Item amount inc VAT',
+} as const
+
+export function parseAgentStatement(table: string[][]): { rows: AgentRow[]; errors: string[] } {
+  // Exports sometimes open with a title block; the header is the first row naming every column
+  const wanted = Object.values(AGENT_COLUMNS).map(c => c.toLowerCase())
+  const headerAt = table.findIndex(cells => {
+    const names = cells.map(c => c.trim().toLowerCase())
+    return wanted.every(w => names.includes(w))
+  })
+  if (headerAt === -1) {
+    return { rows: [], errors: [`Expected columns: ${Object.values(AGENT_COLUMNS).join(', ')}`] }
+  }
+
+  const names = table[headerAt].map(c => c.trim().toLowerCase())
+  const index = Object.fromEntries(
+    Object.entries(AGENT_COLUMNS).map(([key, column]) => [key, names.indexOf(column.toLowerCase())]),
+  ) as Record<keyof typeof AGENT_COLUMNS, number>
+
+  const rows: AgentRow[] = []
+  const errors: string[] = []
+  table.slice(headerAt + 1).forEach((cells, i) => {
+    const line = headerAt + i + 2
+    const cell = (key: keyof typeof AGENT_COLUMNS) => (cells[index[key]] ?? '').trim()
+    // Subtotal and blank lines carry no date
+    if (cell('date') === '' && cell('type') === '') return
+    const date = parseUkDate(cell('date'))
+    const amount = parseMoney(cell('amount'))
+    if (!date) { errors.push(`Row ${line}: unrecognised date "${cell('date')}"`); return }
+    if (amount === null) { errors.push(`Row ${line}: unrecognised amount "${cell('amount')}"`); return }
+    if (!cell('type')) { errors.push(`Row ${line}: missing item type`); return }
+    rows.push({
+      line,
+      date,
+      property_address: cell('property_address'),
+      description:      cell('description'),
+      type:             cell('type'),
+      amount,
+    })
+  })
+  return { rows, errors }
+}
+
+// ─── De-duplication ───────────────────────────────────────────────────────────
+export function ledgerKey(t: Pick<LedgerEntry, 'date' | 'property_address' | 'description' | 'type' | 'amount'>) {
+  return [
+    t.date, normaliseAddress(t.property_address), t.type.trim().toLowerCase(),
+    t.amount.toFixed(2), t.description.trim().toLowerCase(),
+  ].join('|')
+}
+
+export interface AgentStatementDiff {
+  fresh: AgentRow[]
+  duplicates: AgentRow[]
+}
+
+// Agents legitimately repeat identical lines (two call-out fees on one day), so
+// this counts: a row is new only once the stored copies of it are used up.
+export function diffAgentStatement(rows: AgentRow[], existing: LedgerEntry[]): AgentStatementDiff {
+  const stored = new Map<string, number>()
+  for (const t of existing) stored.set(ledgerKey(t), (stored.get(ledgerKey(t)) ?? 0) + 1)
+  const diff: AgentStatementDiff = { fresh: [], duplicates: [] }
+  for (const row of rows) {
+    const key = ledgerKey(row)
+    const remaining = stored.get(key) ?? 0
+    if (remaining > 0) { stored.set(key, remaining - 1); diff.duplicates.push(row) }
+    else diff.fresh.push(row)
+  }
+  return diff
+}
@@ -0,0 +1,118 @@
+import type { LedgerEntry } from '@/lib/models'
+import { distinctMonths } from '@/lib/calculations'
+import { addMonths, dayCount, daysInMonth } from '@/lib/dates'
+
+// Annualising ledger actuals for comparison with the projected yearly figures.
+// A full year of history is used as it stands; shorter histories are scaled up
+// by the days they cover, or by a portfolio-wide seasonal profile where costs
+// follow the weather. Client-safe.
+
+export const ANNUALISATION_METHODS = ['auto', 'trailing12', 'proRata', 'seasonal', 'monthlyAverage'] as const
+export type AnnualisationMethod = typeof ANNUALISATION_METHODS[number]
+export type AppliedMethod = Exclude<AnnualisationMethod, 'auto'>
+
+export const ANNUALISATION_LABELS: Record<AnnualisationMethod, string> = {
+  auto:           'Best available',
+  trailing12:     'Trailing 12 months',
+  proRata:        'Pro rata by day',
+  seasonal:       'Seasonally adjusted',
+  monthlyAverage: 'Monthly average',
+}
+
+export type Confidence = 'high' | 'medium' | 'low'
+
+export interface Annualised {
+  value: number          // signed as in the ledger
+  method: AppliedMethod  // what was applied; may differ from the one asked for
+  days: number           // history the figure rests on
+  confidence: Confidence
+}
+
+// Share of a year's total falling in each calendar month, January first; sums to 1
+export type SeasonalProfile = number[]
+
+type Entry = Pick<LedgerEntry, 'date' | 'amount'>
+
+function monthEnd(date: string) {
+  return `${date.slice(0, 7)}-${String(daysInMonth(date.slice(0, 7))).padStart(2, '0')}`
+}
+
+function confidenceFor(days: number): Confidence {
+  return days >= 330 ? 'high' : days >= 180 ? 'medium' : 'low'
+}
+
+// Each calendar month's average total across the years it appears in, as a share of
+// the year. Null until every month has been seen, as a partial profile would skew.
+export function seasonalProfile(entries: Entry[]): SeasonalProfile | null {
+  const byMonth = new Map<string, number>()
+  for (const t of entries) byMonth.set(t.date.slice(0, 7), (byMonth.get(t.date.slice(0, 7)) ?? 0) + Math.abs(t.amount))
+
+  const sums = Array<number>(12).fill(0), counts = Array<number>(12).fill(0)
+  for (const [month, total] of byMonth) {
+    const m = Number(month.slice(5)) - 1
+    sums[m] += total
+    counts[m]++
+  }
+  if (counts.some(c => c === 0)) return null
+  const averages = sums.map((s, m) => s / counts[m])
+  const year = averages.reduce((s, a) => s + a, 0)
+  return year > 0 ? averages.map(a => a / year) : null
+}
+
+// From the first entry to the end of the latest month with an entry, which is
+// taken as complete. Null when there is nothing to annualise.
+export function annualise(
+  entries: Entry[], method: AnnualisationMethod = 'auto', profile: SeasonalProfile | null = null,
+): Annualised | null {
+  const total = entries.reduce((s, t) => s + t.amount, 0)
+  if (entries.length === 0 || total === 0) return null
+  const dates = entries.map(t => t.date).sort()
+  const first = dates[0]
+  const last = monthEnd(dates[dates.length - 1])
+  const days = dayCount(first, last)
+
+  const yearStart = addMonths(last, -12)
+  const wanted = method !== 'auto' ? method
+    : first <= yearStart ? 'trailing12'
+    : profile ? 'seasonal'
+    : 'proRata'
+
+  if (wanted === 'trailing12' && first <= yearStart) {
+    const value = entries.filter(t => t.date > yearStart).reduce((s, t) => s + t.amount, 0)
+    return { value, method: 'trailing12', days: dayCount(yearStart, last) - 1, confidence: 'high' }
+  }
+
+  if (wanted === 'monthlyAverage') {
+    const months = distinctMonths(entries)
+    return { value: (total / months) * 12, method: 'monthlyAverage', days: months * 30, confidence: confidenceFor(months * 30) }
+  }
+
+  if (wanted === 'seasonal' && profile) {
+    // The share of a normal year the history covers, part months pro rata; over a year, more than 1
+    let share = 0
+    for (let date = `${first.slice(0, 7)}-01`; date <= last; date = addMonths(date, 1)) {
+      const month = date.slice(0, 7)
+      const covered = month === first.slice(0, 7) ? dayCount(first, monthEnd(first)) / daysInMonth(month) : 1
+      share += profile[Number(month.slice(5)) - 1] * covered
+    }
+    if (share > 0) return { value: total / share, method: 'seasonal', days, confidence: confidenceFor(days) }
+  }
+
+  // Too little history for a trailing year, or no profile: scale by the days covered
+  return { value: total * (365 / days), method: 'proRata', days, confidence: confidenceFor(days) }
+}
+
+// ─── Describing the figure ────────────────────────────────────────────────────
+const CONFIDENCE_ORDER: Confidence[] = ['low', 'medium', 'high']
+
+export function lowestConfidence(figures: Annualised[]): Confidence {
+  return CONFIDENCE_ORDER[Math.min(...figures.map(a => CONFIDENCE_ORDER.indexOf(a.confidence)))]
+}
+
+export function describeAnnualised(a: Annualised): string {
+  const months = Math.max(1, Math.round(a.days / 30.4))
+  if (a.method === 'trailing12') return 'trailing 12 months'
+  if (a.method === 'seasonal') return `seasonally adjusted from ${months} mo`
+  if (a.method === 'monthlyAverage') return `average of ${months} mo`
+  return `pro rata over ${a.days} days`
+}
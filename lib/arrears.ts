@@ -0,0 +1,96 @@
+import { RENT_TYPE, type LedgerEntry, type Property, type Tenancy } from '@/lib/models'
+import { addMonths, daysBetween, daysInMonth } from '@/lib/dates'
+import { annualRent } from '@/lib/tenancies'
+
+// Rent arrears: expected rent month by month against the Rent Paid rows actually
+// received. Expected rent comes from the tenancy register, or annual_rent_phase2 / 12
+// for properties with no tenancies recorded. Rent is taken as due on the 1st, or on
+// the start date in a tenancy's first month. Client-safe.
+
+export const AGING_BUCKETS = ['0–30', '31–60', '60+'] as const
+export type AgingBucket = typeof AGING_BUCKETS[number]
+
+export interface ArrearsMonth {
+  month: string        // YYYY-MM
+  expected: number
+  received: number
+}
+
+export interface ArrearsPosition {
+  property: Property
+  months: ArrearsMonth[]                   // oldest first, through the current month
+  balance: number                          // expected less received to date; negative = in credit
+  aging: Record<AgingBucket, number>       // unpaid rent by days since it fell due
+}
+
+// A tenancy's rent for the month, pro rata for the days it ran
+function tenancyRentIn(t: Tenancy, month: string) {
+  const first = `${month}-01`
+  const last = `${month}-${String(daysInMonth(month)).padStart(2, '0')}`
+  const from = t.start_date > first ? t.start_date : first
+  const to = t.end_date !== null && t.end_date < last ? t.end_date : last
+  if (from > to) return 0
+  return (annualRent(t) / 12) * ((daysBetween(from, to) + 1) / daysInMonth(month))
+}
+
+export function expectedRent(p: Property, tenancies: Tenancy[], month: string): number {
+  const own = tenancies.filter(t => t.property_id === p.property_id)
+  if (own.length === 0) return p.annual_rent_phase2 / 12
+  return own.reduce((s, t) => s + tenancyRentIn(t, month), 0)
+}
+
+function dueDate(p: Property, tenancies: Tenancy[], month: string) {
+  const starts = tenancies
+    .filter(t => t.property_id === p.property_id && t.start_date.slice(0, 7) === month)
+    .map(t => t.start_date)
+  return starts.length > 0 ? starts.sort()[0] : `${month}-01`
+}
+
+function bucketFor(days: number): AgingBucket {
+  return days <= 30 ? '0–30' : days <= 60 ? '31–60' : '60+'
+}
+
+// From the property's first rent received or first tenancy, whichever is earlier,
+// through the month containing `today`. Payments clear the oldest rent first.
+export function arrearsPosition(p: Property, tenancies: Tenancy[], ledger: LedgerEntry[], today: string): ArrearsPosition {
+  const rent = ledger.filter(t => t.property_id === p.property_id && t.type === RENT_TYPE && t.date <= today)
+  const starts = [
+    ...rent.map(t => t.date),
+    ...tenancies.filter(t => t.property_id === p.property_id).map(t => t.start_date),
+  ].filter(d => d <= today).sort()
+  const aging: Record<AgingBucket, number> = { '0–30': 0, '31–60': 0, '60+': 0 }
+  if (starts.length === 0) return { property: p, months: [], balance: 0, aging }
+
+  const received = new Map<string, number>()
+  for (const t of rent) received.set(t.date.slice(0, 7), (received.get(t.date.slice(0, 7)) ?? 0) + t.amount)
+
+  const months: ArrearsMonth[] = []
+  for (let date = `${starts[0].slice(0, 7)}-01`; date <= today; date = addMonths(date, 1)) {
+    const month = date.slice(0, 7)
+    months.push({ month, expected: expectedRent(p, tenancies, month), received: received.get(month) ?? 0 })
+  }
+
+  const totalExpected = months.reduce((s, m) => s + m.expected, 0)
+  let paid = months.reduce((s, m) => s + m.received, 0)
+  for (const m of months) {
+    const cleared = Math.min(m.expected, Math.max(0, paid))
+    paid -= cleared
+    const unpaid = m.expected - cleared
+    if (unpaid > 0.005) aging[bucketFor(daysBetween(dueDate(p, tenancies, m.month), today))] += unpaid
+  }
+
+  return { property: p, months, balance: totalExpected - months.reduce((s, m) => s + m.received, 0), aging }
+}
+
+export function portfolioArrears(properties: Property[], tenancies: Tenancy[], ledger: LedgerEntry[], today: string) {
+  const positions = properties.map(p => arrearsPosition(p, tenancies, ledger, today))
+  const aging: Record<AgingBucket, number> = { '0–30': 0, '31–60': 0, '60+': 0 }
+  for (const pos of positions) for (const b of AGING_BUCKETS) aging[b] += pos.aging[b]
+  return {
+    positions,
+    // Credit on one property does not offset arrears on another
+    arrears: positions.reduce((s, pos) => s + Math.max(0, pos.balance), 0),
+    inArrears: positions.filter(pos => pos.balance > 0.5).length,
+    aging,
+  }
+}
@@ -0,0 +1,78 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// ─── Password hashing ─────────────────────────────────────────────────────────
+// Stored format: scrypt$<salt base64>$<hash base64>
+const KEY_LENGTH = 64
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16)
+  const hash = scryptSync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, saltB64, hashB64] = stored.split('$')
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false
+  const expected = Buffer.from(hashB64, 'base64')
+  const actual = scryptSync(password, Buffer.from(saltB64, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+// Hash used when the email is unknown so a miss costs the same as a wrong password
+const DUMMY_HASH = hashPassword(randomBytes(16).toString('hex'))
+
+// ─── Login with lockout ───────────────────────────────────────────────────────
+export const MAX_FAILED_ATTEMPTS = 5
+export const LOCKOUT_MINUTES = 15
+
+export interface DashboardUser {
+  id: string
+  email: string
+  display_name: string | null
+}
+
+export type LoginResult =
+  | { ok: true; user: DashboardUser }
+  | { ok: false; reason: 'invalid' }
+  | { ok: false; reason: 'locked'; lockedUntil: string }
+
+export async function attemptLogin(email: string, password: string): Promise<LoginResult> {
+  const { data: row, error } = await supabaseAdmin
+    .from('dashboard_users')
+    .select('id, email, display_name, password_hash, failed_attempts, locked_until')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle()
+  if (error) throw error
+
+  if (!row) {
+    verifyPassword(password, DUMMY_HASH)
+    return { ok: false, reason: 'invalid' }
+  }
+
+  if (row.locked_until && new Date(row.locked_until) > new Date()) {
+    return { ok: false, reason: 'locked', lockedUntil: row.locked_until }
+  }
+
+  if (!verifyPassword(password, row.password_hash)) {
+    // The counter is reset whenever a lock is applied, so an expired lock starts a fresh count
+    const failed = row.failed_attempts + 1
+    const lockedUntil = failed >= MAX_FAILED_ATTEMPTS
+      ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+      : null
+    await supabaseAdmin
+      .from('dashboard_users')
+      .update({ failed_attempts: lockedUntil ? 0 : failed, locked_until: lockedUntil })
+      .eq('id', row.id)
+    return lockedUntil
+      ? { ok: false, reason: 'locked', lockedUntil }
+      : { ok: false, reason: 'invalid' }
+  }
+
+  await supabaseAdmin
+    .from('dashboard_users')
+    .update({ failed_attempts: 0, locked_until: null, last_login_at: new Date().toISOString() })
+    .eq('id', row.id)
+
+  return { ok: true, user: { id: row.id, email: row.email, display_name: row.display_name } }
+}
@@ -0,0 +1,76 @@
+import type { LedgerEntry, Property, Scenario } from '@/lib/models'
+
+// The property KPIs shown on the dashboard, in one place so the analysis panels,
+// scenario table and property form preview always agree. Client-safe.
+
+export type PropertyFigures = Pick<Property,
+  'cash_deposit_phase1' | 'stamp_duty' | 'solicitor_fees' | 'agent_fee' | 'renovation_cost' |
+  'renovation_mgmt_fee' | 'equity_release' | 'revaluation_estimate' | 'deposit_pct_phase2' |
+  'mortgage_rate_phase2' | 'annual_rent_phase2' | 'management_phase2' | 'provision_costs_phase2' |
+  'provision_voids_phase2' | 'bills_phase2' | 'market_value_est'>
+
+// A recorded mortgage's position (lib/mortgages.ts). Without one, the Phase 2
+// refinance is assumed to be interest-only at mortgage_rate_phase2.
+export interface DebtFigures {
+  outstanding: number
+  annualInterest: number
+  annualCapital: number   // scheduled repayments over the next year
+}
+
+export interface PropertyKpis {
+  totalCashInvested: number
+  netCashInvested: number
+  outstandingMortgage: number
+  annualMortgageInterest: number
+  annualCapitalRepayment: number
+  annualOperatingCosts: number
+  annualCashflow: number
+  monthlyCashflow: number
+  roi: number          // cash-on-cash, %
+  equity: number       // against market value
+  grossYield: number   // %
+  netYield: number     // %, before mortgage interest
+  interestCover: number | null   // rent ÷ mortgage interest; null with no interest to cover
+}
+
+export function propertyKpis(p: PropertyFigures, debt?: DebtFigures | null): PropertyKpis {
+  const totalCashInvested =
+    p.cash_deposit_phase1 + p.stamp_duty + p.solicitor_fees +
+    p.agent_fee + p.renovation_cost + p.renovation_mgmt_fee
+  const netCashInvested = totalCashInvested - p.equity_release
+  // Phase 2 mortgage is the refinance: revaluation less the deposit share
+  const outstandingMortgage = debt ? debt.outstanding : p.revaluation_estimate * (1 - p.deposit_pct_phase2)
+  const annualMortgageInterest = debt ? debt.annualInterest : outstandingMortgage * p.mortgage_rate_phase2
+  const annualCapitalRepayment = debt ? debt.annualCapital : 0
+  const annualOperatingCosts =
+    p.management_phase2 + p.provision_costs_phase2 + p.provision_voids_phase2 + (p.bills_phase2 || 0)
+  const annualCashflow = p.annual_rent_phase2 - annualOperatingCosts - annualMortgageInterest - annualCapitalRepayment
+
+  return {
+    totalCashInvested,
+    netCashInvested,
+    outstandingMortgage,
+    annualMortgageInterest,
+    annualCapitalRepayment,
+    annualOperatingCosts,
+    annualCashflow,
+    monthlyCashflow: annualCashflow / 12,
+    roi: netCashInvested > 0 ? (annualCashflow / netCashInvested) * 100 : 0,
+    equity: p.market_value_est - outstandingMortgage,
+    grossYield: p.market_value_est > 0 ? (p.annual_rent_phase2 / p.market_value_est) * 100 : 0,
+    netYield: p.market_value_est > 0 ? ((p.annual_rent_phase2 - annualOperatingCosts) / p.market_value_est) * 100 : 0,
+    interestCover: annualMortgageInterest > 0 ? p.annual_rent_phase2 / annualMortgageInterest : null,
+  }
+}
+
+// A scenario swaps the refinance and rent assumptions; costs stay the property's own
+export function scenarioKpis(p: PropertyFigures, s: Pick<Scenario,
+  'revaluation_estimate' | 'deposit_pct_phase2' | 'equity_release' | 'mortgage_rate_phase2' | 'annual_rent_phase2'>) {
+  return propertyKpis({ ...p, ...s })
+}
+
+// ─── Ledger actuals ───────────────────────────────────────────────────────────
+// Distinct calendar months (YYYY-MM) with at least one entry
+export function distinctMonths(entries: Pick<LedgerEntry, 'date'>[]): number {
+  return new Set(entries.map(t => t.date.slice(0, 7))).size
+}
@@ -0,0 +1,86 @@
+import {
+  CAPITAL_SUBCATEGORIES, type CapitalSubcategory, type CapitalTransaction,
+} from '@/lib/models'
+
+// Capital transaction taxonomy: each subcategory feeds exactly one Investment
+// Summary row. Client-safe, shared by the property panel, the review screen and
+// the route handlers.
+
+// Label as on the Investment Summary, and the capital_transactions.type it belongs to
+export const SUBCATEGORY_INFO: Record<CapitalSubcategory, { label: string; type: string }> = {
+  purchase_price:  { label: 'Purchase price',       type: 'purchase' },
+  stamp_duty:      { label: 'Stamp duty',           type: 'acquisition_cost' },
+  solicitor_fees:  { label: 'Solicitor & mtg fees', type: 'acquisition_cost' },
+  agent_fee:       { label: 'Agent fee',            type: 'acquisition_cost' },
+  renovation:      { label: 'Renovation cost',      type: 'renovation' },
+  renovation_mgmt: { label: 'Renovation mgmt fee',  type: 'renovation' },
+  equity_release:  { label: 'Equity released',      type: 'refinance' },
+}
+
+// Sum of one subcategory, as a positive figure; null when nothing is recorded
+export function capitalActual(txns: CapitalTransaction[], subcategory: CapitalSubcategory): number | null {
+  const matching = txns.filter(t => t.subcategory === subcategory)
+  if (!matching.length) return null
+  return Math.abs(matching.reduce((s, t) => s + t.amount, 0))
+}
+
+// ─── One-off classification of legacy rows ────────────────────────────────────
+// The keyword rules the panel used before subcategories existed. They only ever
+// produce a suggestion; rows where they disagree or find nothing go to review.
+const KEYWORDS: Partial<Record<CapitalSubcategory, string[]>> = {
+  stamp_duty:      ['stamp', 'sdlt', 'duty'],
+  solicitor_fees:  ['solicitor', 'legal', 'convey', 'mortgage fee'],
+  agent_fee:       ['agent', 'sourc', 'finder', 'introduc'],
+  renovation_mgmt: ['manag', 'mgmt', 'project manage'],
+}
+
+export interface Suggestion {
+  candidates: CapitalSubcategory[]   // every plausible subcategory, best first
+  confident: boolean                 // exactly one candidate
+}
+
+export function suggestSubcategory(t: Pick<CapitalTransaction, 'type' | 'description'>): Suggestion {
+  const d = t.description.toLowerCase()
+  const hits = (s: CapitalSubcategory) => (KEYWORDS[s] ?? []).some(k => d.includes(k))
+  let candidates: CapitalSubcategory[]
+  switch (t.type) {
+    case 'purchase':  candidates = ['purchase_price']; break
+    case 'refinance': candidates = ['equity_release']; break
+    case 'renovation': candidates = hits('renovation_mgmt') ? ['renovation_mgmt'] : ['renovation']; break
+    case 'acquisition_cost': {
+      const matched = (['stamp_duty', 'solicitor_fees', 'agent_fee'] as const).filter(hits)
+      candidates = matched.length ? [...matched] : ['stamp_duty', 'solicitor_fees', 'agent_fee']
+      break
+    }
+    default: candidates = [...CAPITAL_SUBCATEGORIES]
+  }
+  return { candidates, confident: candidates.length === 1 }
+}
+
+// The subcategory to record without asking, when the suggestion is unambiguous
+export function autoSubcategory(t: Pick<CapitalTransaction, 'type' | 'description'>): CapitalSubcategory | null {
+  const { candidates, confident } = suggestSubcategory(t)
+  return confident ? candidates[0] : null
+}
+
+// ─── Form input ───────────────────────────────────────────────────────────────
+export type CapitalInput = Pick<CapitalTransaction, 'date' | 'type' | 'subcategory' | 'description' | 'amount'>
+
+export function isCapitalSubcategory(v: unknown): v is CapitalSubcategory {
+  return typeof v === 'string' && (CAPITAL_SUBCATEGORIES as readonly string[]).includes(v)
+}
+
+// Validate a request body into capital_transactions columns. Money out is
+// negative, as in the bank feed; the type follows from the subcategory.
+export function parseCapitalInput(body: unknown): { input: CapitalInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const date = typeof b.date === 'string' ? b.date.trim() : ''
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) return { error: 'Date must be YYYY-MM-DD' }
+  if (!isCapitalSubcategory(b.subcategory)) return { error: 'Choose a category' }
+  const amount = typeof b.amount === 'number' ? b.amount : Number(String(b.amount ?? '').replace(/[£,]/g, ''))
+  if (!Number.isFinite(amount) || amount === 0) return { error: 'Amount must be a non-zero number' }
+  const description = typeof b.description === 'string' ? b.description.trim() : ''
+  return {
+    input: { date, type: SUBCATEGORY_INFO[b.subcategory].type, subcategory: b.subcategory, description, amount },
+  }
+}
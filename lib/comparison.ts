@@ -0,0 +1,34 @@
+import { addDays, addMonths, dayCount } from '@/lib/dates'
+
+// Comparison periods for the P&L summary cards: the window to total against the
+// current date range, and the factor that scales it to the same length. Client-safe.
+
+export const COMPARISON_MODES = ['previous', 'lastYear', 'trailing12'] as const
+export type ComparisonMode = typeof COMPARISON_MODES[number]
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previous:   'Previous period',
+  lastYear:   'Same period last year',
+  trailing12: 'Trailing 12 months',
+}
+
+export interface ComparisonWindow {
+  from: string
+  to: string
+  scale: number   // multiply the window's totals by this to match the current range's length
+}
+
+export function comparisonWindow(from: string, to: string, mode: ComparisonMode): ComparisonWindow {
+  const length = dayCount(from, to)
+  if (mode === 'previous') return { from: addDays(from, -length), to: addDays(from, -1), scale: 1 }
+  if (mode === 'lastYear') return { from: addMonths(from, -12), to: addMonths(to, -12), scale: 1 }
+  // A year's run rate, pro rata to the current range
+  const start = addMonths(from, -12)
+  const end = addDays(from, -1)
+  return { from: start, to: end, scale: length / dayCount(start, end) }
+}
+
+// Change as a percentage of the comparison's size; null when there is nothing to compare with
+export function percentChange(current: number, previous: number): number | null {
+  return previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100
+}
@@ -0,0 +1,50 @@
+// Minimal CSV reader and cell parsers shared by the statement importers.
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes.
+// A leading byte-order mark (Excel's "CSV UTF-8") is dropped.
+export function parseCsv(input: string): string[][] {
+  const text = input.replace(/^\uFEFF/, '')
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++ }
+      else if (c === '"') quoted = false
+      else field += c
+    } else if (c === '"') quoted = true
+    else if (c === ',') { row.push(field); field = '' }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field); field = ''
+      if (row.some(f => f.trim() !== '')) rows.push(row)
+      row = []
+    } else field += c
+  }
+  row.push(field)
+  if (row.some(f => f.trim() !== '')) rows.push(row)
+  return rows
+}
+
+// Statements use DD/MM/YYYY; ISO dates are accepted too. Impossible days and months
+// (31/02, 00/13) are rejected rather than rolled over into another date.
+export function parseUkDate(value: string): string | null {
+  const v = value.trim()
+  const uk = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  const iso = uk ? `${uk[3]}-${uk[2].padStart(2, '0')}-${uk[1].padStart(2, '0')}` : /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null
+  if (!iso) return null
+  const [y, m, d] = iso.split('-').map(Number)
+  const date = new Date(Date.UTC(y, m - 1, d))
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d ? iso : null
+}
+
+// "£1,234.50" → 1234.5; accountants' "(12.00)" → -12
+export function parseMoney(value: string): number | null {
+  const cleaned = value.replace(/[£,\s]/g, '')
+  if (cleaned === '') return null
+  const bracketed = cleaned.match(/^\((.*)\)$/)
+  const n = Number(bracketed ? `-${bracketed[1]}` : cleaned)
+  return Number.isFinite(n) ? n : null
+}
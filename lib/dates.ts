@@ -0,0 +1,33 @@
+// Date arithmetic on ISO date strings (YYYY-MM-DD), done in UTC so a date never
+// shifts with the local timezone. Client-safe.
+
+export const DAY_MS = 86_400_000
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+// Same day of the month, clamped to the month's end (31 Jan + 1 month = 28/29 Feb)
+export function addMonths(date: string, months: number): string {
+  const [y, m, d] = date.split('-').map(Number)
+  const first = new Date(Date.UTC(y, m - 1 + months, 1))
+  const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate()
+  first.setUTCDate(Math.min(d, lastDay))
+  return first.toISOString().slice(0, 10)
+}
+
+// Days from one date to the other: 0 for the same day
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+}
+
+// Days in the range, inclusive of both ends
+export function dayCount(from: string, to: string): number {
+  return daysBetween(from, to) + 1
+}
+
+// For a month key (YYYY-MM)
+export function daysInMonth(month: string): number {
+  const [y, m] = month.split('-').map(Number)
+  return new Date(Date.UTC(y, m, 0)).getUTCDate()
+}
@@ -0,0 +1,498 @@
+// Typed models for every Supabase table the dashboard reads, plus the row
+// parsers that validate them at load time. Client-safe: no server imports.
+
+// ─── Row validation ───────────────────────────────────────────────────────────
+export class RowValidationError extends Error {
+  constructor(public table: string, public field: string, public value: unknown) {
+    super(`${table}.${field}: unexpected value ${JSON.stringify(value)}`)
+    this.name = 'RowValidationError'
+  }
+}
+
+type Row = Record<string, unknown>
+
+function reader(table: string, row: Row) {
+  const fail = (field: string): never => { throw new RowValidationError(table, field, row[field]) }
+  const num = (field: string): number => {
+    const v = row[field]
+    const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v
+    return typeof n === 'number' && Number.isFinite(n) ? n : fail(field)
+  }
+  const str = (field: string): string => {
+    const v = row[field]
+    return typeof v === 'string' ? v : fail(field)
+  }
+  return {
+    num,
+    str,
+    // Nullable numerics default to 0, matching how the calculations treat missing figures
+    numOr0: (field: string): number => (row[field] === null || row[field] === undefined ? 0 : num(field)),
+    optNum: (field: string): number | null => (row[field] === null || row[field] === undefined ? null : num(field)),
+    optStr: (field: string): string | null => (row[field] === null || row[field] === undefined ? null : str(field)),
+    bool: (field: string): boolean => {
+      const v = row[field]
+      return typeof v === 'boolean' ? v : fail(field)
+    },
+    date: (field: string): string => {
+      const v = str(field)
+      return /^\d{4}-\d{2}-\d{2}/.test(v) ? v.slice(0, 10) : fail(field)
+    },
+    optDate: (field: string): string | null => {
+      const v = row[field]
+      if (v === null || v === undefined || v === '') return null
+      return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}/.test(v) ? v.slice(0, 10) : fail(field)
+    },
+    oneOf: <T extends string>(field: string, allowed: readonly T[]): T => {
+      const v = row[field]
+      return allowed.includes(v as T) ? (v as T) : fail(field)
+    },
+    optOneOf: <T extends string>(field: string, allowed: readonly T[]): T | null => {
+      const v = row[field]
+      if (v === null || v === undefined) return null
+      return allowed.includes(v as T) ? (v as T) : fail(field)
+    },
+    id: (field: string): string => {
+      const v = row[field]
+      return typeof v === 'string' || typeof v === 'number' ? String(v) : fail(field)
+    },
+  }
+}
+
+// Parse every row, dropping (and reporting) any that fail validation rather than
+// letting one malformed row take down the whole dashboard.
+export function parseRows<T>(table: string, rows: unknown[] | null, parse: (row: Row) => T): T[] {
+  const out: T[] = []
+  for (const row of rows ?? []) {
+    try {
+      out.push(parse(row as Row))
+    } catch (e) {
+      if (!(e instanceof RowValidationError)) throw e
+      console.error(`[repository] skipped row: ${e.message}`, row)
+    }
+  }
+  return out
+}
+
+// ─── properties_master ────────────────────────────────────────────────────────
+export interface Property {
+  property_id: string
+  address: string
+  city: string
+  purchase_price: number
+  deposit_pct_phase1: number
+  cash_deposit_phase1: number
+  stamp_duty: number
+  solicitor_fees: number
+  agent_fee: number
+  renovation_cost: number
+  renovation_mgmt_fee: number
+  mortgage_rate_phase1: number
+  revaluation_estimate: number
+  market_value_est: number
+  market_value_basis: string
+  deposit_pct_phase2: number
+  equity_release: number
+  mortgage_rate_phase2: number
+  annual_rent_phase2: number
+  bills_phase2: number
+  management_phase2: number
+  provision_costs_phase2: number
+  provision_voids_phase2: number
+  beds_phase2: number
+  notes_phase2: string | null
+  property_link: string | null
+  archived_at: string | null
+}
+
+export function parseProperty(row: Row): Property {
+  const r = reader('properties_master', row)
+  return {
+    property_id:            r.str('property_id'),
+    address:                r.str('address'),
+    city:                   r.str('city'),
+    purchase_price:         r.numOr0('purchase_price'),
+    deposit_pct_phase1:     r.numOr0('deposit_pct_phase1'),
+    cash_deposit_phase1:    r.numOr0('cash_deposit_phase1'),
+    stamp_duty:             r.numOr0('stamp_duty'),
+    solicitor_fees:         r.numOr0('solicitor_fees'),
+    agent_fee:              r.numOr0('agent_fee'),
+    renovation_cost:        r.numOr0('renovation_cost'),
+    renovation_mgmt_fee:    r.numOr0('renovation_mgmt_fee'),
+    mortgage_rate_phase1:   r.numOr0('mortgage_rate_phase1'),
+    revaluation_estimate:   r.numOr0('revaluation_estimate'),
+    market_value_est:       r.numOr0('market_value_est'),
+    market_value_basis:     r.optStr('market_value_basis') ?? '',
+    deposit_pct_phase2:     r.numOr0('deposit_pct_phase2'),
+    equity_release:         r.numOr0('equity_release'),
+    mortgage_rate_phase2:   r.numOr0('mortgage_rate_phase2'),
+    annual_rent_phase2:     r.numOr0('annual_rent_phase2'),
+    bills_phase2:           r.numOr0('bills_phase2'),
+    management_phase2:      r.numOr0('management_phase2'),
+    provision_costs_phase2: r.numOr0('provision_costs_phase2'),
+    provision_voids_phase2: r.numOr0('provision_voids_phase2'),
+    beds_phase2:            r.numOr0('beds_phase2'),
+    notes_phase2:           r.optStr('notes_phase2'),
+    property_link:          r.optStr('property_link'),
+    archived_at:            r.optStr('archived_at'),
+  }
+}
+
+// ─── capital_transactions ─────────────────────────────────────────────────────
+// One subcategory per Investment Summary line (see lib/capital.ts)
+export const CAPITAL_SUBCATEGORIES = [
+  'purchase_price',
+  'stamp_duty',
+  'solicitor_fees',
+  'agent_fee',
+  'renovation',
+  'renovation_mgmt',
+  'equity_release',
+] as const
+export type CapitalSubcategory = typeof CAPITAL_SUBCATEGORIES[number]
+
+export interface CapitalTransaction {
+  transaction_id: string
+  property_id: string
+  date: string
+  type: string
+  subcategory: CapitalSubcategory | null   // null until classified
+  description: string
+  amount: number
+  source_starling_id: string | null   // set when posted from the bank feed
+}
+
+export function parseCapitalTransaction(row: Row): CapitalTransaction {
+  const r = reader('capital_transactions', row)
+  return {
+    transaction_id: r.id('transaction_id'),
+    property_id:    r.str('property_id'),
+    date:           r.date('date'),
+    type:           r.str('type'),
+    subcategory:    r.optOneOf('subcategory', CAPITAL_SUBCATEGORIES),
+    description:    r.optStr('description') ?? '',
+    amount:         r.num('amount'),
+    source_starling_id: r.optStr('source_starling_id'),
+  }
+}
+
+// ─── scenarios ────────────────────────────────────────────────────────────────
+export interface Scenario {
+  scenario_id: string
+  property_id: string
+  scenario_label: string
+  revaluation_estimate: number
+  deposit_pct_phase2: number
+  equity_release: number
+  mortgage_rate_phase2: number
+  annual_rent_phase2: number
+  is_base_case: boolean   // at most one per property
+}
+
+export function parseScenario(row: Row): Scenario {
+  const r = reader('scenarios', row)
+  return {
+    scenario_id:          r.id('scenario_id'),
+    property_id:          r.str('property_id'),
+    scenario_label:       r.str('scenario_label'),
+    revaluation_estimate: r.numOr0('revaluation_estimate'),
+    deposit_pct_phase2:   r.numOr0('deposit_pct_phase2'),
+    equity_release:       r.numOr0('equity_release'),
+    mortgage_rate_phase2: r.numOr0('mortgage_rate_phase2'),
+    annual_rent_phase2:   r.numOr0('annual_rent_phase2'),
+    is_base_case:         r.bool('is_base_case'),
+  }
+}
+
+// ─── mortgages ────────────────────────────────────────────────────────────────
+export const MORTGAGE_TYPES = ['repayment', 'interest_only'] as const
+export type MortgageType = typeof MORTGAGE_TYPES[number]
+
+export interface Mortgage {
+  id: string
+  property_id: string
+  lender: string
+  start_date: string
+  principal: number
+  term_months: number
+  repayment_type: MortgageType
+  initial_rate: number
+  fixed_until: string | null      // initial rate applies until this date
+  reversion_rate: number | null   // after it; null keeps the initial rate
+}
+
+export function parseMortgage(row: Row): Mortgage {
+  const r = reader('mortgages', row)
+  return {
+    id:             r.id('id'),
+    property_id:    r.str('property_id'),
+    lender:         r.str('lender'),
+    start_date:     r.date('start_date'),
+    principal:      r.num('principal'),
+    term_months:    r.num('term_months'),
+    repayment_type: r.oneOf('repayment_type', MORTGAGE_TYPES),
+    initial_rate:   r.num('initial_rate'),
+    fixed_until:    r.optDate('fixed_until'),
+    reversion_rate: r.optNum('reversion_rate'),
+  }
+}
+
+// ─── tenancies ────────────────────────────────────────────────────────────────
+export const RENT_FREQUENCIES = ['weekly', 'monthly', 'annual'] as const
+export type RentFrequency = typeof RENT_FREQUENCIES[number]
+
+export const DEPOSIT_SCHEMES = ['dps', 'tds', 'mydeposits'] as const
+export type DepositScheme = typeof DEPOSIT_SCHEMES[number]
+
+export interface Tenancy {
+  id: string
+  property_id: string
+  tenant_name: string
+  room: string | null
+  rent: number                           // per rent_frequency
+  rent_frequency: RentFrequency
+  start_date: string
+  end_date: string | null                // null while periodic
+  deposit_amount: number | null
+  deposit_scheme: DepositScheme | null   // null = not protected
+}
+
+export function parseTenancy(row: Row): Tenancy {
+  const r = reader('tenancies', row)
+  return {
+    id:             r.id('id'),
+    property_id:    r.str('property_id'),
+    tenant_name:    r.str('tenant_name'),
+    room:           r.optStr('room'),
+    rent:           r.num('rent'),
+    rent_frequency: r.oneOf('rent_frequency', RENT_FREQUENCIES),
+    start_date:     r.date('start_date'),
+    end_date:       r.optDate('end_date'),
+    deposit_amount: r.optNum('deposit_amount'),
+    deposit_scheme: r.optOneOf('deposit_scheme', DEPOSIT_SCHEMES),
+  }
+}
+
+// ─── occupancy_periods ────────────────────────────────────────────────────────
+export const OCCUPANCY_STATUSES = ['occupied', 'void'] as const
+export type OccupancyStatus = typeof OCCUPANCY_STATUSES[number]
+
+export interface OccupancyPeriod {
+  id: string
+  property_id: string
+  room: string | null          // null = every bed in the property
+  status: OccupancyStatus
+  start_date: string
+  end_date: string | null      // null while ongoing
+  note: string | null
+}
+
+export function parseOccupancyPeriod(row: Row): OccupancyPeriod {
+  const r = reader('occupancy_periods', row)
+  return {
+    id:          r.id('id'),
+    property_id: r.str('property_id'),
+    room:        r.optStr('room'),
+    status:      r.oneOf('status', OCCUPANCY_STATUSES),
+    start_date:  r.date('start_date'),
+    end_date:    r.optDate('end_date'),
+    note:        r.optStr('note'),
+  }
+}
+
+// ─── owners (ownership entities) ──────────────────────────────────────────────
+export const OWNER_KINDS = ['individual', 'company'] as const
+export type OwnerKind = typeof OWNER_KINDS[number]
+
+export interface Owner {
+  id: string
+  name: string
+  kind: OwnerKind
+  other_income: number   // annual income outside the portfolio; a company's other profits
+}
+
+export function parseOwner(row: Row): Owner {
+  const r = reader('owners', row)
+  return {
+    id:           r.id('id'),
+    name:         r.str('name'),
+    kind:         r.oneOf('kind', OWNER_KINDS),
+    other_income: r.numOr0('other_income'),
+  }
+}
+
+// ─── property_owners ──────────────────────────────────────────────────────────
+export interface PropertyOwner {
+  property_id: string
+  owner_id: string
+  share: number   // fraction of the property, 0–1
+}
+
+export function parsePropertyOwner(row: Row): PropertyOwner {
+  const r = reader('property_owners', row)
+  return {
+    property_id: r.str('property_id'),
+    owner_id:    r.id('owner_id'),
+    share:       r.num('share'),
+  }
+}
+
+// ─── tax_bands ────────────────────────────────────────────────────────────────
+export interface TaxBand {
+  id: string
+  label: string
+  lower: number   // applies from here up to the next band's lower threshold
+  rate: number    // fraction
+}
+
+export function parseTaxBand(row: Row): TaxBand {
+  const r = reader('tax_bands', row)
+  return {
+    id:    r.id('id'),
+    label: r.str('label'),
+    lower: r.num('lower'),
+    rate:  r.num('rate'),
+  }
+}
+
+// ─── valuations ───────────────────────────────────────────────────────────────
+export interface Valuation {
+  id: number
+  property_id: string | null // resolved from address at load time where not set
+  date: string
+  value: number
+  source: string
+  address: string
+}
+
+export function parseValuation(row: Row): Valuation {
+  const r = reader('valuations', row)
+  return {
+    id:          r.num('id'),
+    property_id: r.optStr('property_id'),
+    date:        r.date('date'),
+    value:       r.num('value'),
+    source:      r.optStr('source') ?? '',
+    address:     r.str('address'),
+  }
+}
+
+// ─── transactions (letting-agent P&L ledger) ──────────────────────────────────
+// The table keeps the agent export's column names; the model uses our own.
+export interface LedgerEntry {
+  id: string
+  date: string               // "Item date"
+  property_address: string   // "Property address" — free text from the agent
+  description: string        // "Item description"
+  type: string               // "Item type" — 'Rent Paid' is income, everything else a cost
+  amount: number             // "Item amount inc VAT", signed
+  property_id: string | null // resolved from property_address via the alias table at load time
+  source_starling_id: string | null // set when posted from the bank feed
+}
+
+export const RENT_TYPE = 'Rent Paid'
+// Whole mortgage payments posted from the bank feed; interest and capital together
+export const MORTGAGE_PAYMENT_TYPE = 'Mortgage Payment'
+
+export function parseLedgerEntry(row: Row): LedgerEntry {
+  const r = reader('transactions', row)
+  return {
+    id:               r.id('id'),
+    date:             r.date('Item date'),
+    property_address: r.optStr('Property address') ?? '',
+    description:      r.optStr('Item description') ?? '',
+    type:             r.str('Item type'),
+    amount:           r.num('Item amount inc VAT'),
+    property_id:      null,
+    source_starling_id: r.optStr('source_starling_id'),
+  }
+}
+
+// ─── starling_transactions (business bank feed) ──────────────────────────────
+export const CATEGORISATION_STATUSES = ['pending', 'needs_review', 'mapped', 'mapped_msl'] as const
+export type CategorisationStatus = typeof CATEGORISATION_STATUSES[number]
+
+export interface StarlingTransaction {
+  id: string
+  date: string | null
+  counter_party: string | null
+  reference: string | null
+  type: string | null
+  amount_gbp: number
+  balance_gbp: number
+  spending_category: string | null
+  property_address: string | null
+  property_id: string | null          // resolved from property_address at load time
+  dashboard_category: string | null
+  categorisation_status: CategorisationStatus | null
+  posted_to: PostingTable | null      // which ledger holds this row, resolved at load time
+}
+
+// Where a mapped bank row ends up once posted
+export type PostingTable = 'transactions' | 'capital_transactions'
+
+export function parseStarlingTransaction(row: Row): StarlingTransaction {
+  const r = reader('starling_transactions', row)
+  return {
+    id:                    r.id('id'),
+    date:                  r.optDate('date'),
+    counter_party:         r.optStr('counter_party'),
+    reference:             r.optStr('reference'),
+    type:                  r.optStr('type'),
+    amount_gbp:            r.num('amount_gbp'),
+    balance_gbp:           r.numOr0('balance_gbp'),
+    spending_category:     r.optStr('spending_category'),
+    property_address:      r.optStr('property_address'),
+    property_id:           null,
+    dashboard_category:    r.optStr('dashboard_category'),
+    categorisation_status: r.optOneOf('categorisation_status', CATEGORISATION_STATUSES),
+    posted_to:             null,
+  }
+}
+
+// ─── property_address_aliases ─────────────────────────────────────────────────
+export interface AddressAlias {
+  alias: string
+  property_id: string
+}
+
+export function parseAddressAlias(row: Row): AddressAlias {
+  const r = reader('property_address_aliases', row)
+  return {
+    alias:       r.str('alias'),
+    property_id: r.str('property_id'),
+  }
+}
+
+// ─── starling_rules ───────────────────────────────────────────────────────────
+export interface StarlingRule {
+  id: string
+  name: string
+  priority: number                      // lowest wins
+  enabled: boolean
+  counter_party_pattern: string | null  // case-insensitive contains
+  reference_pattern: string | null      // case-insensitive contains
+  txn_type: string | null               // exact Starling type, e.g. DIRECT_DEBIT
+  min_amount: number | null             // signed, inclusive
+  max_amount: number | null             // signed, inclusive
+  set_property_id: string | null
+  set_dashboard_category: string | null
+  set_status: CategorisationStatus
+}
+
+export function parseStarlingRule(row: Row): StarlingRule {
+  const r = reader('starling_rules', row)
+  return {
+    id:                     r.id('id'),
+    name:                   r.str('name'),
+    priority:               r.num('priority'),
+    enabled:                r.bool('enabled'),
+    counter_party_pattern:  r.optStr('counter_party_pattern'),
+    reference_pattern:      r.optStr('reference_pattern'),
+    txn_type:               r.optStr('txn_type'),
+    min_amount:             r.optNum('min_amount'),
+    max_amount:             r.optNum('max_amount'),
+    set_property_id:        r.optStr('set_property_id'),
+    set_dashboard_category: r.optStr('set_dashboard_category'),
+    set_status:             r.oneOf('set_status', CATEGORISATION_STATUSES),
+  }
+}
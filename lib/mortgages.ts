@@ -0,0 +1,173 @@
+import { MORTGAGE_TYPES, type Mortgage, type MortgageType } from '@/lib/models'
+import { propertyKpis, type DebtFigures, type PropertyFigures } from '@/lib/calculations'
+import { addMonths } from '@/lib/dates'
+
+// Amortisation for recorded mortgages. A loan runs to the end of its term or until
+// a later loan on the same property starts; its schedule then drives the balance,
+// interest and cashflow the dashboard shows. Client-safe.
+
+export const MORTGAGE_TYPE_LABELS: Record<MortgageType, string> = {
+  repayment:     'Repayment',
+  interest_only: 'Interest only',
+}
+
+export interface ScheduleRow {
+  date: string       // payment date
+  rate: number
+  payment: number
+  interest: number
+  capital: number
+  balance: number    // after this payment
+}
+
+export function endDate(m: Mortgage): string {
+  return addMonths(m.start_date, m.term_months)
+}
+
+export function rateOn(m: Mortgage, date: string): number {
+  return m.fixed_until && date > m.fixed_until ? (m.reversion_rate ?? m.initial_rate) : m.initial_rate
+}
+
+// One row per monthly payment over the full term. Repayment loans are re-amortised
+// over the remaining term whenever the rate changes, as lenders do on reversion.
+// Interest-only balances stay outstanding and fall due at the end of the term.
+export function amortisationSchedule(m: Mortgage): ScheduleRow[] {
+  const rows: ScheduleRow[] = []
+  let balance = m.principal
+  let payment = 0
+  let paymentRate: number | null = null
+  for (let i = 1; i <= m.term_months; i++) {
+    const date = addMonths(m.start_date, i)
+    const rate = rateOn(m, date)
+    const monthly = rate / 12
+    const interest = balance * monthly
+    let capital = 0
+    if (m.repayment_type === 'repayment') {
+      if (rate !== paymentRate) {
+        const remaining = m.term_months - i + 1
+        payment = monthly === 0 ? balance / remaining : (balance * monthly) / (1 - Math.pow(1 + monthly, -remaining))
+        paymentRate = rate
+      }
+      capital = Math.min(balance, payment - interest)
+    }
+    balance -= capital
+    rows.push({ date, rate, payment: interest + capital, interest, capital, balance })
+  }
+  return rows
+}
+
+// The loan in force on a date: the latest to have started on the property
+export function activeMortgage(mortgages: Mortgage[], date: string): Mortgage | null {
+  let active: Mortgage | null = null
+  for (const m of mortgages) {
+    if (m.start_date <= date && (!active || m.start_date > active.start_date)) active = m
+  }
+  return active
+}
+
+export interface DebtPosition extends DebtFigures {
+  mortgage: Mortgage
+  rate: number           // in force on the date
+}
+
+// Balance after the last payment on or before the date, and the interest and
+// capital due over the following twelve payments. Null with no loan in force.
+export function debtPosition(mortgages: Mortgage[], date: string): DebtPosition | null {
+  const m = activeMortgage(mortgages, date)
+  if (!m) return null
+  const schedule = amortisationSchedule(m)
+  const paid = schedule.filter(r => r.date <= date)
+  const next = schedule.filter(r => r.date > date).slice(0, 12)
+  return {
+    mortgage: m,
+    rate: rateOn(m, date),
+    outstanding: paid.length > 0 ? paid[paid.length - 1].balance : m.principal,
+    annualInterest: next.reduce((s, r) => s + r.interest, 0),
+    annualCapital: next.reduce((s, r) => s + r.capital, 0),
+  }
+}
+
+export interface ProjectionYear {
+  from: string           // exclusive
+  to: string             // inclusive
+  rate: number           // in force at the end of the year
+  interest: number
+  capital: number
+  balance: number
+  equity: number         // against today's market value estimate
+  cashflow: number       // rent less running costs and debt service
+}
+
+// The active loan's schedule year by year from a date, to the end of its term,
+// with the property's rent and running costs held at today's figures
+export function projection(p: PropertyFigures, mortgages: Mortgage[], from: string): ProjectionYear[] {
+  const m = activeMortgage(mortgages, from)
+  if (!m) return []
+  const schedule = amortisationSchedule(m)
+  const { annualOperatingCosts } = propertyKpis(p)
+  const years: ProjectionYear[] = []
+  let balance = debtPosition(mortgages, from)!.outstanding
+  for (let start = from; start < endDate(m); start = addMonths(start, 12)) {
+    const to = addMonths(start, 12)
+    const rows = schedule.filter(r => r.date > start && r.date <= to)
+    const interest = rows.reduce((s, r) => s + r.interest, 0)
+    const capital = rows.reduce((s, r) => s + r.capital, 0)
+    if (rows.length > 0) balance = rows[rows.length - 1].balance
+    years.push({
+      from: start,
+      to,
+      rate: rateOn(m, to),
+      interest,
+      capital,
+      balance,
+      equity: p.market_value_est - balance,
+      cashflow: p.annual_rent_phase2 - annualOperatingCosts - interest - capital,
+    })
+  }
+  return years
+}
+
+// ─── Form input ───────────────────────────────────────────────────────────────
+export type MortgageInput = Omit<Mortgage, 'id' | 'property_id'>
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// Validate a request body into mortgages columns; rates are fractions
+export function parseMortgageInput(body: unknown): { mortgage: MortgageInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const text = (k: string) => (typeof b[k] === 'string' ? (b[k] as string).trim() : typeof b[k] === 'number' ? String(b[k]) : '')
+  const number = (k: string) => (text(k) === '' ? null : Number(text(k).replace(/[£,]/g, '')))
+
+  const lender = text('lender')
+  if (!lender) return { error: 'Lender is required' }
+  const start_date = text('start_date')
+  if (!DATE.test(start_date) || Number.isNaN(Date.parse(start_date))) return { error: 'Start date must be YYYY-MM-DD' }
+  const principal = number('principal')
+  if (principal === null || !Number.isFinite(principal) || principal <= 0) return { error: 'Loan amount must be a positive number' }
+  const term_months = number('term_months')
+  if (term_months === null || !Number.isInteger(term_months) || term_months <= 0) return { error: 'Term must be a whole number of months' }
+  const repayment_type = text('repayment_type') as MortgageType
+  if (!MORTGAGE_TYPES.includes(repayment_type)) return { error: 'Choose repayment or interest only' }
+
+  const rate = (k: string, label: string): number | null | string => {
+    const n = number(k)
+    if (n === null) return null
+    if (!Number.isFinite(n) || n < 0) return `${label} must be a number`
+    return n > 1 ? `Enter rates as a fraction — ${Number((n / 100).toFixed(6))} for ${n}%` : n
+  }
+  const initial_rate = rate('initial_rate', 'Initial rate')
+  if (typeof initial_rate === 'string') return { error: initial_rate }
+  if (initial_rate === null) return { error: 'Initial rate is required' }
+  const reversion_rate = rate('reversion_rate', 'Reversion rate')
+  if (typeof reversion_rate === 'string') return { error: reversion_rate }
+
+  const fixed_until = text('fixed_until') || null
+  if (fixed_until !== null && (!DATE.test(fixed_until) || Number.isNaN(Date.parse(fixed_until)))) {
+    return { error: 'Fixed-rate end must be YYYY-MM-DD' }
+  }
+  if (fixed_until !== null && fixed_until <= start_date) return { error: 'Fixed-rate end must be after the start date' }
+
+  return {
+    mortgage: { lender, start_date, principal, term_months, repayment_type, initial_rate, fixed_until, reversion_rate },
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  OCCUPANCY_STATUSES,
+  type OccupancyPeriod, type OccupancyStatus, type Property, type Tenancy,
+} from '@/lib/models'
+import { addDays } from '@/lib/dates'
+
+// Actual occupancy per bed, day by day, from tenancy dates and manual entries, and
+// the rent lost to voids to set against provision_voids_phase2. Client-safe.
+
+export const OCCUPANCY_WINDOW_DAYS = 365
+
+export const OCCUPANCY_STATUS_LABELS: Record<OccupancyStatus, string> = {
+  occupied: 'Occupied',
+  void:     'Void',
+}
+
+export interface OccupancyStats {
+  from: string              // tracking start, at most a year back
+  to: string
+  bedDays: number
+  occupiedBedDays: number
+  voidBedDays: number
+  occupancyPct: number
+  rentLost: number          // void bed-days at the projected rent per bed
+  rentLostAnn: number       // scaled to a year, comparable with the provision
+}
+
+function covers(t: { start_date: string; end_date: string | null }, date: string) {
+  return t.start_date <= date && (t.end_date === null || t.end_date >= date)
+}
+
+// Beds occupied on the date. A tenancy with no room counts as a bed of its own;
+// manual entries override the register, and one with no room covers every bed.
+function occupiedBeds(beds: number, tenancies: Tenancy[], periods: OccupancyPeriod[], date: string) {
+  const manual = periods.filter(o => covers(o, date))
+  if (manual.some(o => o.status === 'void' && o.room === null)) return 0
+  if (manual.some(o => o.status === 'occupied' && o.room === null)) return beds
+
+  const occupied = new Set<string>()
+  for (const t of tenancies) if (covers(t, date)) occupied.add(t.room ?? `tenancy:${t.id}`)
+  for (const o of manual) {
+    if (o.status === 'occupied') occupied.add(o.room!)
+    else occupied.delete(o.room!)
+  }
+  return Math.min(beds, occupied.size)
+}
+
+// Over the last year, from the first tenancy or manual entry; null when the
+// property has neither, so the projected provision still stands
+export function occupancyStats(
+  p: Property, tenancies: Tenancy[], periods: OccupancyPeriod[], today: string,
+): OccupancyStats | null {
+  const ownTenancies = tenancies.filter(t => t.property_id === p.property_id)
+  const ownPeriods = periods.filter(o => o.property_id === p.property_id)
+  const starts = [...ownTenancies, ...ownPeriods].map(t => t.start_date).filter(d => d <= today).sort()
+  if (starts.length === 0 || p.beds_phase2 <= 0) return null
+
+  const windowStart = addDays(today, 1 - OCCUPANCY_WINDOW_DAYS)
+  const from = starts[0] > windowStart ? starts[0] : windowStart
+  let days = 0, occupiedBedDays = 0
+  for (let date = from; date <= today; date = addDays(date, 1)) {
+    days++
+    occupiedBedDays += occupiedBeds(p.beds_phase2, ownTenancies, ownPeriods, date)
+  }
+
+  const bedDays = days * p.beds_phase2
+  const voidBedDays = bedDays - occupiedBedDays
+  const rentLost = voidBedDays * (p.annual_rent_phase2 / p.beds_phase2 / 365)
+  return {
+    from,
+    to: today,
+    bedDays,
+    occupiedBedDays,
+    voidBedDays,
+    occupancyPct: (occupiedBedDays / bedDays) * 100,
+    rentLost,
+    rentLostAnn: rentLost * (365 / days),
+  }
+}
+
+// Combined across the properties that have occupancy recorded
+export function portfolioOccupancy(
+  properties: Property[], tenancies: Tenancy[], periods: OccupancyPeriod[], today: string,
+) {
+  const stats = properties
+    .map(p => ({ property: p, stats: occupancyStats(p, tenancies, periods, today) }))
+  const tracked = stats.flatMap(s => (s.stats ? [s.stats] : []))
+  const bedDays = tracked.reduce((s, o) => s + o.bedDays, 0)
+  const occupiedBedDays = tracked.reduce((s, o) => s + o.occupiedBedDays, 0)
+  return {
+    stats,
+    tracked: tracked.length,
+    voidBedDays: bedDays - occupiedBedDays,
+    occupancyPct: bedDays > 0 ? (occupiedBedDays / bedDays) * 100 : null,
+    rentLostAnn: tracked.reduce((s, o) => s + o.rentLostAnn, 0),
+  }
+}
+
+// ─── Form input ───────────────────────────────────────────────────────────────
+export type OccupancyInput = Omit<OccupancyPeriod, 'id' | 'property_id'>
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+function validDate(v: string) {
+  return DATE.test(v) && !Number.isNaN(Date.parse(v))
+}
+
+// Validate a request body into occupancy_periods columns
+export function parseOccupancyInput(body: unknown): { period: OccupancyInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const text = (k: string) => (typeof b[k] === 'string' ? (b[k] as string).trim() : '')
+
+  const status = text('status') as OccupancyStatus
+  if (!OCCUPANCY_STATUSES.includes(status)) return { error: 'Choose occupied or void' }
+  const start_date = text('start_date')
+  if (!validDate(start_date)) return { error: 'Start date must be YYYY-MM-DD' }
+  const end_date = text('end_date') || null
+  if (end_date !== null && !validDate(end_date)) return { error: 'End date must be YYYY-MM-DD' }
+  if (end_date !== null && end_date < start_date) return { error: 'End date cannot be before the start date' }
+
+  return { period: { room: text('room') || null, status, start_date, end_date, note: text('note') || null } }
+}
@@ -0,0 +1,57 @@
+import type { LedgerEntry, Owner, OwnerKind, Property, PropertyOwner } from '@/lib/models'
+
+// Ownership entities and what each holds: a property in one person's name, held
+// jointly by several, or through a limited company (SPV). Client-safe.
+
+export const OWNER_KIND_LABELS: Record<OwnerKind, string> = {
+  individual: 'Individual',
+  company:    'Limited company',
+}
+
+export const HOLDING_STRUCTURES = ['personal', 'joint', 'company', 'mixed'] as const
+export type HoldingStructure = typeof HOLDING_STRUCTURES[number]
+
+export const HOLDING_STRUCTURE_LABELS: Record<HoldingStructure, string> = {
+  personal: 'Personal',
+  joint:    'Joint',
+  company:  'Company',
+  mixed:    'Mixed',
+}
+
+export interface Holding {
+  property: Property
+  share: number   // fraction of the property, 0–1
+}
+
+// An entity's properties, in the order given
+export function holdings(owner: Owner, properties: Property[], shares: PropertyOwner[]): Holding[] {
+  return properties.flatMap(property => {
+    const s = shares.find(o => o.owner_id === owner.id && o.property_id === property.property_id)
+    return s ? [{ property, share: s.share }] : []
+  })
+}
+
+// Entities holding at least one of the properties, for pickers
+export function holdingEntities(owners: Owner[], properties: Property[], shares: PropertyOwner[]): Owner[] {
+  return owners.filter(o => holdings(o, properties, shares).length > 0)
+}
+
+// An entity's share of each ledger row on the properties it holds
+export function shareOfLedger(ledger: LedgerEntry[], held: Holding[]): LedgerEntry[] {
+  const shares = new Map(held.map(h => [h.property.property_id, h.share]))
+  return ledger.flatMap(t => {
+    const share = t.property_id === null ? undefined : shares.get(t.property_id)
+    return share === undefined ? [] : [{ ...t, amount: share * t.amount }]
+  })
+}
+
+// How a property is held; null with no owners recorded
+export function holdingStructure(propertyId: string, owners: Owner[], shares: PropertyOwner[]): HoldingStructure | null {
+  const kinds = shares
+    .filter(s => s.property_id === propertyId)
+    .flatMap(s => owners.filter(o => o.id === s.owner_id).map(o => o.kind))
+  if (kinds.length === 0) return null
+  if (kinds.every(k => k === 'company')) return 'company'
+  if (kinds.every(k => k === 'individual')) return kinds.length === 1 ? 'personal' : 'joint'
+  return 'mixed'
+}
@@ -0,0 +1,56 @@
+// Reporting periods for grouping dated rows: calendar months and quarters, and
+// the UK tax year, which runs from 6 April to 5 April. Keys sort in date order.
+// Client-safe.
+
+export const PERIOD_GROUPINGS = ['month', 'quarter', 'taxYear'] as const
+export type PeriodGrouping = typeof PERIOD_GROUPINGS[number]
+
+export const PERIOD_GROUPING_LABELS: Record<PeriodGrouping, string> = {
+  month:   'Monthly',
+  quarter: 'Quarterly',
+  taxYear: 'Tax year',
+}
+
+// The calendar year the date's tax year starts in: 2025 for 2025/26
+export function taxYearOf(date: string): number {
+  const year = Number(date.slice(0, 4))
+  return date.slice(5) >= '04-06' ? year : year - 1
+}
+
+export function taxYearLabel(startYear: number): string {
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`
+}
+
+// First and last day of the tax year starting in the given year
+export function taxYearBounds(startYear: number): { from: string; to: string } {
+  return { from: `${startYear}-04-06`, to: `${startYear + 1}-04-05` }
+}
+
+export function periodKey(date: string, grouping: PeriodGrouping): string {
+  if (grouping === 'month') return date.slice(0, 7)
+  if (grouping === 'quarter') return `${date.slice(0, 4)}-Q${Math.ceil(Number(date.slice(5, 7)) / 3)}`
+  return String(taxYearOf(date))
+}
+
+export function periodLabel(key: string, grouping: PeriodGrouping): string {
+  if (grouping === 'month') {
+    return new Date(key + '-01T00:00:00').toLocaleDateString('en-GB', { month: 'short', year: '2-digit' })
+  }
+  if (grouping === 'quarter') return `${key.slice(5)} ${key.slice(0, 4)}`
+  return taxYearLabel(Number(key))
+}
+
+// Every period from the one containing `from` to the one containing `to`, gaps included
+export function periodKeys(from: string, to: string, grouping: PeriodGrouping): string[] {
+  const dates = [from, to]
+  let [y, m] = from.split('-').map(Number)
+  for (let month = from.slice(0, 7); month <= to.slice(0, 7); month = `${y}-${String(m).padStart(2, '0')}`) {
+    // Mid-month stands in for the month; April also needs the tax-year start
+    for (const day of m === 4 ? ['15', '06'] : ['15']) {
+      const date = `${month}-${day}`
+      if (date >= from && date <= to) dates.push(date)
+    }
+    if (++m > 12) { m = 1; y++ }
+  }
+  return Array.from(new Set(dates.map(d => periodKey(d, grouping)))).sort()
+}
@@ -0,0 +1,138 @@
+import type { Property } from '@/lib/models'
+
+// Field layout and validation for the property form, shared by the form (live
+// preview and inline errors) and the route handlers that save it. Client-safe.
+
+export type PropertyInput = Omit<Property, 'archived_at'>
+
+// money: £, ≥ 0 · rate: a fraction between 0 and 1 · count: whole number ≥ 0
+export type FieldKind = 'id' | 'text' | 'money' | 'rate' | 'count'
+
+export interface FieldDef {
+  key: keyof PropertyInput
+  label: string
+  kind: FieldKind
+  required?: boolean
+  hint?: string
+}
+
+// Grouped as the Investment Summary, Income and Valuation panels show them
+export const PROPERTY_SECTIONS: { title: string; fields: FieldDef[] }[] = [
+  {
+    title: 'Property',
+    fields: [
+      { key: 'property_id',   label: 'Property ID',  kind: 'id', required: true, hint: 'Short code, e.g. P11 — cannot be changed later' },
+      { key: 'address',       label: 'Address',      kind: 'text', required: true },
+      { key: 'city',          label: 'City',         kind: 'text', required: true },
+      { key: 'property_link', label: 'Listing link', kind: 'text' },
+    ],
+  },
+  {
+    title: 'Investment Summary',
+    fields: [
+      { key: 'purchase_price',       label: 'Purchase price',         kind: 'money' },
+      { key: 'deposit_pct_phase1',   label: 'Deposit Phase 1',        kind: 'rate' },
+      { key: 'cash_deposit_phase1',  label: 'Cash deposit Phase 1',   kind: 'money' },
+      { key: 'stamp_duty',           label: 'Stamp duty',             kind: 'money' },
+      { key: 'solicitor_fees',       label: 'Solicitor & mtg fees',   kind: 'money' },
+      { key: 'agent_fee',            label: 'Agent fee',              kind: 'money' },
+      { key: 'renovation_cost',      label: 'Renovation cost',        kind: 'money' },
+      { key: 'renovation_mgmt_fee',  label: 'Renovation mgmt fee',    kind: 'money' },
+      { key: 'mortgage_rate_phase1', label: 'Mortgage rate Phase 1',  kind: 'rate' },
+      { key: 'equity_release',       label: 'Equity released',        kind: 'money' },
+    ],
+  },
+  {
+    title: 'Income & Running Costs (Phase 2)',
+    fields: [
+      { key: 'beds_phase2',            label: 'Beds',                  kind: 'count' },
+      { key: 'annual_rent_phase2',     label: 'Annual rent',           kind: 'money' },
+      { key: 'management_phase2',      label: 'Management',            kind: 'money' },
+      { key: 'provision_costs_phase2', label: 'Maintenance provision', kind: 'money' },
+      { key: 'provision_voids_phase2', label: 'Void provision',        kind: 'money' },
+      { key: 'bills_phase2',           label: 'Bills',                 kind: 'money' },
+      { key: 'mortgage_rate_phase2',   label: 'Mortgage rate',         kind: 'rate' },
+    ],
+  },
+  {
+    title: 'Valuation & Equity',
+    fields: [
+      { key: 'revaluation_estimate', label: 'Base Case Revaluation', kind: 'money' },
+      { key: 'deposit_pct_phase2',   label: 'Deposit Phase 2',       kind: 'rate', hint: 'LTV is 1 − deposit' },
+      { key: 'market_value_est',     label: 'Market Value Estimate', kind: 'money' },
+      { key: 'market_value_basis',   label: 'Basis',                 kind: 'text' },
+      { key: 'notes_phase2',         label: 'Notes',                 kind: 'text' },
+    ],
+  },
+]
+
+export const PROPERTY_FIELDS = PROPERTY_SECTIONS.flatMap(s => s.fields)
+
+// Form values are the raw strings from the inputs
+export type PropertyFormValues = Record<keyof PropertyInput, string>
+
+export function toFormValues(p?: Property): PropertyFormValues {
+  const values = {} as PropertyFormValues
+  for (const f of PROPERTY_FIELDS) {
+    const v = p?.[f.key]
+    values[f.key] = v === null || v === undefined ? '' : String(v)
+  }
+  return values
+}
+
+// Also used by the scenario form, which shares the money and rate rules
+export function fieldError(f: Pick<FieldDef, 'label' | 'kind' | 'required'>, raw: string): string | null {
+  const v = raw.trim()
+  if (v === '') return f.required ? `${f.label} is required` : null
+  if (f.kind === 'id') return /^[A-Za-z0-9_-]+$/.test(v) ? null : 'Letters, numbers, - and _ only'
+  if (f.kind === 'text') return null
+  const n = Number(v.replace(/[£,]/g, ''))
+  if (!Number.isFinite(n)) return 'Must be a number'
+  if (n < 0) return 'Cannot be negative'
+  if (f.kind === 'count' && !Number.isInteger(n)) return 'Must be a whole number'
+  if (f.kind === 'rate' && n > 1) {
+    // The classic slip: 75 typed for 75%
+    return n <= 100 ? `Enter rates as a fraction — ${Number((n / 100).toFixed(6))} for ${n}%` : 'Must be between 0 and 1'
+  }
+  return null
+}
+
+// Errors keyed by field; empty when the values are valid
+export function propertyFormErrors(values: Partial<PropertyFormValues>): Partial<Record<keyof PropertyInput, string>> {
+  const errors: Partial<Record<keyof PropertyInput, string>> = {}
+  for (const f of PROPERTY_FIELDS) {
+    const problem = fieldError(f, values[f.key] ?? '')
+    if (problem) errors[f.key] = problem
+  }
+  return errors
+}
+
+// Best-effort numbers for the live preview: anything unparseable counts as 0
+export function previewFigures(values: PropertyFormValues): PropertyInput {
+  const out = {} as Record<string, string | number | null>
+  for (const f of PROPERTY_FIELDS) {
+    const v = values[f.key].trim()
+    if (f.kind === 'id' || f.kind === 'text') out[f.key] = v === '' ? null : v
+    else {
+      const n = Number(v.replace(/[£,]/g, ''))
+      out[f.key] = Number.isFinite(n) ? n : 0
+    }
+  }
+  return out as unknown as PropertyInput
+}
+
+// Validate a request body into a row for properties_master
+export function parsePropertyInput(body: unknown):
+  { property: PropertyInput } | { errors: Partial<Record<keyof PropertyInput, string>> } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const values = {} as PropertyFormValues
+  for (const f of PROPERTY_FIELDS) {
+    const v = b[f.key]
+    values[f.key] = typeof v === 'string' ? v : typeof v === 'number' ? String(v) : ''
+  }
+  const errors = propertyFormErrors(values)
+  if (Object.keys(errors).length > 0) return { errors }
+  const property = previewFigures(values)
+  // Blank numbers become 0, matching how the model reads nulls; the basis is never null
+  return { property: { ...property, market_value_basis: property.market_value_basis ?? '' } }
+}
@@ -0,0 +1,115 @@
+import type { Mortgage, Property, Valuation } from '@/lib/models'
+import { propertyKpis } from '@/lib/calculations'
+import { activeMortgage, amortisationSchedule, debtPosition, endDate } from '@/lib/mortgages'
+import { addMonths } from '@/lib/dates'
+
+// Remortgage planner: fixed rates ending soon across the portfolio, what the
+// payment does on reversion, and what a new product at a target LTV would release.
+// This is the refinance that follows the phase-2 equity_release. Client-safe.
+
+export const PLANNER_MONTHS = 24
+
+export interface PlannerAssumptions {
+  targetLtv: number   // fraction
+  newRate: number     // fraction, for the replacement product
+}
+
+export interface RemortgageOption {
+  property: Property
+  mortgage: Mortgage
+  expiry: string                    // fixed_until
+  monthsAway: number
+  balance: number                   // outstanding at expiry
+  paymentBefore: number             // monthly, last fixed-rate payment
+  paymentAfter: number              // monthly, first payment at the reversion rate
+  valuation: { value: number; date: string | null; source: string }
+  newLoan: number                   // valuation × target LTV
+  equityReleased: number            // new loan less the balance; negative = shortfall to pay in
+  cashflowNow: number               // monthly, on the current loan today
+  cashflowOnReversion: number       // monthly, if nothing is done
+  cashflowAfter: number             // monthly, on the new loan
+  roiNow: number
+  roiAfter: number
+}
+
+// Latest valuations entry for the property, or its market value estimate
+export function latestValuation(p: Property, valuations: Valuation[]): RemortgageOption['valuation'] {
+  let latest: Valuation | null = null
+  for (const v of valuations) {
+    if (v.property_id !== p.property_id) continue
+    if (!latest || v.date > latest.date) latest = v
+  }
+  return latest
+    ? { value: latest.value, date: latest.date, source: latest.source }
+    : { value: p.market_value_est, date: null, source: 'Market value estimate' }
+}
+
+function monthsBetween(from: string, to: string) {
+  const [fy, fm] = from.split('-').map(Number)
+  const [ty, tm] = to.split('-').map(Number)
+  return (ty - fy) * 12 + (tm - fm)
+}
+
+// Every fixed rate ending within the planning window on a loan still in force then.
+// The replacement keeps the loan's type and remaining term.
+export function remortgageOptions(
+  properties: Property[], mortgages: Mortgage[], valuations: Valuation[],
+  today: string, { targetLtv, newRate }: PlannerAssumptions,
+): RemortgageOption[] {
+  const horizon = addMonths(today, PLANNER_MONTHS)
+  const options: RemortgageOption[] = []
+
+  for (const p of properties) {
+    const own = mortgages.filter(m => m.property_id === p.property_id)
+    for (const m of own) {
+      const expiry = m.fixed_until
+      if (!expiry || expiry <= today || expiry > horizon || expiry >= endDate(m)) continue
+      if (activeMortgage(own, expiry) !== m) continue   // already replaced by a later loan
+
+      const schedule = amortisationSchedule(m)
+      const before = schedule.filter(r => r.date <= expiry)
+      const after = schedule.find(r => r.date > expiry)!
+      const balance = before.length > 0 ? before[before.length - 1].balance : m.principal
+
+      const valuation = latestValuation(p, valuations)
+      const newLoan = valuation.value * targetLtv
+      const replacement: Mortgage = {
+        ...m,
+        id: 'planned',
+        start_date: expiry,
+        principal: newLoan,
+        term_months: Math.max(1, monthsBetween(expiry, endDate(m))),
+        initial_rate: newRate,
+        fixed_until: null,
+        reversion_rate: null,
+      }
+
+      // Released equity comes off the net cash left in the deal, as equity_release does
+      const now = propertyKpis(p, debtPosition(own, today))
+      const onReversion = propertyKpis(p, debtPosition(own, after.date))
+      const afterKpis = propertyKpis(
+        { ...p, equity_release: p.equity_release + (newLoan - balance) },
+        newLoan > 0 ? debtPosition([replacement], expiry) : { outstanding: 0, annualInterest: 0, annualCapital: 0 },
+      )
+
+      options.push({
+        property: p,
+        mortgage: m,
+        expiry,
+        monthsAway: monthsBetween(today, expiry),
+        balance,
+        paymentBefore: before.length > 0 ? before[before.length - 1].payment : after.payment,
+        paymentAfter: after.payment,
+        valuation,
+        newLoan,
+        equityReleased: newLoan - balance,
+        cashflowNow: now.monthlyCashflow,
+        cashflowOnReversion: onReversion.monthlyCashflow,
+        cashflowAfter: afterKpis.monthlyCashflow,
+        roiNow: now.roi,
+        roiAfter: afterKpis.roi,
+      })
+    }
+  }
+  return options.sort((a, b) => a.expiry.localeCompare(b.expiry))
+}
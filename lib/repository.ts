@@ -0,0 +1,126 @@
+import { cache } from 'react'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+import { buildAddressResolver } from '@/lib/addresses'
+import {
+  parseRows, parseProperty, parseCapitalTransaction, parseScenario, parseValuation,
+  parseLedgerEntry, parseStarlingTransaction, parseAddressAlias, parseStarlingRule, parseMortgage, parseTenancy,
+  parseOccupancyPeriod, parseOwner, parsePropertyOwner, parseTaxBand,
+  type Property, type CapitalTransaction, type Scenario, type Valuation,
+  type LedgerEntry, type StarlingTransaction, type StarlingRule, type PostingTable, type Mortgage, type Tenancy,
+  type OccupancyPeriod, type Owner, type PropertyOwner, type TaxBand,
+} from '@/lib/models'
+
+// Everything the dashboard renders, already validated and filtered to one viewer
+export interface DashboardData {
+  properties: Property[]
+  ledger: LedgerEntry[]
+  starling: StarlingTransaction[]
+  capitalTransactions: CapitalTransaction[]
+  scenarios: Scenario[]
+  mortgages: Mortgage[]
+  tenancies: Tenancy[]
+  occupancyPeriods: OccupancyPeriod[]
+  owners: Owner[]                   // empty for restricted viewers
+  propertyOwners: PropertyOwner[]   // empty for restricted viewers
+  taxBands: TaxBand[]
+  valuations: Valuation[]           // only those linked to a property
+  starlingRules: StarlingRule[]   // empty for viewers who cannot edit
+}
+
+// ─── Loader ───────────────────────────────────────────────────────────────────
+// Each table is fetched once per request, however many components ask for it.
+const loadAliases = cache(async () => {
+  const { data, error } = await supabaseAdmin.from('property_address_aliases').select('alias, property_id')
+  if (error) throw error
+  return parseRows('property_address_aliases', data, parseAddressAlias)
+})
+
+export const loadPortfolio = cache(async (): Promise<DashboardData> => {
+  const [props, ledger, starling, capital, scens, morts, tens, occ, owners, shares, bands, vals, aliases, rules] = await Promise.all([
+    supabaseAdmin.from('properties_master').select('*').order('property_id'),
+    supabaseAdmin.from('transactions').select('*'),
+    supabaseAdmin.from('starling_transactions').select('*').order('date', { ascending: false }),
+    supabaseAdmin.from('capital_transactions').select('*').order('property_id'),
+    supabaseAdmin.from('scenarios').select('*').order('property_id'),
+    supabaseAdmin.from('mortgages').select('*').order('start_date'),
+    supabaseAdmin.from('tenancies').select('*').order('start_date'),
+    supabaseAdmin.from('occupancy_periods').select('*').order('start_date'),
+    supabaseAdmin.from('owners').select('*').order('name'),
+    supabaseAdmin.from('property_owners').select('*'),
+    supabaseAdmin.from('tax_bands').select('*').order('lower'),
+    supabaseAdmin.from('valuations').select('*').order('date'),
+    loadAliases(),
+    supabaseAdmin.from('starling_rules').select('*').order('priority'),
+  ])
+  for (const r of [props, ledger, starling, capital, scens, morts, tens, occ, owners, shares, bands, vals, rules]) if (r.error) throw r.error
+
+  // Link free-text ledger and bank addresses to properties once, here, for every consumer
+  const properties = parseRows('properties_master', props.data, parseProperty)
+  const resolve = buildAddressResolver(properties, aliases)
+  const ledgerEntries = parseRows('transactions', ledger.data, parseLedgerEntry)
+  const capitalTransactions = parseRows('capital_transactions', capital.data, parseCapitalTransaction)
+  // Valuations belong to a property by id, or by address where none was recorded
+  const ids = new Set(properties.map(p => p.property_id))
+  const valuations = parseRows('valuations', vals.data, parseValuation)
+    .map(v => ({ ...v, property_id: v.property_id && ids.has(v.property_id) ? v.property_id : resolve(v.address) }))
+    .filter(v => v.property_id !== null)
+
+  // Bank rows already posted, keyed by their id, from the back-references
+  const postedTo = new Map<string, PostingTable>()
+  for (const t of ledgerEntries) if (t.source_starling_id) postedTo.set(t.source_starling_id, 'transactions')
+  for (const t of capitalTransactions) if (t.source_starling_id) postedTo.set(t.source_starling_id, 'capital_transactions')
+
+  return {
+    properties,
+    ledger: ledgerEntries.map(t => ({ ...t, property_id: resolve(t.property_address) })),
+    starling: parseRows('starling_transactions', starling.data, parseStarlingTransaction)
+      .map(t => ({ ...t, property_id: resolve(t.property_address), posted_to: postedTo.get(t.id) ?? null })),
+    capitalTransactions,
+    scenarios:           parseRows('scenarios', scens.data, parseScenario),
+    mortgages:           parseRows('mortgages', morts.data, parseMortgage),
+    tenancies:           parseRows('tenancies', tens.data, parseTenancy),
+    occupancyPeriods:    parseRows('occupancy_periods', occ.data, parseOccupancyPeriod),
+    owners:              parseRows('owners', owners.data, parseOwner),
+    propertyOwners:      parseRows('property_owners', shares.data, parsePropertyOwner),
+    taxBands:            parseRows('tax_bands', bands.data, parseTaxBand),
+    valuations,
+    starlingRules:       parseRows('starling_rules', rules.data, parseStarlingRule),
+  }
+})
+
+// The same resolver, for rows that are not stored yet (statement imports)
+export const loadAddressResolver = cache(async () => {
+  const [{ properties }, aliases] = await Promise.all([loadPortfolio(), loadAliases()])
+  return buildAddressResolver(properties, aliases)
+})
+
+// ─── Per-viewer view ──────────────────────────────────────────────────────────
+// Filtered here so the browser only receives rows the viewer is allowed to see.
+// Archived properties are left out; their history still resolves to them.
+export async function loadDashboardData(viewer: Viewer): Promise<DashboardData> {
+  const all = await loadPortfolio()
+  const starlingRules = viewer.canEdit ? all.starlingRules : []
+  const active = all.properties.filter(p => !p.archived_at)
+  if (viewer.propertyIds === null) return { ...all, properties: active, starlingRules }
+
+  const properties = active.filter(p => canSeeProperty(viewer, p.property_id))
+
+  // Rows that don't resolve to a property are only shown to unrestricted viewers
+  return {
+    properties,
+    ledger:              all.ledger.filter(t => canSeeProperty(viewer, t.property_id)),
+    starling:            all.starling.filter(t => canSeeProperty(viewer, t.property_id)),
+    capitalTransactions: all.capitalTransactions.filter(t => canSeeProperty(viewer, t.property_id)),
+    scenarios:           all.scenarios.filter(s => canSeeProperty(viewer, s.property_id)),
+    mortgages:           all.mortgages.filter(m => canSeeProperty(viewer, m.property_id)),
+    tenancies:           all.tenancies.filter(t => canSeeProperty(viewer, t.property_id)),
+    occupancyPeriods:    all.occupancyPeriods.filter(o => canSeeProperty(viewer, o.property_id)),
+    // An owner's tax depends on everything they hold, so it is not shown in part
+    owners:              [],
+    propertyOwners:      [],
+    taxBands:            all.taxBands,
+    valuations:          all.valuations.filter(v => canSeeProperty(viewer, v.property_id)),
+    starlingRules,
+  }
+}
@@ -0,0 +1,34 @@
+// Client-safe role helpers — the server-side viewer lookup lives in lib/access.ts
+
+// ─── Roles ────────────────────────────────────────────────────────────────────
+export type Role = 'owner' | 'bookkeeper' | 'investor' | 'lender'
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner:      'Owner',
+  bookkeeper: 'Bookkeeper',
+  investor:   'Investor (read-only)',
+  lender:     'Lender',
+}
+
+const EDIT_ROLES: Role[] = ['owner', 'bookkeeper']
+
+export function canEdit(role: Role) {
+  return EDIT_ROLES.includes(role)
+}
+
+// ─── Viewer ───────────────────────────────────────────────────────────────────
+// Serialisable summary of the signed-in user, safe to pass to client components.
+// propertyIds === null means the viewer may see every property.
+export interface Viewer {
+  id: string
+  email: string
+  displayName: string | null
+  role: Role
+  propertyIds: string[] | null
+  canEdit: boolean
+}
+
+export function canSeeProperty(viewer: Viewer, propertyId: string | null | undefined) {
+  if (viewer.propertyIds === null) return true
+  return !!propertyId && viewer.propertyIds.includes(propertyId)
+}
@@ -0,0 +1,97 @@
+import type { Property, Scenario } from '@/lib/models'
+import { scenarioKpis, type PropertyFigures } from '@/lib/calculations'
+import { fieldError, type FieldKind } from '@/lib/property-form'
+import { canSeeProperty, type Viewer } from '@/lib/roles'
+
+// Fields and validation for the scenario builder, shared by the Scenario Analysis
+// table (live recalculation) and the route handlers that save it. Client-safe.
+
+export type ScenarioInput = Pick<Scenario,
+  'scenario_label' | 'revaluation_estimate' | 'deposit_pct_phase2' | 'equity_release' |
+  'mortgage_rate_phase2' | 'annual_rent_phase2'>
+
+export const SCENARIO_FIELDS: { key: keyof ScenarioInput; label: string; kind: FieldKind; required?: boolean }[] = [
+  { key: 'scenario_label',       label: 'Scenario',              kind: 'text', required: true },
+  { key: 'revaluation_estimate', label: 'Base Case Revaluation', kind: 'money' },
+  { key: 'deposit_pct_phase2',   label: 'Deposit',               kind: 'rate' },
+  { key: 'equity_release',       label: 'Equity Release',        kind: 'money' },
+  { key: 'mortgage_rate_phase2', label: 'Mortgage Rate',         kind: 'rate' },
+  { key: 'annual_rent_phase2',   label: 'Annual Rent',           kind: 'money' },
+]
+
+export type ScenarioFormValues = Record<keyof ScenarioInput, string>
+
+// The property's own refinance and rent assumptions, as a starting point
+export function propertyScenario(p: Property, label = ''): ScenarioInput {
+  return {
+    scenario_label:       label,
+    revaluation_estimate: p.revaluation_estimate,
+    deposit_pct_phase2:   p.deposit_pct_phase2,
+    equity_release:       p.equity_release,
+    mortgage_rate_phase2: p.mortgage_rate_phase2,
+    annual_rent_phase2:   p.annual_rent_phase2,
+  }
+}
+
+export function toScenarioForm(s: ScenarioInput): ScenarioFormValues {
+  const values = {} as ScenarioFormValues
+  for (const f of SCENARIO_FIELDS) values[f.key] = String(s[f.key])
+  return values
+}
+
+export function scenarioFormErrors(values: Partial<ScenarioFormValues>): Partial<Record<keyof ScenarioInput, string>> {
+  const errors: Partial<Record<keyof ScenarioInput, string>> = {}
+  for (const f of SCENARIO_FIELDS) {
+    const problem = fieldError(f, values[f.key] ?? '')
+    if (problem) errors[f.key] = problem
+  }
+  return errors
+}
+
+// Best-effort numbers for live recalculation: anything unparseable counts as 0
+export function scenarioFigures(values: ScenarioFormValues): ScenarioInput {
+  const out = {} as Record<string, string | number>
+  for (const f of SCENARIO_FIELDS) {
+    const v = values[f.key].trim()
+    if (f.kind === 'text') out[f.key] = v
+    else {
+      const n = Number(v.replace(/[£,]/g, ''))
+      out[f.key] = Number.isFinite(n) ? n : 0
+    }
+  }
+  return out as unknown as ScenarioInput
+}
+
+// Validate a request body into scenarios columns
+export function parseScenarioInput(body: unknown):
+  { scenario: ScenarioInput } | { errors: Partial<Record<keyof ScenarioInput, string>> } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const values = {} as ScenarioFormValues
+  for (const f of SCENARIO_FIELDS) {
+    const v = b[f.key]
+    values[f.key] = typeof v === 'string' ? v : typeof v === 'number' ? String(v) : ''
+  }
+  const errors = scenarioFormErrors(values)
+  if (Object.keys(errors).length > 0) return { errors }
+  return { scenario: scenarioFigures(values) }
+}
+
+// ─── Access ───────────────────────────────────────────────────────────────────
+// Scenarios belong to their property: a viewer who cannot see the property cannot
+// see, add or change its scenarios.
+export function canAddScenario(properties: Property[], viewer: Viewer, propertyId: unknown): propertyId is string {
+  return typeof propertyId === 'string' &&
+    properties.some(p => p.property_id === propertyId) && canSeeProperty(viewer, propertyId)
+}
+
+export function visibleScenario(scenarios: Scenario[], viewer: Viewer, id: string): Scenario | null {
+  const scenario = scenarios.find(s => s.scenario_id === id)
+  return scenario && canSeeProperty(viewer, scenario.property_id) ? scenario : null
+}
+
+// Cumulative cash position at the end of each year, starting from the net cash
+// left in the deal. Where a line crosses zero the cash has been recovered.
+export function cumulativeCash(p: PropertyFigures, s: ScenarioInput, years: number): number[] {
+  const { netCashInvested, annualCashflow } = scenarioKpis(p, s)
+  return Array.from({ length: years + 1 }, (_, y) => -netCashInvested + annualCashflow * y)
+}
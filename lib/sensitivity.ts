@@ -0,0 +1,102 @@
+import type { Mortgage, Property } from '@/lib/models'
+import { propertyKpis, type DebtFigures, type PropertyFigures } from '@/lib/calculations'
+import { debtPosition, type DebtPosition } from '@/lib/mortgages'
+
+// Two-way sensitivity: the mortgage rate down one axis, rent, revaluation or LTV
+// across the other, run through the same propertyKpis and debt position as the KPI
+// cards. Steps are offsets from each property's own figures so a portfolio grid
+// moves every property together. Client-safe.
+
+export type SensitivityAxis = 'rent' | 'revaluation' | 'ltv'
+export type SensitivityMetric = 'cashflow' | 'roi' | 'icr'
+
+// Percentage points added to mortgage_rate_phase2
+export const RATE_STEPS = [-0.015, -0.01, -0.005, 0, 0.005, 0.01, 0.015, 0.02, 0.025]
+
+// rent / revaluation: relative change · ltv: percentage points of LTV
+export const AXIS_STEPS: Record<SensitivityAxis, { label: string; steps: number[] }> = {
+  rent:        { label: 'Rent',        steps: [-0.2, -0.15, -0.1, -0.05, 0, 0.05, 0.1] },
+  revaluation: { label: 'Revaluation', steps: [-0.2, -0.1, -0.05, 0, 0.05, 0.1, 0.2] },
+  ltv:         { label: 'LTV',         steps: [-0.15, -0.1, -0.05, 0, 0.05, 0.1] },
+}
+
+// Lenders' usual stress tests: 145% cover for higher-rate taxpayers, 125% for basic
+export const ICR_COMFORTABLE = 1.45
+export const ICR_MINIMUM = 1.25
+
+export interface SensitivityInput {
+  property: Property
+  debt: DebtPosition | null   // the recorded mortgage today; null uses the phase-2 assumptions
+}
+
+export function sensitivityInputs(properties: Property[], mortgages: Mortgage[], today: string): SensitivityInput[] {
+  return properties.map(p => ({
+    property: p,
+    debt: debtPosition(mortgages.filter(m => m.property_id === p.property_id), today),
+  }))
+}
+
+export interface FlexedFigures {
+  figures: PropertyFigures
+  debt: DebtFigures | null
+}
+
+// A property's figures with one rate step and one axis step applied. A bigger or
+// smaller refinance changes the equity released by the same amount. With a recorded
+// mortgage the rate step moves the rate in force, scaling the year's interest with it,
+// and a refinance change adds to the balance at the stepped rate.
+export function flexFigures(
+  { property: p, debt }: SensitivityInput, rateStep: number, axis: SensitivityAxis, step: number,
+): FlexedFigures {
+  const rate = Math.max(0, (debt ? debt.rate : p.mortgage_rate_phase2) + rateStep)
+  let { annual_rent_phase2, revaluation_estimate, deposit_pct_phase2 } = p
+  if (axis === 'rent') annual_rent_phase2 *= 1 + step
+  if (axis === 'revaluation') revaluation_estimate *= 1 + step
+  if (axis === 'ltv') deposit_pct_phase2 = Math.min(1, Math.max(0, deposit_pct_phase2 - step))
+  const mortgageChange =
+    revaluation_estimate * (1 - deposit_pct_phase2) - p.revaluation_estimate * (1 - p.deposit_pct_phase2)
+  const figures = {
+    ...p,
+    mortgage_rate_phase2: rate,
+    annual_rent_phase2,
+    revaluation_estimate,
+    deposit_pct_phase2,
+    equity_release: p.equity_release + mortgageChange,
+  }
+  if (!debt) return { figures, debt: null }
+
+  const interest = debt.rate > 0 ? debt.annualInterest * (rate / debt.rate) : debt.outstanding * rate
+  const added = Math.max(mortgageChange, -debt.outstanding)
+  return {
+    figures,
+    debt: {
+      outstanding:    debt.outstanding + added,
+      annualInterest: Math.max(0, interest + added * rate),
+      annualCapital:  debt.annualCapital,
+    },
+  }
+}
+
+export interface SensitivityCell {
+  monthlyCashflow: number
+  roi: number                  // cash-on-cash, %
+  icr: number | null
+}
+
+// One cell: a single property's KPIs, or the portfolio's combined from the sums
+export function sensitivityCell(inputs: SensitivityInput[], rateStep: number, axis: SensitivityAxis, step: number): SensitivityCell {
+  let cashflow = 0, netCash = 0, rent = 0, interest = 0
+  for (const input of inputs) {
+    const { figures, debt } = flexFigures(input, rateStep, axis, step)
+    const k = propertyKpis(figures, debt)
+    cashflow += k.annualCashflow
+    netCash += k.netCashInvested
+    rent += figures.annual_rent_phase2
+    interest += k.annualMortgageInterest
+  }
+  return {
+    monthlyCashflow: cashflow / 12,
+    roi: netCash > 0 ? (cashflow / netCash) * 100 : 0,
+    icr: interest > 0 ? rent / interest : null,
+  }
+}
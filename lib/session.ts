@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { cookies } from 'next/headers'
+
+// ─── Signed session cookie ────────────────────────────────────────────────────
+// Token format: <base64url JSON payload>.<base64url HMAC-SHA256 signature>
+export const SESSION_COOKIE  = 'lansdowne_session'
+export const SESSION_MAX_AGE = 8 * 60 * 60   // seconds
+
+export interface Session {
+  sub: string     // dashboard_users.id
+  email: string
+  exp: number     // unix seconds
+}
+
+function secret(): string {
+  const s = process.env.SESSION_SECRET
+  if (!s || s.length < 32) throw new Error('SESSION_SECRET must be set to at least 32 characters')
+  return s
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret()).update(payload).digest('base64url')
+}
+
+export function createSessionToken(user: { id: string; email: string }): string {
+  const session: Session = {
+    sub: user.id,
+    email: user.email,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  }
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url')
+  return `${payload}.${sign(payload)}`
+}
+
+export function readSessionToken(token: string | undefined): Session | null {
+  if (!token) return null
+  const [payload, signature] = token.split('.')
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Session
+    if (typeof session.exp !== 'number' || session.exp * 1000 <= Date.now()) return null
+    return session
+  } catch {
+    return null
+  }
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_MAX_AGE,
+}
+
+// For server components and route handlers; the proxy reads the request cookie directly
+export async function getSession(): Promise<Session | null> {
+  const store = await cookies()
+  return readSessionToken(store.get(SESSION_COOKIE)?.value)
+}
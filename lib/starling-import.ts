@@ -0,0 +1,85 @@
+import type { StarlingTransaction } from '@/lib/models'
+import { parseCsv, parseMoney, parseUkDate } from '@/lib/csv'
+
+// Parses Starling's CSV statement export and diffs it against stored rows.
+// Client-safe, but the import route re-runs it so the server decides what is new.
+
+// ─── Statement rows ───────────────────────────────────────────────────────────
+export type StatementRow = Pick<StarlingTransaction,
+  'counter_party' | 'reference' | 'type' | 'amount_gbp' | 'balance_gbp' | 'spending_category'> & {
+  line: number   // 1-based row in the file (the header is row 1), for errors and the diff
+  date: string
+}
+
+// Starling's export headers, lower-cased, for each column we store
+const COLUMNS = {
+  date:              ['date'],
+  counter_party:     ['counter party', 'counterparty'],
+  reference:         ['reference'],
+  type:              ['type'],
+  amount_gbp:        ['amount (gbp)', 'amount'],
+  balance_gbp:       ['balance (gbp)', 'balance'],
+  spending_category: ['spending category'],
+}
+
+export function parseStarlingStatement(text: string): { rows: StatementRow[]; errors: string[] } {
+  const [header, ...body] = parseCsv(text)
+  if (!header) return { rows: [], errors: ['The file is empty'] }
+
+  const names = header.map(h => h.trim().toLowerCase())
+  const index = {} as Record<keyof typeof COLUMNS, number>
+  const missing: string[] = []
+  for (const [key, aliases] of Object.entries(COLUMNS) as [keyof typeof COLUMNS, string[]][]) {
+    index[key] = names.findIndex(n => aliases.includes(n))
+    if (index[key] === -1 && key !== 'spending_category') missing.push(aliases[0])
+  }
+  if (missing.length) return { rows: [], errors: [`Missing column(s): ${missing.join(', ')}`] }
+
+  const rows: StatementRow[] = []
+  const errors: string[] = []
+  body.forEach((cells, i) => {
+    const line = i + 2
+    const cell = (key: keyof typeof COLUMNS) => (index[key] === -1 ? '' : (cells[index[key]] ?? '').trim())
+    // The export opens with an "Opening Balance" line that has no amount
+    if (cell('amount_gbp') === '') return
+    const date = parseUkDate(cell('date'))
+    const amount = parseMoney(cell('amount_gbp'))
+    const balance = parseMoney(cell('balance_gbp'))
+    if (!date) { errors.push(`Row ${line}: unrecognised date "${cell('date')}"`); return }
+    if (amount === null) { errors.push(`Row ${line}: unrecognised amount "${cell('amount_gbp')}"`); return }
+    if (balance === null) { errors.push(`Row ${line}: unrecognised balance "${cell('balance_gbp')}"`); return }
+    rows.push({
+      line,
+      date,
+      counter_party:     cell('counter_party') || null,
+      reference:         cell('reference') || null,
+      type:              cell('type').toUpperCase() || null,
+      amount_gbp:        amount,
+      balance_gbp:       balance,
+      spending_category: cell('spending_category') || null,
+    })
+  })
+  return { rows, errors }
+}
+
+// ─── De-duplication ───────────────────────────────────────────────────────────
+// The running balance makes the key unique even for identical same-day payments
+export function importKey(t: Pick<StarlingTransaction, 'date' | 'amount_gbp' | 'reference' | 'balance_gbp'>) {
+  return [t.date ?? '', t.amount_gbp.toFixed(2), (t.reference ?? '').trim().toLowerCase(), t.balance_gbp.toFixed(2)].join('|')
+}
+
+export interface StatementDiff {
+  fresh: StatementRow[]
+  duplicates: StatementRow[]   // already stored, or repeated earlier in the same file
+}
+
+export function diffStatement(rows: StatementRow[], existing: StarlingTransaction[]): StatementDiff {
+  const seen = new Set(existing.map(importKey))
+  const diff: StatementDiff = { fresh: [], duplicates: [] }
+  for (const row of rows) {
+    const key = importKey(row)
+    if (seen.has(key)) diff.duplicates.push(row)
+    else { seen.add(key); diff.fresh.push(row) }
+  }
+  return diff
+}
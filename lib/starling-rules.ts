@@ -0,0 +1,128 @@
+import {
+  CATEGORISATION_STATUSES,
+  type CategorisationStatus, type StarlingRule, type StarlingTransaction,
+} from '@/lib/models'
+import { categorisationError, type CategorisationChange } from '@/lib/starling'
+
+// Pure rule evaluation, shared by the rules panel (live previews) and the
+// route handlers that apply rules to stored or freshly imported rows.
+
+// Rules never touch rows a person has already mapped
+const ELIGIBLE: (CategorisationStatus | null)[] = [null, 'pending', 'needs_review']
+
+export function isRuleEligible(t: Pick<StarlingTransaction, 'categorisation_status'>) {
+  return ELIGIBLE.includes(t.categorisation_status)
+}
+
+export type RuleConditions = Pick<StarlingRule,
+  'counter_party_pattern' | 'reference_pattern' | 'txn_type' | 'min_amount' | 'max_amount'>
+
+export function ruleMatches(
+  rule: RuleConditions,
+  t: Pick<StarlingTransaction, 'counter_party' | 'reference' | 'type' | 'amount_gbp'>,
+): boolean {
+  const contains = (value: string | null, pattern: string | null) =>
+    !pattern || (value ?? '').toLowerCase().includes(pattern.toLowerCase())
+  if (!contains(t.counter_party, rule.counter_party_pattern)) return false
+  if (!contains(t.reference, rule.reference_pattern)) return false
+  if (rule.txn_type && (t.type ?? '').toUpperCase() !== rule.txn_type.toUpperCase()) return false
+  if (rule.min_amount !== null && t.amount_gbp < rule.min_amount) return false
+  if (rule.max_amount !== null && t.amount_gbp > rule.max_amount) return false
+  return true
+}
+
+export function ruleChanges(rule: StarlingRule): CategorisationChange {
+  const changes: CategorisationChange = { categorisation_status: rule.set_status }
+  if (rule.set_property_id) changes.property_id = rule.set_property_id
+  if (rule.set_dashboard_category) changes.dashboard_category = rule.set_dashboard_category
+  return changes
+}
+
+function byPriority(rules: StarlingRule[]) {
+  return rules.filter(r => r.enabled).sort((a, b) => a.priority - b.priority || Number(a.id) - Number(b.id))
+}
+
+// ─── Run planning ─────────────────────────────────────────────────────────────
+export interface PlannedChange {
+  id: string
+  ruleId: string | null   // null = no rule matched, sent to review
+  changes: CategorisationChange
+}
+
+// First enabled rule (by priority) that matches and leaves the row valid wins.
+// Untouched 'pending' rows that no rule matches move to 'needs_review', so
+// pending only ever means "not yet seen by the rules".
+export function planRuleRun(rules: StarlingRule[], rows: StarlingTransaction[]): PlannedChange[] {
+  const ordered = byPriority(rules)
+  const plan: PlannedChange[] = []
+  for (const t of rows) {
+    if (!isRuleEligible(t)) continue
+    const rule = ordered.find(r => ruleMatches(r, t) && !categorisationError({ ...t, ...ruleChanges(r) }))
+    if (rule) plan.push({ id: t.id, ruleId: rule.id, changes: ruleChanges(rule) })
+    else if (t.categorisation_status !== 'needs_review') {
+      plan.push({ id: t.id, ruleId: null, changes: { categorisation_status: 'needs_review' } })
+    }
+  }
+  return plan
+}
+
+// Apply a plan in memory — used by imports before rows are inserted
+export function applyPlan<T extends StarlingTransaction>(rows: T[], plan: PlannedChange[]): T[] {
+  const byId = new Map(plan.map(p => [p.id, p.changes]))
+  return rows.map(t => ({ ...t, ...byId.get(t.id) }))
+}
+
+// How many eligible rows each rule would categorise if the rules ran now
+export function rulePreviewCounts(rules: StarlingRule[], rows: StarlingTransaction[]): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const p of planRuleRun(rules, rows)) {
+    if (p.ruleId) counts[p.ruleId] = (counts[p.ruleId] ?? 0) + 1
+  }
+  return counts
+}
+
+// ─── Validation of rule input ─────────────────────────────────────────────────
+export type RuleInput = Omit<StarlingRule, 'id'>
+
+export function parseRuleInput(body: unknown): { rule: RuleInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const text = (k: string) => (typeof b[k] === 'string' && (b[k] as string).trim() !== '' ? (b[k] as string).trim() : null)
+  const amount = (k: string) => {
+    if (b[k] === null || b[k] === undefined || b[k] === '') return null
+    const n = Number(b[k])
+    return Number.isFinite(n) ? n : NaN
+  }
+
+  const rule: RuleInput = {
+    name:                   text('name') ?? '',
+    priority:               b.priority === undefined || b.priority === '' ? 100 : Number(b.priority),
+    enabled:                b.enabled === undefined ? true : b.enabled === true,
+    counter_party_pattern:  text('counter_party_pattern'),
+    reference_pattern:      text('reference_pattern'),
+    txn_type:               text('txn_type')?.toUpperCase() ?? null,
+    min_amount:             amount('min_amount'),
+    max_amount:             amount('max_amount'),
+    set_property_id:        text('set_property_id'),
+    set_dashboard_category: text('set_dashboard_category'),
+    set_status:             (text('set_status') ?? 'mapped') as CategorisationStatus,
+  }
+
+  if (!rule.name) return { error: 'Give the rule a name' }
+  if (!Number.isInteger(rule.priority)) return { error: 'Priority must be a whole number' }
+  if (Number.isNaN(rule.min_amount) || Number.isNaN(rule.max_amount)) return { error: 'Amounts must be numbers' }
+  if (rule.min_amount !== null && rule.max_amount !== null && rule.min_amount > rule.max_amount) {
+    return { error: 'Minimum amount is greater than maximum' }
+  }
+  if (!rule.counter_party_pattern && !rule.reference_pattern && !rule.txn_type &&
+      rule.min_amount === null && rule.max_amount === null) {
+    return { error: 'A rule needs at least one condition' }
+  }
+  if (!CATEGORISATION_STATUSES.includes(rule.set_status)) return { error: 'Invalid status' }
+  const problem = categorisationError({
+    property_id: rule.set_property_id,
+    dashboard_category: rule.set_dashboard_category,
+    categorisation_status: rule.set_status,
+  })
+  if (problem) return { error: problem }
+  return { rule }
+}
@@ -0,0 +1,99 @@
+import {
+  MORTGAGE_PAYMENT_TYPE, RENT_TYPE,
+  type CategorisationStatus, type PostingTable, type Property, type StarlingTransaction,
+} from '@/lib/models'
+
+// Shared by the categorisation UI and the route handlers that save it.
+
+// ─── Dashboard categories ─────────────────────────────────────────────────────
+export const DASHBOARD_CATEGORIES = [
+  'Rent',
+  'Mortgage Payment',
+  'Management Fee',
+  'Maintenance',
+  'Utilities',
+  'Insurance',
+  'Council Tax',
+  'Compliance',
+  'Furnishing',
+  'Purchase',
+  'Acquisition Cost',
+  'Renovation',
+  'Refinance',
+  'Transfer',
+  'Other',
+]
+
+// ─── Status ───────────────────────────────────────────────────────────────────
+export const STATUS_LABELS: Record<CategorisationStatus, string> = {
+  pending:      'Pending',
+  needs_review: 'Needs Review',
+  mapped:       'Mapped',
+  mapped_msl:   'MSL',
+}
+
+// Fields the categorisation workflow may change on a row
+export interface CategorisationChange {
+  property_id?: string | null
+  dashboard_category?: string | null
+  categorisation_status?: CategorisationStatus
+}
+
+// Table columns for a change. property_address is what the bank feed stores, so a
+// property is written as its canonical address, which then resolves exactly.
+export function categorisationColumns(
+  changes: CategorisationChange,
+  properties: Pick<Property, 'property_id' | 'address'>[],
+) {
+  const { property_id, ...columns } = changes
+  if (property_id === undefined) return columns
+  return { ...columns, property_address: properties.find(p => p.property_id === property_id)?.address ?? null }
+}
+
+// A row can only be marked mapped once it says what it is; a property-level
+// mapping also needs a property. MSL rows are company-level and may have none.
+export function categorisationError(
+  row: Pick<StarlingTransaction, 'property_id' | 'dashboard_category' | 'categorisation_status'>,
+): string | null {
+  const status = row.categorisation_status
+  if (status !== 'mapped' && status !== 'mapped_msl') return null
+  if (!row.dashboard_category) return `A category is required before marking as ${STATUS_LABELS[status]}`
+  if (status === 'mapped' && !row.property_id) return 'A property is required before marking as Mapped'
+  return null
+}
+
+// ─── Posting ──────────────────────────────────────────────────────────────────
+// Capital categories land in capital_transactions under its lower-case types; the
+// rest become ledger entries, using the agent's item type where one already exists
+// so posted rows are counted alongside the agent's own.
+const CAPITAL_TYPES: Record<string, string> = {
+  'Purchase':         'purchase',
+  'Acquisition Cost': 'acquisition_cost',
+  'Renovation':       'renovation',
+  'Refinance':        'refinance',
+}
+const LEDGER_TYPES: Record<string, string> = {
+  'Rent':             RENT_TYPE,
+  'Mortgage Payment': MORTGAGE_PAYMENT_TYPE,
+  'Management Fee':   'Fee',
+}
+// Money moving between our own accounts is neither income, cost nor capital
+const UNPOSTABLE = ['Transfer']
+
+export function postingTarget(category: string | null): { table: PostingTable; type: string } | null {
+  if (!category || UNPOSTABLE.includes(category)) return null
+  if (CAPITAL_TYPES[category]) return { table: 'capital_transactions', type: CAPITAL_TYPES[category] }
+  return { table: 'transactions', type: LEDGER_TYPES[category] ?? category }
+}
+
+// Only property-level mapped rows can be posted; MSL rows have no property ledger
+export function postingError(
+  row: Pick<StarlingTransaction, 'date' | 'property_id' | 'dashboard_category' | 'categorisation_status' | 'posted_to'>,
+): string | null {
+  if (row.posted_to) return 'Already posted'
+  if (row.categorisation_status !== 'mapped') return 'Only Mapped transactions can be posted'
+  if (!row.property_id) return 'A property is required before posting'
+  if (!row.date) return 'The transaction has no date'
+  if (!postingTarget(row.dashboard_category)) return `${row.dashboard_category ?? 'Uncategorised'} transactions are not posted`
+  return null
+}
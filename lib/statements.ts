@@ -0,0 +1,102 @@
+import { MORTGAGE_PAYMENT_TYPE, RENT_TYPE, type LedgerEntry, type Mortgage, type Property } from '@/lib/models'
+import { activeMortgage, amortisationSchedule } from '@/lib/mortgages'
+import { taxYearBounds, taxYearOf } from '@/lib/periods'
+import type { Holding } from '@/lib/ownership'
+
+// Income statements for a UK tax year, per property or for the portfolio: rent and
+// allowable expenses from the transactions ledger, finance costs from the interest
+// on recorded mortgage schedules. Mortgage payments in the ledger are left out of the
+// expenses where a mortgage is recorded: their interest is already in the finance
+// costs and their capital is not an expense. Without one they stay as an expense, as
+// on the dashboard. Client-safe.
+
+export interface ExpenseLine {
+  category: string   // the ledger's Item type
+  amount: number     // positive = cost
+}
+
+export interface IncomeStatement {
+  taxYear: number                 // starting year: 2025 for 2025/26
+  rentalIncome: number
+  expenses: ExpenseLine[]         // largest first
+  totalExpenses: number
+  financeCosts: number            // mortgage interest paid in the year
+  netProfit: number
+  noMortgage: Property[]          // no mortgage recorded, so no finance costs counted
+}
+
+// Interest on scheduled payments falling in the year, on whichever loan was in force
+export function financeCosts(mortgages: Mortgage[], from: string, to: string): number {
+  let interest = 0
+  for (const m of mortgages) {
+    for (const row of amortisationSchedule(m)) {
+      if (row.date < from || row.date > to) continue
+      if (activeMortgage(mortgages.filter(o => o.property_id === m.property_id), row.date) === m) interest += row.interest
+    }
+  }
+  return interest
+}
+
+export function incomeStatement(
+  properties: Property[], ledger: LedgerEntry[], mortgages: Mortgage[], taxYear: number,
+): IncomeStatement {
+  const { from, to } = taxYearBounds(taxYear)
+  const ids = new Set(properties.map(p => p.property_id))
+  const rows = ledger.filter(t => t.property_id !== null && ids.has(t.property_id) && t.date >= from && t.date <= to)
+  const ownMortgages = mortgages.filter(m => ids.has(m.property_id))
+  const mortgaged = new Set(ownMortgages.map(m => m.property_id))
+
+  const rentalIncome = rows.filter(t => t.type === RENT_TYPE).reduce((s, t) => s + t.amount, 0)
+  const byCategory = new Map<string, number>()
+  for (const t of rows) {
+    if (t.type === RENT_TYPE) continue
+    if (t.type === MORTGAGE_PAYMENT_TYPE && mortgaged.has(t.property_id!)) continue
+    byCategory.set(t.type, (byCategory.get(t.type) ?? 0) - t.amount)
+  }
+  const expenses = Array.from(byCategory, ([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount)
+  const totalExpenses = expenses.reduce((s, e) => s + e.amount, 0)
+  const finance = financeCosts(ownMortgages, from, to)
+
+  return {
+    taxYear,
+    rentalIncome,
+    expenses,
+    totalExpenses,
+    financeCosts: finance,
+    netProfit: rentalIncome - totalExpenses - finance,
+    noMortgage: properties.filter(p => !ownMortgages.some(m => m.property_id === p.property_id)),
+  }
+}
+
+// An ownership entity's statement: its share of each property's, added together
+export function holdingsStatement(
+  held: Holding[], ledger: LedgerEntry[], mortgages: Mortgage[], taxYear: number,
+): IncomeStatement {
+  const parts = held.map(h => ({ share: h.share, s: incomeStatement([h.property], ledger, mortgages, taxYear) }))
+  const sum = (f: (s: IncomeStatement) => number) => parts.reduce((t, { share, s }) => t + share * f(s), 0)
+
+  const byCategory = new Map<string, number>()
+  for (const { share, s } of parts) {
+    for (const e of s.expenses) byCategory.set(e.category, (byCategory.get(e.category) ?? 0) + share * e.amount)
+  }
+  const expenses = Array.from(byCategory, ([category, amount]) => ({ category, amount }))
+    .sort((a, b) => b.amount - a.amount)
+
+  return {
+    taxYear,
+    rentalIncome:  sum(s => s.rentalIncome),
+    expenses,
+    totalExpenses: sum(s => s.totalExpenses),
+    financeCosts:  sum(s => s.financeCosts),
+    netProfit:     sum(s => s.netProfit),
+    noMortgage:    parts.flatMap(({ s }) => s.noMortgage),
+  }
+}
+
+// Tax years with ledger activity, latest first, always including the current one
+export function statementYears(ledger: LedgerEntry[], today: string): number[] {
+  const years = new Set(ledger.map(t => taxYearOf(t.date)))
+  years.add(taxYearOf(today))
+  return Array.from(years).sort((a, b) => b - a)
+}
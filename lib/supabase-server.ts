@@ -0,0 +1,14 @@
+import { createClient } from '@supabase/supabase-js'
+
+const supabaseUrl = process.env.SUPABASE_URL!
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+
+// Service-role client for route handlers and server components only — it bypasses RLS,
+// so it must never be imported from a 'use client' module.
+if (typeof window !== 'undefined') {
+  throw new Error('lib/supabase-server must not be imported in the browser')
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+})
@@ -0,0 +1,197 @@
+import { OWNER_KINDS, type Mortgage, type Owner, type OwnerKind, type Property, type PropertyOwner, type TaxBand } from '@/lib/models'
+import { propertyKpis } from '@/lib/calculations'
+import { debtPosition } from '@/lib/mortgages'
+
+// Tax on the rental profit of each ownership entity. Properties held personally pay
+// income tax, and under Section 24 mortgage interest is not deducted from the profit;
+// it earns a tax credit at the basic rate instead. Companies pay corporation tax on
+// the profit after interest. An entity's tax is what its share of the profit adds on
+// top of its other income, spread back over the properties it came from. Client-safe.
+
+export const FINANCE_COST_CREDIT_RATE = 0.2
+
+// Small profits rate up to the lower limit, main rate from the upper, with marginal
+// relief tapering between them
+const CORPORATION_TAX = { smallRate: 0.19, mainRate: 0.25, lower: 50_000, upper: 250_000 }
+
+// The personal allowance is withdrawn by £1 for every £2 of income above this
+const ALLOWANCE_TAPER_FROM = 100_000
+
+// Tax on a year's income under the bands. The allowance is the 0% band from 0; as it
+// tapers away the bands up to the taper point move down with it, so the basic-rate
+// band keeps its width, while thresholds above the taper point stay where they are.
+export function incomeTax(income: number, bands: Pick<TaxBand, 'lower' | 'rate'>[]): number {
+  if (income <= 0 || bands.length === 0) return 0
+  const sorted = [...bands].sort((a, b) => a.lower - b.lower)
+  const allowance = sorted.length > 1 && sorted[0].lower === 0 && sorted[0].rate === 0 ? sorted[1].lower : 0
+  const withdrawn = Math.min(allowance, Math.max(0, (income - ALLOWANCE_TAPER_FROM) / 2))
+  const lowers = sorted.map((b, i) => (i > 0 && b.lower <= ALLOWANCE_TAPER_FROM ? b.lower - withdrawn : b.lower))
+
+  let tax = 0
+  for (let i = 0; i < sorted.length; i++) {
+    const top = i + 1 < sorted.length ? lowers[i + 1] : Infinity
+    tax += sorted[i].rate * Math.max(0, Math.min(income, top) - lowers[i])
+  }
+  return tax
+}
+
+// Corporation tax on a year's profits, before any losses brought forward
+export function corporationTax(profit: number): number {
+  const { smallRate, mainRate, lower, upper } = CORPORATION_TAX
+  if (profit <= 0) return 0
+  if (profit <= lower) return profit * smallRate
+  if (profit >= upper) return profit * mainRate
+  const relief = ((mainRate - smallRate) * lower / (upper - lower)) * (upper - profit)
+  return profit * mainRate - relief
+}
+
+export interface ProfitTax {
+  tax: number             // extra tax the property profit brings, after any credit
+  financeCredit: number   // Section 24 credit; 0 for companies, which deduct the interest
+}
+
+// Tax an entity pays on property profit (before finance costs) on top of its other income.
+// Losses are carried forward rather than set against other income.
+export function taxOnProfit(
+  owner: Pick<Owner, 'kind' | 'other_income'>, profit: number, financeCosts: number, bands: TaxBand[],
+): ProfitTax {
+  if (owner.kind === 'company') {
+    const taxable = Math.max(0, profit - financeCosts)
+    return { tax: corporationTax(owner.other_income + taxable) - corporationTax(owner.other_income), financeCredit: 0 }
+  }
+  const taxable = Math.max(0, profit)
+  const taxBeforeCredit = incomeTax(owner.other_income + taxable, bands) - incomeTax(owner.other_income, bands)
+  const financeCredit = Math.min(taxBeforeCredit, FINANCE_COST_CREDIT_RATE * Math.min(financeCosts, taxable))
+  return { tax: taxBeforeCredit - financeCredit, financeCredit }
+}
+
+export interface OwnerTax {
+  owner: Owner
+  propertyProfit: number   // its share of rent less operating costs, before finance costs
+  financeCosts: number     // its share of the mortgage interest
+  financeCredit: number    // the Section 24 credit given; 0 for a company
+  taxOnProperty: number    // extra tax the property profit brings, after the credit
+  byProperty: Map<string, number>   // taxOnProperty spread over its properties, by property_id
+}
+
+export interface PropertyTax {
+  property: Property
+  owned: number                    // recorded shares, 0–1
+  cashflow: number                 // pre-tax, as PropertyKpis.annualCashflow
+  tax: number | null               // the owners' tax on its profit; null with no owners recorded
+  postTaxCashflow: number | null
+}
+
+// Projected annual figures, on the same debt position as the dashboard's KPIs
+export function portfolioTax(
+  properties: Property[], mortgages: Mortgage[], owners: Owner[], shares: PropertyOwner[], bands: TaxBand[], today: string,
+) {
+  const figures = new Map(properties.map(p => {
+    const k = propertyKpis(p, debtPosition(mortgages.filter(m => m.property_id === p.property_id), today))
+    return [p.property_id, { profit: p.annual_rent_phase2 - k.annualOperatingCosts, interest: k.annualMortgageInterest, cashflow: k.annualCashflow }]
+  }))
+  const held = shares.filter(s => figures.has(s.property_id) && owners.some(o => o.id === s.owner_id))
+
+  const ownerTaxes: OwnerTax[] = owners.map(owner => {
+    const holdings = held
+      .filter(s => s.owner_id === owner.id)
+      .map(s => ({ id: s.property_id, profit: s.share * figures.get(s.property_id)!.profit, interest: s.share * figures.get(s.property_id)!.interest }))
+    const propertyProfit = holdings.reduce((s, h) => s + h.profit, 0)
+    const financeCosts = holdings.reduce((s, h) => s + h.interest, 0)
+    const { tax: taxOnProperty, financeCredit } = taxOnProfit(owner, propertyProfit, financeCosts, bands)
+
+    // Spread over the properties that made a taxable profit, in proportion to it
+    const taxable = holdings
+      .map(h => ({ id: h.id, profit: owner.kind === 'company' ? h.profit - h.interest : h.profit }))
+      .filter(h => h.profit > 0)
+    const totalProfit = taxable.reduce((s, h) => s + h.profit, 0)
+    const byProperty = new Map<string, number>()
+    if (totalProfit > 0) {
+      for (const h of taxable) byProperty.set(h.id, taxOnProperty * (h.profit / totalProfit))
+    }
+
+    return { owner, propertyProfit, financeCosts, financeCredit, taxOnProperty, byProperty }
+  })
+
+  const taxOn = new Map<string, number>()
+  for (const o of ownerTaxes) for (const [id, t] of o.byProperty) taxOn.set(id, (taxOn.get(id) ?? 0) + t)
+
+  // A part-owned property's tax covers the recorded shares only
+  const byProperty: PropertyTax[] = properties.map(p => {
+    const owned = held.filter(s => s.property_id === p.property_id).reduce((s, o) => s + o.share, 0)
+    const { cashflow } = figures.get(p.property_id)!
+    const tax = owned > 0 ? (taxOn.get(p.property_id) ?? 0) : null
+    return { property: p, owned, cashflow, tax, postTaxCashflow: tax === null ? null : cashflow - tax }
+  })
+  const tax = byProperty.reduce((s, t) => s + (t.tax ?? 0), 0)
+
+  return {
+    owners: ownerTaxes,
+    properties: byProperty,
+    tax,
+    postTaxCashflow: byProperty.reduce((s, t) => s + t.cashflow, 0) - tax,
+    unowned: byProperty.filter(t => t.tax === null).map(t => t.property),
+  }
+}
+
+// ─── Input parsing ────────────────────────────────────────────────────────────
+export type OwnerInput = Pick<Owner, 'name' | 'kind' | 'other_income'>
+export type ShareInput = Pick<PropertyOwner, 'owner_id' | 'share'>
+export type TaxBandInput = Pick<TaxBand, 'label' | 'lower' | 'rate'>
+
+function number(v: unknown): number | null {
+  const s = typeof v === 'string' ? v.trim().replace(/[£,]/g, '') : typeof v === 'number' ? String(v) : ''
+  if (s === '') return null
+  const n = Number(s)
+  return Number.isFinite(n) ? n : null
+}
+
+export function parseOwnerInput(body: unknown): { owner: OwnerInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const name = typeof b.name === 'string' ? b.name.trim() : ''
+  if (!name) return { error: 'Name is required' }
+  const kind = (b.kind ?? 'individual') as OwnerKind
+  if (!OWNER_KINDS.includes(kind)) return { error: 'Choose an individual or a limited company' }
+  const other_income = number(b.other_income) ?? 0
+  if (other_income < 0) return { error: 'Other income must be a positive number' }
+  return { owner: { name, kind, other_income } }
+}
+
+// A property's whole list of owners; shares are fractions and may leave some unrecorded
+export function parseSharesInput(body: unknown): { shares: ShareInput[] } | { error: string } {
+  const rows = (body as { shares?: unknown } | null)?.shares
+  if (!Array.isArray(rows)) return { error: 'Shares are required' }
+
+  const shares: ShareInput[] = []
+  for (const row of rows) {
+    const r = (row ?? {}) as Record<string, unknown>
+    const owner_id = typeof r.owner_id === 'string' || typeof r.owner_id === 'number' ? String(r.owner_id) : ''
+    if (!owner_id) return { error: 'Choose an owner for every share' }
+    if (shares.some(s => s.owner_id === owner_id)) return { error: 'Each owner can only be listed once' }
+    const share = number(r.share)
+    if (share === null || share <= 0 || share > 1) return { error: 'Enter shares as a fraction between 0 and 1 — 0.5 for half' }
+    shares.push({ owner_id, share })
+  }
+  if (shares.reduce((s, o) => s + o.share, 0) > 1 + 1e-9) return { error: 'Shares cannot add up to more than 1' }
+  return { shares }
+}
+
+export function parseBandsInput(body: unknown): { bands: TaxBandInput[] } | { error: string } {
+  const rows = (body as { bands?: unknown } | null)?.bands
+  if (!Array.isArray(rows) || rows.length === 0) return { error: 'At least one band is required' }
+
+  const bands: TaxBandInput[] = []
+  for (const row of rows) {
+    const r = (row ?? {}) as Record<string, unknown>
+    const label = typeof r.label === 'string' ? r.label.trim() : ''
+    if (!label) return { error: 'Every band needs a label' }
+    const lower = number(r.lower)
+    if (lower === null || lower < 0) return { error: `${label}: threshold must be a positive number` }
+    if (bands.some(b => b.lower === lower)) return { error: `${label}: another band starts at £${lower}` }
+    const rate = number(r.rate)
+    if (rate === null || rate < 0 || rate > 1) return { error: `${label}: enter the rate as a fraction — 0.2 for 20%` }
+    bands.push({ label, lower, rate })
+  }
+  if (!bands.some(b => b.lower === 0)) return { error: 'One band must start at £0' }
+  return { bands: bands.sort((a, b) => a.lower - b.lower) }
+}
@@ -0,0 +1,95 @@
+import {
+  DEPOSIT_SCHEMES, RENT_FREQUENCIES, RENT_TYPE,
+  type DepositScheme, type LedgerEntry, type Property, type RentFrequency, type Tenancy,
+} from '@/lib/models'
+import { annualise } from '@/lib/annualisation'
+
+// Tenancy register and the rent roll built from it: contracted rent per property
+// alongside the projected figure and the ledger's annualised actual. Client-safe.
+
+export const RENT_FREQUENCY_LABELS: Record<RentFrequency, string> = {
+  weekly:  'pw',
+  monthly: 'pcm',
+  annual:  'pa',
+}
+
+export const DEPOSIT_SCHEME_LABELS: Record<DepositScheme, string> = {
+  dps:        'DPS',
+  tds:        'TDS',
+  mydeposits: 'mydeposits',
+}
+
+const PER_YEAR: Record<RentFrequency, number> = { weekly: 52, monthly: 12, annual: 1 }
+
+export function annualRent(t: Pick<Tenancy, 'rent' | 'rent_frequency'>): number {
+  return t.rent * PER_YEAR[t.rent_frequency]
+}
+
+// In force on the date: started, and not yet ended (end date inclusive)
+export function isCurrent(t: Pick<Tenancy, 'start_date' | 'end_date'>, date: string): boolean {
+  return t.start_date <= date && (t.end_date === null || t.end_date >= date)
+}
+
+export interface RentRollRow {
+  property: Property
+  tenancies: Tenancy[]            // current on the date
+  contracted: number              // annual, from current tenancies
+  projected: number               // annual_rent_phase2
+  actual: number | null           // annualised from the ledger, as the Income panel shows
+  unprotected: number             // current deposits with no scheme recorded
+}
+
+export function rentRoll(properties: Property[], tenancies: Tenancy[], ledger: LedgerEntry[], date: string): RentRollRow[] {
+  return properties.map(p => {
+    const current = tenancies.filter(t => t.property_id === p.property_id && isCurrent(t, date))
+    return {
+      property: p,
+      tenancies: current,
+      contracted: current.reduce((s, t) => s + annualRent(t), 0),
+      projected: p.annual_rent_phase2,
+      actual: annualise(ledger.filter(t => t.property_id === p.property_id && t.type === RENT_TYPE))?.value ?? null,
+      unprotected: current.filter(t => (t.deposit_amount ?? 0) > 0 && !t.deposit_scheme).length,
+    }
+  })
+}
+
+// ─── Form input ───────────────────────────────────────────────────────────────
+export type TenancyInput = Omit<Tenancy, 'id' | 'property_id'>
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+function validDate(v: string) {
+  return DATE.test(v) && !Number.isNaN(Date.parse(v))
+}
+
+// Validate a request body into tenancies columns
+export function parseTenancyInput(body: unknown): { tenancy: TenancyInput } | { error: string } {
+  const b = (body ?? {}) as Record<string, unknown>
+  const text = (k: string) => (typeof b[k] === 'string' ? (b[k] as string).trim() : typeof b[k] === 'number' ? String(b[k]) : '')
+  const money = (k: string) => (text(k) === '' ? null : Number(text(k).replace(/[£,]/g, '')))
+
+  const tenant_name = text('tenant_name')
+  if (!tenant_name) return { error: 'Tenant is required' }
+  const rent = money('rent')
+  if (rent === null || !Number.isFinite(rent) || rent < 0) return { error: 'Rent must be a number' }
+  const rent_frequency = text('rent_frequency') as RentFrequency
+  if (!RENT_FREQUENCIES.includes(rent_frequency)) return { error: 'Choose weekly, monthly or annual rent' }
+
+  const start_date = text('start_date')
+  if (!validDate(start_date)) return { error: 'Start date must be YYYY-MM-DD' }
+  const end_date = text('end_date') || null
+  if (end_date !== null && !validDate(end_date)) return { error: 'End date must be YYYY-MM-DD' }
+  if (end_date !== null && end_date < start_date) return { error: 'End date cannot be before the start date' }
+
+  const deposit_amount = money('deposit_amount')
+  if (deposit_amount !== null && (!Number.isFinite(deposit_amount) || deposit_amount < 0)) return { error: 'Deposit must be a number' }
+  const scheme = text('deposit_scheme')
+  if (scheme && !DEPOSIT_SCHEMES.includes(scheme as DepositScheme)) return { error: 'Unknown deposit scheme' }
+
+  return {
+    tenancy: {
+      tenant_name, room: text('room') || null, rent, rent_frequency, start_date, end_date,
+      deposit_amount, deposit_scheme: (scheme || null) as DepositScheme | null,
+    },
+  }
+}
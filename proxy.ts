@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { SESSION_COOKIE, readSessionToken } from '@/lib/session'
+
+// Every route except the login screen and its endpoint requires a valid session cookie
+export function proxy(request: NextRequest) {
+  const session = readSessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+  if (session) return NextResponse.next()
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const loginUrl = new URL('/login', request.url)
+  const next = request.nextUrl.pathname + request.nextUrl.search
+  if (next !== '/') loginUrl.searchParams.set('next', next)
+  const response = NextResponse.redirect(loginUrl)
+  // Drop an expired or tampered cookie so the browser stops sending it
+  if (request.cookies.has(SESSION_COOKIE)) response.cookies.delete(SESSION_COOKIE)
+  return response
+}
+
+export const config = {
+  matcher: ['/((?!login|api/auth/login|_next/static|_next/image|favicon\\.ico).*)'],
+}
@@ -0,0 +1,14 @@
+// Prints a password hash for the dashboard_users.password_hash column.
+// Usage: npm run hash-password -- '<password>'
+// Must stay in step with hashPassword() in lib/auth.ts.
+import { randomBytes, scryptSync } from 'node:crypto'
+
+const password = process.argv[2]
+if (!password) {
+  console.error("Usage: npm run hash-password -- '<password>'")
+  process.exit(1)
+}
+
+const salt = randomBytes(16)
+const hash = scryptSync(password, salt, 64)
+console.log(`scrypt$${salt.toString('base64')}$${hash.toString('base64')}`)
@@ -0,0 +1,15 @@
+-- Dashboard login accounts. Passwords are stored as scrypt hashes produced by
+-- `npm run hash-password -- <password>`; never store plain text here.
+create table if not exists dashboard_users (
+  id               uuid primary key default gen_random_uuid(),
+  email            text not null unique,
+  display_name     text,
+  password_hash    text not null,
+  failed_attempts  integer not null default 0,
+  locked_until     timestamptz,
+  last_login_at    timestamptz,
+  created_at       timestamptz not null default now()
+);
+
+-- Only the server (service role) reads this table; the anon key gets nothing.
+alter table dashboard_users enable row level security;
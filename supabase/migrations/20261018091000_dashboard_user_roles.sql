@@ -0,0 +1,10 @@
+-- Roles and per-property visibility for dashboard accounts.
+--   owner       full access to every property, can edit
+--   bookkeeper  can edit, limited to property_ids unless all_properties
+--   investor    read-only, limited to property_ids unless all_properties
+--   lender      read-only, limited to property_ids unless all_properties
+alter table dashboard_users
+  add column if not exists role text not null default 'investor'
+    check (role in ('owner', 'bookkeeper', 'investor', 'lender')),
+  add column if not exists all_properties boolean not null default false,
+  add column if not exists property_ids text[] not null default '{}';
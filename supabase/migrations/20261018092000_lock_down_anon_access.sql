@@ -0,0 +1,8 @@
+-- All reads now happen on the server with the service role key, which bypasses RLS.
+-- Enabling RLS without any policies means the old public anon key can no longer read data.
+alter table properties_master     enable row level security;
+alter table transactions          enable row level security;
+alter table starling_transactions enable row level security;
+alter table capital_transactions  enable row level security;
+alter table scenarios             enable row level security;
+alter table valuations            enable row level security;
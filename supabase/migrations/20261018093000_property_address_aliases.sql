@@ -0,0 +1,12 @@
+-- Free-text addresses used by letting agents and the bank feed, mapped to a property.
+-- Matching is done on a normalised form (see lib/addresses.ts), so the alias can be
+-- stored exactly as it appears in the source data.
+create table if not exists property_address_aliases (
+  id           bigint generated always as identity primary key,
+  alias        text not null unique,
+  property_id  text not null references properties_master (property_id) on delete cascade,
+  created_by   uuid references dashboard_users (id) on delete set null,
+  created_at   timestamptz not null default now()
+);
+
+alter table property_address_aliases enable row level security;
@@ -0,0 +1,21 @@
+-- User-defined rules that auto-categorise Starling rows. Conditions are ANDed;
+-- text patterns are case-insensitive "contains" matches and amounts are signed
+-- (money out is negative). The lowest priority number wins when several match.
+create table if not exists starling_rules (
+  id                      bigint generated always as identity primary key,
+  name                    text not null,
+  priority                integer not null default 100,
+  enabled                 boolean not null default true,
+  counter_party_pattern   text,
+  reference_pattern       text,
+  txn_type                text,
+  min_amount              numeric,
+  max_amount              numeric,
+  set_property_id         text references properties_master (property_id) on delete set null,
+  set_dashboard_category  text,
+  set_status              text not null default 'mapped'
+    check (set_status in ('pending', 'needs_review', 'mapped', 'mapped_msl')),
+  created_at              timestamptz not null default now()
+);
+
+alter table starling_rules enable row level security;
@@ -0,0 +1,9 @@
+-- Mapped Starling rows are posted into the ledger they belong to: operational rows
+-- into transactions, capital rows into capital_transactions. source_starling_id points
+-- back at the bank row; the unique constraints stop a row being posted twice, and
+-- deleting the posted entry is how a row is un-posted.
+alter table transactions
+  add column if not exists source_starling_id text unique;
+
+alter table capital_transactions
+  add column if not exists source_starling_id text unique;
@@ -0,0 +1,4 @@
+-- Properties are archived rather than deleted so their ledger, bank and capital
+-- history keeps resolving. Archived properties drop out of the dashboard views.
+alter table properties_master
+  add column if not exists archived_at timestamptz;
@@ -0,0 +1,40 @@
+-- Each capital transaction names the Investment Summary line it belongs to, replacing
+-- keyword matching on the description. Existing rows are classified here where the
+-- type and description leave no doubt; the rest stay null for the review screen
+-- (/capital/review).
+alter table capital_transactions
+  add column if not exists subcategory text
+    check (subcategory in (
+      'purchase_price', 'stamp_duty', 'solicitor_fees', 'agent_fee',
+      'renovation', 'renovation_mgmt', 'equity_release'
+    ));
+
+-- The confident cases of suggestSubcategory in lib/capital.ts: purchases, refinances
+-- and renovations by type, acquisition costs only when one keyword group matches
+with legacy as (
+  select transaction_id, type,
+         d ~ '(stamp|sdlt|duty)'                      as stamp_duty,
+         d ~ '(solicitor|legal|convey|mortgage fee)'  as solicitor_fees,
+         d ~ '(agent|sourc|finder|introduc)'          as agent_fee,
+         d ~ '(manag|mgmt)'                           as renovation_mgmt
+  from (
+    select transaction_id, type, lower(coalesce(description, '')) as d
+    from capital_transactions
+    where subcategory is null
+  ) rows
+), classified as (
+  select transaction_id,
+         case
+           when type = 'purchase'   then 'purchase_price'
+           when type = 'refinance'  then 'equity_release'
+           when type = 'renovation' then case when renovation_mgmt then 'renovation_mgmt' else 'renovation' end
+           when type = 'acquisition_cost' and stamp_duty::int + solicitor_fees::int + agent_fee::int = 1 then
+             case when stamp_duty then 'stamp_duty' when solicitor_fees then 'solicitor_fees' else 'agent_fee' end
+         end as subcategory
+  from legacy
+)
+update capital_transactions t
+set subcategory = c.subcategory
+from classified c
+where t.transaction_id = c.transaction_id
+  and c.subcategory is not null;
@@ -0,0 +1,7 @@
+-- One scenario per property can be marked as its base case: the reference the
+-- others are compared against in the Scenario Analysis table and chart.
+alter table scenarios
+  add column if not exists is_base_case boolean not null default false;
+
+create unique index if not exists scenarios_one_base_case
+  on scenarios (property_id) where is_base_case;
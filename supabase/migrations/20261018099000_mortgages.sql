@@ -0,0 +1,21 @@
+-- Actual loans per property, replacing the interest-only assumption where one is
+-- recorded. A loan runs to the end of its term or until a later loan on the same
+-- property starts (a remortgage redeems it). Rates are fractions, as elsewhere.
+create table if not exists mortgages (
+  id              bigint generated always as identity primary key,
+  property_id     text not null references properties_master (property_id) on delete cascade,
+  lender          text not null,
+  start_date      date not null,
+  principal       numeric not null check (principal > 0),
+  term_months     integer not null check (term_months > 0),
+  repayment_type  text not null default 'interest_only'
+    check (repayment_type in ('repayment', 'interest_only')),
+  initial_rate    numeric not null check (initial_rate >= 0),
+  fixed_until     date,
+  reversion_rate  numeric check (reversion_rate >= 0),
+  created_at      timestamptz not null default now()
+);
+
+create index if not exists mortgages_property on mortgages (property_id, start_date);
+
+alter table mortgages enable row level security;
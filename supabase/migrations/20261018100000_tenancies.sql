@@ -0,0 +1,21 @@
+-- Tenancy register: who rents which room, on what terms, and where their deposit
+-- is protected. A null end_date is a periodic or open-ended tenancy.
+create table if not exists tenancies (
+  id              bigint generated always as identity primary key,
+  property_id     text not null references properties_master (property_id) on delete cascade,
+  tenant_name     text not null,
+  room            text,
+  rent            numeric not null check (rent >= 0),
+  rent_frequency  text not null default 'monthly'
+    check (rent_frequency in ('weekly', 'monthly', 'annual')),
+  start_date      date not null,
+  end_date        date,
+  deposit_amount  numeric check (deposit_amount >= 0),
+  deposit_scheme  text check (deposit_scheme in ('dps', 'tds', 'mydeposits')),
+  created_at      timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists tenancies_property on tenancies (property_id, start_date);
+
+alter table tenancies enable row level security;
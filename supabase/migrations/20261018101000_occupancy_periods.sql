@@ -0,0 +1,18 @@
+-- Manual occupancy entries, alongside the tenancy register: a bed let outside the
+-- register, or a void (refurbishment, a room held back). A null room covers every
+-- bed in the property; a null end_date runs to today.
+create table if not exists occupancy_periods (
+  id           bigint generated always as identity primary key,
+  property_id  text not null references properties_master (property_id) on delete cascade,
+  room         text,
+  status       text not null check (status in ('occupied', 'void')),
+  start_date   date not null,
+  end_date     date,
+  note         text,
+  created_at   timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists occupancy_periods_property on occupancy_periods (property_id, start_date);
+
+alter table occupancy_periods enable row level security;
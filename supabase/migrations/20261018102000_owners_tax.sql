@@ -0,0 +1,42 @@
+-- Who owns each property, and the income tax bands used to estimate their tax.
+-- Owners hold properties personally, so Section 24 applies: mortgage interest is
+-- not deducted but earns a basic-rate credit. other_income is the owner's income
+-- from outside the portfolio (employment, pensions), which sets their marginal rate.
+create table if not exists owners (
+  id            bigint generated always as identity primary key,
+  name          text not null,
+  other_income  numeric not null default 0 check (other_income >= 0),
+  created_at    timestamptz not null default now()
+);
+
+-- share is a fraction of the property; a property's shares may not add up to
+-- more than 1, which the route handlers check
+create table if not exists property_owners (
+  property_id  text not null references properties_master (property_id) on delete cascade,
+  owner_id     bigint not null references owners (id) on delete cascade,
+  share        numeric not null check (share > 0 and share <= 1),
+  primary key (property_id, owner_id)
+);
+
+-- Each band applies from its lower threshold to the next band's; a 0% band
+-- starting at 0 is the personal allowance
+create table if not exists tax_bands (
+  id          bigint generated always as identity primary key,
+  label       text not null,
+  lower       numeric not null check (lower >= 0),
+  rate        numeric not null check (rate >= 0 and rate <= 1),
+  created_at  timestamptz not null default now()
+);
+
+insert into tax_bands (label, lower, rate)
+select * from (values
+  ('Personal allowance', 0,      0),
+  ('Basic rate',         12570,  0.20),
+  ('Higher rate',        50270,  0.40),
+  ('Additional rate',    125140, 0.45)
+) as defaults (label, lower, rate)
+where not exists (select 1 from tax_bands);
+
+alter table owners enable row level security;
+alter table property_owners enable row level security;
+alter table tax_bands enable row level security;
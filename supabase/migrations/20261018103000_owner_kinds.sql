@@ -0,0 +1,6 @@
+-- Owners become ownership entities: people, who pay income tax with the Section 24
+-- restriction, or limited companies (SPVs), which pay corporation tax and deduct
+-- mortgage interest in full. A property held by several people is a joint holding.
+-- For a company, other_income is its profits from outside the portfolio.
+alter table owners
+  add column if not exists kind text not null default 'individual' check (kind in ('individual', 'company'));
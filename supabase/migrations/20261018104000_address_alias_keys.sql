@@ -0,0 +1,31 @@
+-- Aliases are unique on their normalised form (normaliseAddress in lib/addresses.ts),
+-- which is what the resolver matches on: "6 Pennington Gr." and "6 pennington grove"
+-- are one alias, not two that disagree. The route handler writes alias_key; existing
+-- rows are keyed here with the same rules.
+alter table property_address_aliases
+  add column if not exists alias_key text;
+
+update property_address_aliases a
+set alias_key = (
+  select string_agg(coalesce(x.word, w.word), ' ' order by w.n)
+  from regexp_split_to_table(lower(a.alias), '[\s.,''’]+') with ordinality as w (word, n)
+  left join (values
+    ('rd', 'road'), ('ave', 'avenue'), ('av', 'avenue'), ('tce', 'terrace'), ('terr', 'terrace'),
+    ('gr', 'grove'), ('gro', 'grove'), ('mt', 'mount'), ('ln', 'lane'), ('cres', 'crescent'),
+    ('dr', 'drive'), ('pl', 'place'), ('ct', 'court'), ('gdns', 'gardens'), ('sq', 'square')
+  ) as x (short, word) on x.short = w.word
+  where w.word <> ''
+)
+where alias_key is null;
+
+-- Where spellings of one address were mapped separately, the latest mapping stands
+delete from property_address_aliases a
+using property_address_aliases b
+where a.alias_key = b.alias_key and a.id < b.id;
+
+alter table property_address_aliases
+  alter column alias_key set not null,
+  drop constraint if exists property_address_aliases_alias_key;
+
+create unique index if not exists property_address_aliases_alias_key_idx
+  on property_address_aliases (alias_key);